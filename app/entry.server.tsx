@@ -5,9 +5,16 @@ import { createReadableStreamFromReadable } from "@react-router/node";
 import { type EntryContext } from "react-router";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { startIngestionScheduler } from "./lib/ingestion.server";
+import { startWebhookDeliveryScheduler } from "./lib/outbound-webhooks.server";
 
 export const streamTimeout = 5000;
 
+// Poll SFTP / folder ingestion sources for new tracking files
+startIngestionScheduler();
+// Retry outbound webhook deliveries as they come due
+startWebhookDeliveryScheduler();
+
 export default async function handleRequest(
   request: Request,
   responseStatusCode: number,
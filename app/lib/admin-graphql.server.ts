@@ -0,0 +1,270 @@
+// app/lib/admin-graphql.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { AdminOperations } from "@shopify/admin-api-client";
+
+/**
+ * The one way server code talks to the Admin GraphQL API.
+ *
+ * - returns `data`, typed per operation from the `*Query` / `*Mutation` types
+ *   `npm run graphql-codegen` writes to app/types/admin.generated.d.ts, or
+ *   throws AdminGraphqlError. Codegen downloads the Admin schema from
+ *   shopify.dev; without that file every result is `any`
+ * - reserves the cost budget (leaky bucket, refilled from the
+ *   `extensions.cost.throttleStatus` of every response) before sending, so
+ *   concurrent calls on one admin context wait their turn
+ * - retries THROTTLED responses and HTTP 429 with exponential backoff, and
+ *   5xx / network errors for queries only: a mutation whose response was
+ *   lost may have been applied, and sending it again could fulfill twice
+ * - `userErrorsFailure` turns mutation userErrors into the `{ ok: false }`
+ *   shape the lib modules return
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type GraphqlUserError = {
+  field?: string[] | null;
+  message: string;
+  code?: string | null;
+};
+
+// A mutation payload: the returned fields plus userErrors
+export type MutationPayload<T> = T & { userErrors?: GraphqlUserError[] };
+
+export type UserErrorsFailure = { ok: false; error: string; details: string };
+
+export class AdminGraphqlError extends Error {
+  readonly errors: Array<{ message: string; code: string | null }>;
+
+  constructor(
+    message: string,
+    errors: Array<{ message: string; code: string | null }> = [],
+  ) {
+    super(message);
+    this.name = "AdminGraphqlError";
+    this.errors = errors;
+  }
+}
+
+type ThrottleStatus = {
+  maximumAvailable: number;
+  currentlyAvailable: number;
+  restoreRate: number;
+};
+
+type QueryCost = {
+  requestedQueryCost?: number;
+  actualQueryCost?: number | null;
+  throttleStatus?: ThrottleStatus;
+};
+
+type RawError = {
+  message?: string;
+  extensions?: { code?: string };
+};
+
+// Attempts per call, including the first one
+const MAX_TRIES = 5;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 15_000;
+// Assumed cost of a query that has not run yet
+const DEFAULT_QUERY_COST = 50;
+
+/**
+ * =========================
+ * Leaky bucket
+ * =========================
+ */
+
+type Bucket = ThrottleStatus & { at: number };
+
+// The budget is per shop, but the client does not expose the shop; a job
+// reuses one admin context for all its calls, which is where it matters.
+const buckets = new WeakMap<AdminApiContext, Bucket>();
+// Last requested cost per query text, to know what to wait for next time
+const queryCosts = new Map<string, number>();
+
+function available(bucket: Bucket, now = Date.now()) {
+  return Math.min(
+    bucket.maximumAvailable,
+    bucket.currentlyAvailable + ((now - bucket.at) / 1000) * bucket.restoreRate,
+  );
+}
+
+/** Waits until `cost` is available, then takes it out of the bucket. */
+async function reserveBudget(admin: AdminApiContext, cost: number) {
+  for (;;) {
+    const bucket = buckets.get(admin);
+    if (!bucket || bucket.restoreRate <= 0) return;
+
+    const need = Math.min(cost, bucket.maximumAvailable);
+    const now = Date.now();
+    const have = available(bucket, now);
+    if (have >= need) {
+      buckets.set(admin, {
+        ...bucket,
+        currentlyAvailable: have - need,
+        at: now,
+      });
+      return;
+    }
+    // another call may reserve first; check again after the wait
+    await sleep(((need - have) / bucket.restoreRate) * 1000);
+  }
+}
+
+function noteCost(admin: AdminApiContext, query: string, cost?: QueryCost) {
+  if (cost?.requestedQueryCost) queryCosts.set(query, cost.requestedQueryCost);
+  if (cost?.throttleStatus)
+    buckets.set(admin, { ...cost.throttleStatus, at: Date.now() });
+}
+
+/**
+ * =========================
+ * Requests
+ * =========================
+ */
+
+/**
+ * Pass the `#graphql` document as a literal so codegen can match it to its
+ * generated types. The shape a caller assigns the result to is only checked
+ * against the schema once app/types/admin.generated.d.ts exists; re-run
+ * codegen after changing a document or bumping the API version.
+ */
+export async function adminGraphql<Operation extends keyof AdminOperations>(
+  admin: AdminApiContext,
+  query: Operation,
+  variables?: AdminOperations[Operation]["variables"],
+): Promise<AdminOperations[Operation]["return"]> {
+  const text = String(query);
+  const mutation = /^\s*(#graphql\s+)?mutation\b/.test(text);
+  for (let attempt = 1; ; attempt++) {
+    await reserveBudget(admin, queryCosts.get(text) ?? DEFAULT_QUERY_COST);
+
+    try {
+      const res = await admin.graphql(query, { variables });
+      const json: {
+        data?: AdminOperations[Operation]["return"] | null;
+        extensions?: { cost?: QueryCost };
+      } = await res.json();
+      noteCost(admin, text, json.extensions?.cost);
+      if (!json.data)
+        throw new AdminGraphqlError("The Admin API returned no data.");
+      return json.data;
+    } catch (e: unknown) {
+      if (e instanceof AdminGraphqlError) throw e;
+
+      const failure = describeFailure(e);
+      if (failure.cost) noteCost(admin, text, failure.cost);
+      const retryable = failure.throttled || (failure.transient && !mutation);
+      if (!retryable || attempt >= MAX_TRIES)
+        throw new AdminGraphqlError(failure.message, failure.errors);
+
+      await sleep(failure.retryAfterMs ?? backoff(attempt));
+    }
+  }
+}
+
+/** null when the mutation went through, else the first userError. */
+export function userErrorsFailure(
+  userErrors: GraphqlUserError[] | null | undefined,
+  fallback: string,
+): UserErrorsFailure | null {
+  const errs = userErrors || [];
+  if (!errs.length) return null;
+  return {
+    ok: false,
+    error: errs[0]?.message || fallback,
+    details: JSON.stringify(errs, null, 2),
+  };
+}
+
+/**
+ * admin.graphql throws GraphqlQueryError for top-level GraphQL errors and
+ * Http*Error for transport problems. Those classes are not exported by the
+ * app package, so they are recognised by shape.
+ */
+function describeFailure(e: unknown): {
+  message: string;
+  errors: Array<{ message: string; code: string | null }>;
+  // rejected before running (THROTTLED, 429): always safe to send again
+  throttled: boolean;
+  // 5xx or no response: the call may or may not have been applied
+  transient: boolean;
+  retryAfterMs?: number;
+  cost?: QueryCost;
+} {
+  const err = (e || {}) as {
+    message?: string;
+    body?: {
+      errors?: { graphQLErrors?: RawError[] };
+      extensions?: { cost?: QueryCost };
+    };
+    response?: { code?: number; retryAfter?: number };
+  };
+  const message = err.message || String(e);
+
+  const graphQLErrors = err.body?.errors?.graphQLErrors;
+  if (graphQLErrors?.length) {
+    const errors = graphQLErrors.map((g) => ({
+      message: String(g.message || "GraphQL error"),
+      code: g.extensions?.code ?? null,
+    }));
+    const cost = err.body?.extensions?.cost;
+    const throttled = errors.some((g) => g.code === "THROTTLED");
+    const status = cost?.throttleStatus;
+    return {
+      message: errors.map((g) => g.message).join("; "),
+      errors,
+      throttled,
+      transient: false,
+      // wait until the bucket holds what the query asked for
+      retryAfterMs:
+        throttled && status && status.restoreRate > 0
+          ? (Math.max(
+              0,
+              (cost?.requestedQueryCost ?? DEFAULT_QUERY_COST) -
+                status.currentlyAvailable,
+            ) /
+              status.restoreRate) *
+              1000 +
+            BACKOFF_BASE_MS
+          : undefined,
+      cost,
+    };
+  }
+
+  const code = err.response?.code;
+  if (code === 429)
+    return {
+      message,
+      errors: [],
+      throttled: true,
+      transient: false,
+      retryAfterMs: err.response?.retryAfter
+        ? err.response.retryAfter * 1000
+        : undefined,
+    };
+  if (code !== undefined)
+    return { message, errors: [], throttled: false, transient: code >= 500 };
+
+  // No response at all (network error, timeout)
+  return {
+    message,
+    errors: [],
+    throttled: false,
+    transient: /no response available|fetch failed/i.test(message),
+  };
+}
+
+function backoff(attempt: number) {
+  const ms = BACKOFF_BASE_MS * 2 ** (attempt - 1);
+  return Math.min(BACKOFF_MAX_MS, ms + Math.random() * BACKOFF_BASE_MS);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,121 @@
+// app/lib/api-keys.server.ts
+import { createHash, randomBytes } from "node:crypto";
+import db from "../db.server";
+
+/**
+ * Per-shop keys for the public API (api.v1.*). A key identifies the shop, so
+ * callers send nothing but `Authorization: Bearer <key>`. Keys are random,
+ * so a plain SHA-256 is enough to store them; the key itself is only
+ * returned by createApiKey.
+ */
+
+export type ApiKeyView = {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+};
+
+const KEY_PREFIX = "fck_";
+// Characters of the key kept in clear to tell keys apart
+const VISIBLE_CHARS = KEY_PREFIX.length + 6;
+// lastUsedAt is written at most this often per key
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export async function listApiKeys(shop: string): Promise<ApiKeyView[]> {
+  const rows = await db.apiKey.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+  });
+  return rows.map(toView);
+}
+
+export async function createApiKey(
+  shop: string,
+  args: { name: string; createdBy: bigint | null },
+): Promise<
+  { ok: true; key: string; apiKey: ApiKeyView } | { ok: false; error: string }
+> {
+  const name = args.name.trim();
+  if (!name) return { ok: false, error: "Name is required." };
+
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  const row = await db.apiKey.create({
+    data: {
+      shop,
+      name,
+      prefix: key.slice(0, VISIBLE_CHARS),
+      keyHash: hashKey(key),
+      createdBy: args.createdBy,
+    },
+  });
+  return { ok: true, key, apiKey: toView(row) };
+}
+
+export async function revokeApiKey(
+  shop: string,
+  id: string,
+): Promise<ApiKeyView | null> {
+  const { count } = await db.apiKey.updateMany({
+    where: { id, shop, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (!count) return null;
+  const row = await db.apiKey.findUnique({ where: { id } });
+  return row ? toView(row) : null;
+}
+
+/**
+ * The shop and key behind an API request, or null when the key is missing,
+ * unknown or revoked. Accepts `Authorization: Bearer <key>` or `X-Api-Key`.
+ */
+export async function authenticateApiKey(
+  request: Request,
+): Promise<{ shop: string; keyId: string; name: string } | null> {
+  const auth = request.headers.get("Authorization") || "";
+  const key = (
+    /^Bearer\s+(.+)$/i.exec(auth)?.[1] ||
+    request.headers.get("X-Api-Key") ||
+    ""
+  ).trim();
+  if (!key.startsWith(KEY_PREFIX)) return null;
+
+  const row = await db.apiKey.findUnique({ where: { keyHash: hashKey(key) } });
+  if (!row || row.revokedAt) return null;
+
+  const now = Date.now();
+  if (
+    !row.lastUsedAt ||
+    now - row.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS
+  )
+    await db.apiKey.update({
+      where: { id: row.id },
+      data: { lastUsedAt: new Date(now) },
+    });
+
+  return { shop: row.shop, keyId: row.id, name: row.name };
+}
+
+function hashKey(key: string) {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toView(row: {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+}): ApiKeyView {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.prefix,
+    createdAt: row.createdAt.toISOString(),
+    lastUsedAt: row.lastUsedAt?.toISOString() ?? null,
+    revokedAt: row.revokedAt?.toISOString() ?? null,
+  };
+}
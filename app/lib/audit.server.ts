@@ -0,0 +1,240 @@
+// app/lib/audit.server.ts
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { toCsvText } from "./csv";
+import { auditIntentLabel, type AuditFilters } from "./audit";
+import type { StaffUser } from "./staff.server";
+
+/**
+ * Who changed what through the app. Every mutating Fulfillment Center intent
+ * and every fulfillment created by a CSV sync writes one AuditEvent with the
+ * staff member behind it, the input sent to Shopify and what came back.
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type AuditEventInput = {
+  shop: string;
+  staff: StaffUser;
+  intent: string;
+  orderIds?: string[];
+  orderNames?: string[];
+  // for actions on a fulfillment order; its order is looked up in the cache
+  fulfillmentOrderIds?: string[];
+  payload: unknown;
+  ok: boolean;
+  // the result, or the error / userErrors when ok is false
+  result: unknown;
+};
+
+export type AuditEventView = {
+  id: string;
+  createdAt: string;
+  userId: string | null;
+  userName: string | null;
+  userEmail: string | null;
+  intent: string;
+  orderIds: string[];
+  orderNames: string[];
+  ok: boolean;
+  payload: string; // pretty-printed JSON
+  result: string; // pretty-printed JSON
+};
+
+// Rows in one CSV export
+const EXPORT_LIMIT = 10_000;
+
+/**
+ * =========================
+ * Writes
+ * =========================
+ */
+
+/**
+ * Never throws: the action it records has already happened, so a failed
+ * write is logged rather than reported as a failed action.
+ */
+export async function recordAuditEvent(e: AuditEventInput): Promise<void> {
+  try {
+    const orderIds = new Set(e.orderIds || []);
+    if (e.fulfillmentOrderIds?.length) {
+      const fos = await db.cachedFulfillmentOrder.findMany({
+        where: { shop: e.shop, id: { in: e.fulfillmentOrderIds } },
+        select: { orderId: true },
+      });
+      for (const fo of fos) orderIds.add(fo.orderId);
+    }
+
+    await db.auditEvent.create({
+      data: {
+        shop: e.shop,
+        userId: e.staff.userId,
+        userName: e.staff.name,
+        userEmail: e.staff.email,
+        intent: e.intent,
+        orderIds: JSON.stringify(Array.from(orderIds)),
+        orderNames: JSON.stringify(e.orderNames || []),
+        payload: JSON.stringify(e.payload ?? null),
+        ok: e.ok,
+        result: JSON.stringify(e.result ?? null),
+      },
+    });
+  } catch (err) {
+    console.error(`Could not record audit event ${e.intent}:`, err);
+  }
+}
+
+/**
+ * =========================
+ * Reads
+ * =========================
+ */
+
+export async function listAuditEvents(
+  shop: string,
+  filters: AuditFilters,
+  opts: { page: number; pageSize: number },
+): Promise<{ events: AuditEventView[]; hasNext: boolean }> {
+  const rows = await db.auditEvent.findMany({
+    where: await auditWhere(shop, filters),
+    orderBy: { createdAt: "desc" },
+    skip: (opts.page - 1) * opts.pageSize,
+    take: opts.pageSize + 1,
+  });
+
+  return {
+    events: rows.slice(0, opts.pageSize).map(toView),
+    hasNext: rows.length > opts.pageSize,
+  };
+}
+
+/** Staff members that appear in the log, for the user filter. */
+export async function listAuditUsers(
+  shop: string,
+): Promise<Array<{ userId: string; label: string }>> {
+  const rows = await db.auditEvent.groupBy({
+    by: ["userId"],
+    where: { shop, userId: { not: null } },
+    _max: { userName: true, userEmail: true },
+  });
+  return rows
+    .map((r) => ({
+      userId: String(r.userId),
+      label: r._max.userName || r._max.userEmail || `User ${r.userId}`,
+    }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export async function buildAuditCsv(
+  shop: string,
+  filters: AuditFilters,
+): Promise<string> {
+  const rows = await db.auditEvent.findMany({
+    where: await auditWhere(shop, filters),
+    orderBy: { createdAt: "desc" },
+    take: EXPORT_LIMIT,
+  });
+
+  const out: string[][] = [
+    [
+      "created_at",
+      "user_id",
+      "user_name",
+      "user_email",
+      "action",
+      "intent",
+      "outcome",
+      "order_names",
+      "order_ids",
+      "payload",
+      "result",
+    ],
+  ];
+  for (const row of rows) {
+    out.push([
+      row.createdAt.toISOString(),
+      row.userId === null ? "" : String(row.userId),
+      row.userName ?? "",
+      row.userEmail ?? "",
+      auditIntentLabel(row.intent),
+      row.intent,
+      row.ok ? "ok" : "failed",
+      (JSON.parse(row.orderNames) as string[]).join(" "),
+      (JSON.parse(row.orderIds) as string[]).join(" "),
+      row.payload,
+      row.result,
+    ]);
+  }
+  return toCsvText(out);
+}
+
+/**
+ * An order filter is an order name (#1001) or the number at the end of the
+ * order's admin URL. Names are also resolved to ids through the order cache,
+ * since most actions only know the order id.
+ */
+async function auditWhere(
+  shop: string,
+  filters: AuditFilters,
+): Promise<Prisma.AuditEventWhereInput> {
+  const where: Prisma.AuditEventWhereInput = { shop };
+  if (filters.intent) where.intent = filters.intent;
+  if (filters.user) where.userId = BigInt(filters.user);
+  if (filters.outcome) where.ok = filters.outcome === "ok";
+  if (filters.from || filters.to)
+    where.createdAt = {
+      ...(filters.from ? { gte: new Date(`${filters.from}T00:00:00Z`) } : {}),
+      ...(filters.to ? { lte: new Date(`${filters.to}T23:59:59.999Z`) } : {}),
+    };
+
+  const order = filters.order;
+  if (/^\d+$/.test(order)) {
+    where.orderIds = { contains: `/Order/${order}"` };
+  } else if (order) {
+    const name = order.startsWith("#") ? order : `#${order}`;
+    const cached = await db.cachedOrder.findFirst({
+      where: { shop, name },
+      select: { id: true },
+    });
+    where.OR = [
+      { orderNames: { contains: JSON.stringify(name) } },
+      ...(cached
+        ? [{ orderIds: { contains: JSON.stringify(cached.id) } }]
+        : []),
+    ];
+  }
+
+  return where;
+}
+
+function toView(row: {
+  id: string;
+  createdAt: Date;
+  userId: bigint | null;
+  userName: string | null;
+  userEmail: string | null;
+  intent: string;
+  orderIds: string;
+  orderNames: string;
+  ok: boolean;
+  payload: string;
+  result: string;
+}): AuditEventView {
+  return {
+    id: row.id,
+    createdAt: row.createdAt.toISOString(),
+    userId: row.userId === null ? null : String(row.userId),
+    userName: row.userName,
+    userEmail: row.userEmail,
+    intent: row.intent,
+    orderIds: JSON.parse(row.orderIds),
+    orderNames: JSON.parse(row.orderNames),
+    ok: row.ok,
+    payload: JSON.stringify(JSON.parse(row.payload), null, 2),
+    result: JSON.stringify(JSON.parse(row.result), null, 2),
+  };
+}
@@ -0,0 +1,88 @@
+// app/lib/audit.ts
+
+/**
+ * Audit log filters and labels, shared by the audit page and its CSV export.
+ * Filters live in the URL search params like the order list filters.
+ */
+
+export const AUDIT_PAGE_SIZE = 50;
+
+// intent -> what the audit page calls it
+export const AUDIT_INTENT_LABELS: Record<string, string> = {
+  create_fulfillments_grouped: "Create fulfillments",
+  hold_fulfillment_order: "Hold fulfillment order",
+  release_fulfillment_order: "Release hold",
+  move_fulfillment_order: "Move fulfillment order",
+  update_tracking: "Update tracking",
+  cancel_fulfillment: "Cancel fulfillment",
+  tracking_corrections: "Tracking corrections file",
+  batch_orders: "Batch action",
+  csv_sync: "CSV upload",
+  csv_sync_confirm: "Confirm CSV sync",
+  csv_sync_discard: "Discard CSV sync",
+  csv_sync_fulfill: "CSV sync fulfillment",
+  csv_ingest: "Scheduled file import",
+  api_fulfill: "API fulfillment",
+  create_api_key: "Create API key",
+  revoke_api_key: "Revoke API key",
+  save_webhook_endpoint: "Save webhook endpoint",
+  delete_webhook_endpoint: "Delete webhook endpoint",
+  rotate_webhook_secret: "Rotate webhook secret",
+  set_staff_roles: "Change staff roles",
+};
+
+export function auditIntentLabel(intent: string): string {
+  return AUDIT_INTENT_LABELS[intent] || intent;
+}
+
+export type AuditFilters = {
+  intent: string;
+  user: string; // Shopify staff user id
+  order: string; // order name (#1001) or numeric order id
+  outcome: string; // ok | failed
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD
+};
+
+const FILTER_KEYS: Array<keyof AuditFilters> = [
+  "intent",
+  "user",
+  "order",
+  "outcome",
+  "from",
+  "to",
+];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const EMPTY_AUDIT_FILTERS: AuditFilters = {
+  intent: "",
+  user: "",
+  order: "",
+  outcome: "",
+  from: "",
+  to: "",
+};
+
+export function parseAuditFilters(params: URLSearchParams): AuditFilters {
+  const filters = { ...EMPTY_AUDIT_FILTERS };
+  for (const k of FILTER_KEYS) filters[k] = (params.get(k) || "").trim();
+
+  if (!DATE_RE.test(filters.from)) filters.from = "";
+  if (!DATE_RE.test(filters.to)) filters.to = "";
+  if (!/^\d+$/.test(filters.user)) filters.user = "";
+  if (filters.outcome !== "ok" && filters.outcome !== "failed")
+    filters.outcome = "";
+  return filters;
+}
+
+/** Filters as search params, leaving out the empty ones. */
+export function auditFiltersToParams(filters: AuditFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const k of FILTER_KEYS) if (filters[k]) params.set(k, filters[k]);
+  return params;
+}
+
+export function hasAuditFilters(filters: AuditFilters): boolean {
+  return FILTER_KEYS.some((k) => Boolean(filters[k]));
+}
@@ -0,0 +1,284 @@
+// app/lib/batch-fulfillment.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql } from "./admin-graphql.server";
+import type { CarrierDef } from "./carriers";
+import type { FulfillmentHoldInput } from "./fulfillment-holds";
+import {
+  createFulfillment,
+  groupByTracking,
+  holdFulfillmentOrder,
+  releaseFulfillmentOrderHold,
+  type MutationStatusResult,
+  type PickedItem,
+} from "./fulfillments.server";
+import { emitFulfillmentCreated } from "./outbound-webhooks.server";
+
+/**
+ * Actions on a selection of orders from the Fulfillment Center table. Orders
+ * are processed one after another; a failure on one order is reported and
+ * the rest of the selection still runs.
+ */
+
+export type BatchOrderAction =
+  | "fulfill"
+  | "fulfill_tracking"
+  | "hold"
+  | "release";
+
+export const BATCH_ORDER_ACTIONS: BatchOrderAction[] = [
+  "fulfill",
+  "fulfill_tracking",
+  "hold",
+  "release",
+];
+
+// Shown when none of an order's fulfillment orders qualify
+const NOTHING_TO_DO: Record<BatchOrderAction, string> = {
+  fulfill: "Nothing left to fulfill (closed or on hold)",
+  fulfill_tracking: "Nothing left to fulfill (closed or on hold)",
+  hold: "No open fulfillment orders to hold",
+  release: "No fulfillment orders on hold",
+};
+
+export type BatchOrderResult = {
+  orderId: string;
+  orderName: string | null;
+  ok: boolean;
+  message: string;
+};
+
+type BatchFulfillmentOrder = {
+  id: string;
+  status: string;
+  locationId: string | null;
+  lineItems: Array<{ id: string; remainingQuantity: number }>;
+};
+
+// Fulfillment orders that fulfillmentCreateV2 / fulfillmentOrderHold accept
+const ACTIONABLE_FO_STATUSES = new Set(["OPEN", "IN_PROGRESS"]);
+
+export async function runBatchOrderAction(
+  admin: AdminApiContext,
+  args: {
+    shop: string;
+    action: BatchOrderAction;
+    orderIds: string[];
+    trackingNumber: string;
+    carrier: string;
+    notifyCustomer: boolean;
+    carriers: CarrierDef[];
+    hold: FulfillmentHoldInput;
+    // location queue: leave fulfillment orders at other locations alone
+    locationId: string | null;
+  },
+): Promise<BatchOrderResult[]> {
+  const results: BatchOrderResult[] = [];
+
+  for (const orderId of args.orderIds) {
+    let orderName: string | null = null;
+    try {
+      const order = await loadOrderFulfillmentOrders(admin, orderId);
+      if (!order) {
+        results.push({
+          orderId,
+          orderName,
+          ok: false,
+          message: "Order not found",
+        });
+        continue;
+      }
+      orderName = order.name;
+
+      const fos = order.fulfillmentOrders.filter((fo) => {
+        if (args.locationId && fo.locationId !== args.locationId) return false;
+        if (args.action === "release") return fo.status === "ON_HOLD";
+        return (
+          ACTIONABLE_FO_STATUSES.has(fo.status) &&
+          fo.lineItems.some((li) => li.remainingQuantity > 0)
+        );
+      });
+      if (!fos.length) {
+        results.push({
+          orderId,
+          orderName,
+          ok: false,
+          message: NOTHING_TO_DO[args.action],
+        });
+        continue;
+      }
+
+      const out =
+        args.action === "hold"
+          ? await eachFulfillmentOrder(fos, "held", (fo) =>
+              holdFulfillmentOrder(admin, fo.id, args.hold),
+            )
+          : args.action === "release"
+            ? await eachFulfillmentOrder(fos, "released", (fo) =>
+                releaseFulfillmentOrderHold(admin, fo.id),
+              )
+            : await fulfillOrder(
+                admin,
+                { id: orderId, name: order.name },
+                fos,
+                args,
+              );
+      results.push({ orderId, orderName, ...out });
+    } catch (e: unknown) {
+      results.push({
+        orderId,
+        orderName,
+        ok: false,
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  return results;
+}
+
+async function fulfillOrder(
+  admin: AdminApiContext,
+  order: { id: string; name: string | null },
+  fos: BatchFulfillmentOrder[],
+  args: {
+    shop: string;
+    action: BatchOrderAction;
+    trackingNumber: string;
+    carrier: string;
+    notifyCustomer: boolean;
+    carriers: CarrierDef[];
+  },
+): Promise<{ ok: boolean; message: string }> {
+  const withTracking = args.action === "fulfill_tracking";
+
+  // One fulfillment can only span fulfillment orders at the same location
+  const byLocation = new Map<string, PickedItem[]>();
+  for (const fo of fos) {
+    const key = fo.locationId || fo.id;
+    const items = byLocation.get(key) || [];
+    for (const li of fo.lineItems) {
+      if (li.remainingQuantity <= 0) continue;
+      items.push({
+        foLineItemId: li.id,
+        fulfillmentOrderId: fo.id,
+        quantity: li.remainingQuantity,
+        trackingNumber: withTracking ? args.trackingNumber : "",
+        carrier: withTracking ? args.carrier : "",
+      });
+    }
+    byLocation.set(key, items);
+  }
+
+  let created = 0;
+  for (const items of byLocation.values()) {
+    for (const group of groupByTracking(items, args.carriers)) {
+      const input = {
+        notifyCustomer: args.notifyCustomer,
+        trackingInfo: group.trackingInfo,
+        lineItemsByFulfillmentOrder: group.lineItemsByFulfillmentOrder,
+      };
+      const out = await createFulfillment(admin, input);
+      if (!out.ok)
+        return {
+          ok: false,
+          message: created
+            ? `${out.error} (after ${created} fulfillment(s) were created)`
+            : out.error,
+        };
+      created++;
+      if (out.fulfillmentId)
+        await emitFulfillmentCreated(args.shop, {
+          source: "batch_orders",
+          orderId: order.id,
+          orderName: order.name,
+          fulfillmentId: out.fulfillmentId,
+          status: out.status,
+          input,
+        });
+    }
+  }
+
+  return { ok: true, message: `Created ${created} fulfillment(s)` };
+}
+
+async function eachFulfillmentOrder(
+  fos: BatchFulfillmentOrder[],
+  verb: string,
+  run: (fo: BatchFulfillmentOrder) => Promise<MutationStatusResult>,
+): Promise<{ ok: boolean; message: string }> {
+  let done = 0;
+  for (const fo of fos) {
+    const out = await run(fo);
+    if (!out.ok)
+      return {
+        ok: false,
+        message: done
+          ? `${out.error} (after ${done} fulfillment order(s) were ${verb})`
+          : out.error,
+      };
+    done++;
+  }
+  return { ok: true, message: `${done} fulfillment order(s) ${verb}` };
+}
+
+async function loadOrderFulfillmentOrders(
+  admin: AdminApiContext,
+  orderId: string,
+): Promise<{
+  name: string;
+  fulfillmentOrders: BatchFulfillmentOrder[];
+} | null> {
+  const data: {
+    order: {
+      name?: string | null;
+      fulfillmentOrders?: {
+        nodes?: Array<{
+          id: string;
+          status?: string | null;
+          assignedLocation?: {
+            location?: { id?: string | null } | null;
+          } | null;
+          lineItems?: {
+            nodes?: Array<{ id: string; remainingQuantity?: number | null }>;
+          };
+        }>;
+      };
+    } | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query BatchOrderFOs($id: ID!) {
+      order(id: $id) {
+        name
+        fulfillmentOrders(first: 50) {
+          nodes {
+            id
+            status
+            assignedLocation { location { id } }
+            lineItems(first: 100) {
+              nodes { id remainingQuantity }
+            }
+          }
+        }
+      }
+    }`,
+    { id: orderId },
+  );
+  const order = data.order;
+  if (!order) return null;
+
+  const nodes = order.fulfillmentOrders?.nodes || [];
+
+  return {
+    name: String(order.name || ""),
+    fulfillmentOrders: nodes.map((fo) => ({
+      id: String(fo.id),
+      status: String(fo.status || "").toUpperCase(),
+      locationId: fo.assignedLocation?.location?.id ?? null,
+      lineItems: (fo.lineItems?.nodes || []).map((li) => ({
+        id: String(li.id),
+        remainingQuantity: Number(li.remainingQuantity || 0),
+      })),
+    })),
+  };
+}
@@ -0,0 +1,132 @@
+// app/lib/carriers.server.ts
+import db from "../db.server";
+import {
+  SHOPIFY_CARRIERS,
+  buildCarrierRegistry,
+  customCarrierDef,
+  normalizeCarrierKey,
+  type CarrierDef,
+} from "./carriers";
+
+export type CustomCarrier = {
+  id: string;
+  name: string;
+  aliases: string[];
+  urlTemplate: string;
+  trackingPattern: string | null;
+};
+
+export async function listCustomCarriers(
+  shop: string,
+): Promise<CustomCarrier[]> {
+  const rows = await db.customCarrier.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+  return rows.map(toCustomCarrier);
+}
+
+/**
+ * Built-in Shopify carriers plus the shop's custom ones.
+ */
+export async function loadCarrierRegistry(shop: string): Promise<CarrierDef[]> {
+  const custom = await listCustomCarriers(shop);
+  return buildCarrierRegistry(custom.map(customCarrierDef));
+}
+
+export async function saveCustomCarrier(
+  shop: string,
+  input: {
+    id?: string;
+    name: string;
+    aliases: string;
+    urlTemplate: string;
+    trackingPattern: string;
+  },
+): Promise<
+  { ok: true; carrier: CustomCarrier } | { ok: false; error: string }
+> {
+  const name = String(input.name || "").trim();
+  if (!name) return { ok: false, error: "Carrier name is required." };
+
+  const known = SHOPIFY_CARRIERS.find(
+    (c) => normalizeCarrierKey(c.company) === normalizeCarrierKey(name),
+  );
+  if (known)
+    return {
+      ok: false,
+      error: `${known.company} is supported by Shopify already; it gets tracking links without a template.`,
+    };
+
+  const urlTemplate = String(input.urlTemplate || "").trim();
+  if (
+    !/^https?:\/\/\S+$/.test(urlTemplate) ||
+    !urlTemplate.includes("{number}")
+  )
+    return {
+      ok: false,
+      error: "URL template must be an http(s) URL containing {number}.",
+    };
+
+  const trackingPattern = String(input.trackingPattern || "").trim() || null;
+  if (trackingPattern) {
+    try {
+      new RegExp(trackingPattern);
+    } catch {
+      return { ok: false, error: "Tracking pattern is not a valid regex." };
+    }
+  }
+
+  const aliases = String(input.aliases || "")
+    .split(",")
+    .map((a) => a.trim())
+    .filter(Boolean);
+
+  const clash = await db.customCarrier.findFirst({
+    where: { shop, name, NOT: input.id ? { id: input.id } : undefined },
+  });
+  if (clash)
+    return { ok: false, error: `A carrier named "${name}" already exists.` };
+
+  const data = {
+    name,
+    aliases: JSON.stringify(aliases),
+    urlTemplate,
+    trackingPattern,
+  };
+  if (input.id) {
+    const updated = await db.customCarrier.updateMany({
+      where: { id: input.id, shop },
+      data,
+    });
+    if (!updated.count) return { ok: false, error: "Carrier not found." };
+    const row = await db.customCarrier.findUniqueOrThrow({
+      where: { id: input.id },
+    });
+    return { ok: true, carrier: toCustomCarrier(row) };
+  }
+
+  const row = await db.customCarrier.create({ data: { shop, ...data } });
+  return { ok: true, carrier: toCustomCarrier(row) };
+}
+
+export async function deleteCustomCarrier(shop: string, id: string) {
+  const res = await db.customCarrier.deleteMany({ where: { id, shop } });
+  return res.count > 0;
+}
+
+function toCustomCarrier(row: {
+  id: string;
+  name: string;
+  aliases: string;
+  urlTemplate: string;
+  trackingPattern: string | null;
+}): CustomCarrier {
+  return {
+    id: row.id,
+    name: row.name,
+    aliases: JSON.parse(row.aliases),
+    urlTemplate: row.urlTemplate,
+    trackingPattern: row.trackingPattern,
+  };
+}
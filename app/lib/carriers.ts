@@ -0,0 +1,195 @@
+// app/lib/carriers.ts
+
+/**
+ * Carrier registry: maps whatever a merchant or 3PL types ("usps",
+ * "U.S.P.S", "fedex ground") to the company names Shopify recognises, so
+ * customers get a tracking link. Carriers Shopify does not know can be added
+ * per shop with a tracking URL template.
+ */
+
+export type CarrierDef = {
+  // Sent as trackingInfo.company
+  company: string;
+  // Compared after normalizeCarrierKey()
+  aliases: string[];
+  // Tracking number formats, matched against the number with spaces and
+  // dashes removed and upper-cased. No formats = anything goes.
+  formats?: RegExp[];
+  // Custom carriers only; "{number}" is replaced by the tracking number
+  urlTemplate?: string;
+};
+
+// S10 / UPU international postal item: two letters, 9 digits, country code
+const S10 = /^[A-Z]{2}\d{9}[A-Z]{2}$/;
+
+export const SHOPIFY_CARRIERS: CarrierDef[] = [
+  {
+    company: "UPS",
+    aliases: ["ups", "unitedparcelservice", "upsground", "upsexpress"],
+    formats: [/^1Z[0-9A-Z]{16}$/, /^T\d{10}$/],
+  },
+  {
+    company: "USPS",
+    aliases: ["usps", "unitedstatespostalservice", "uspostalservice"],
+    formats: [
+      /^9[1-5]\d{20}$/,
+      /^9[1-5]\d{24}$/,
+      /^420\d{5}(\d{4})?9[1-5]\d{20,24}$/,
+      /^[A-Z]{2}\d{9}US$/,
+    ],
+  },
+  {
+    company: "FedEx",
+    aliases: ["fedex", "federalexpress", "fedexground", "fedexexpress"],
+    formats: [/^\d{12}$/, /^\d{15}$/, /^\d{20}$/, /^96\d{20}$/, /^\d{34}$/],
+  },
+  {
+    company: "DHL Express",
+    aliases: ["dhl", "dhlexpress", "dhlworldwide"],
+    formats: [/^\d{10,11}$/, /^JJD\d{18,20}$/, /^[A-Z]{3}\d{7}$/],
+  },
+  {
+    company: "DHL eCommerce",
+    aliases: ["dhlecommerce", "dhlglobalmail", "dhlecom"],
+    formats: [/^(GM|LX|RX)[0-9A-Z]{10,20}$/, /^\d{16,22}$/, /^420\d{23,27}$/],
+  },
+  {
+    company: "Canada Post",
+    aliases: ["canadapost", "postescanada"],
+    formats: [/^\d{16}$/, /^\d{12}$/, S10],
+  },
+  {
+    company: "Royal Mail",
+    aliases: ["royalmail"],
+    formats: [S10, /^[A-Z0-9]{16}$/],
+  },
+  { company: "Australia Post", aliases: ["australiapost", "auspost"] },
+  { company: "Purolator", aliases: ["purolator"], formats: [/^\d{12}$/] },
+  { company: "PostNL", aliases: ["postnl"] },
+  { company: "La Poste", aliases: ["laposte", "colissimo"] },
+  { company: "Chronopost", aliases: ["chronopost"] },
+  { company: "Deutsche Post (DE)", aliases: ["deutschepost"] },
+  { company: "DPD", aliases: ["dpd"] },
+  { company: "DPD UK", aliases: ["dpduk"] },
+  { company: "GLS", aliases: ["gls"] },
+  { company: "Evri", aliases: ["evri", "hermes", "hermesuk"] },
+  { company: "Yodel", aliases: ["yodel"] },
+  { company: "TNT", aliases: ["tnt"] },
+  { company: "Aramex", aliases: ["aramex"] },
+  { company: "Correos", aliases: ["correos"] },
+  { company: "Poste Italiane", aliases: ["posteitaliane"] },
+  { company: "PostNord Sweden", aliases: ["postnord", "postnordsweden"] },
+  { company: "New Zealand Post", aliases: ["newzealandpost", "nzpost"] },
+  { company: "Japan Post (EN)", aliases: ["japanpost"] },
+  { company: "China Post", aliases: ["chinapost"], formats: [S10] },
+  { company: "Singapore Post", aliases: ["singaporepost", "singpost"] },
+  { company: "YunExpress", aliases: ["yunexpress"] },
+  { company: "4PX", aliases: ["4px"] },
+  { company: "OnTrac", aliases: ["ontrac"] },
+  { company: "Sendle", aliases: ["sendle"] },
+  { company: "Canpar", aliases: ["canpar"] },
+  { company: "Loomis", aliases: ["loomis"] },
+  { company: "Amazon Logistics US", aliases: ["amazon", "amazonlogistics"] },
+];
+
+// "U.S.P.S" -> "usps", "FedEx Ground" -> "fedexground"
+export function normalizeCarrierKey(raw: string): string {
+  return String(raw || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Finds the carrier for a free-text value. Exact alias matches win, then the
+ * longest alias the value starts with ("upsground2day" -> UPS). Custom
+ * carriers are checked before the built-in list. Unknown values are passed
+ * through trimmed, as Shopify accepts any company name.
+ */
+export function resolveCarrier(
+  raw: string,
+  registry: CarrierDef[] = SHOPIFY_CARRIERS,
+): { company: string; carrier: CarrierDef | null } {
+  const input = String(raw || "").trim();
+  const key = normalizeCarrierKey(input);
+  if (!key) return { company: input, carrier: null };
+
+  const keysOf = (c: CarrierDef) => [
+    normalizeCarrierKey(c.company),
+    ...c.aliases.map(normalizeCarrierKey),
+  ];
+
+  const exact = registry.find((c) => keysOf(c).includes(key));
+  if (exact) return { company: exact.company, carrier: exact };
+
+  let best: { carrier: CarrierDef; len: number } | null = null;
+  for (const c of registry) {
+    for (const k of keysOf(c)) {
+      if (k.length >= 3 && key.startsWith(k) && k.length > (best?.len ?? 0))
+        best = { carrier: c, len: k.length };
+    }
+  }
+  if (best) return { company: best.carrier.company, carrier: best.carrier };
+
+  return { company: input, carrier: null };
+}
+
+/**
+ * Returns a message when the number cannot belong to the carrier, null when
+ * it looks fine or the carrier has no known formats.
+ */
+export function checkTrackingFormat(
+  trackingNumber: string,
+  carrier: CarrierDef | null,
+): string | null {
+  if (!carrier?.formats?.length) return null;
+  const n = String(trackingNumber || "")
+    .replace(/[\s-]+/g, "")
+    .toUpperCase();
+  if (!n) return null;
+  if (carrier.formats.some((re) => re.test(n))) return null;
+  return `${trackingNumber} does not look like a ${carrier.company} tracking number`;
+}
+
+export function buildTrackingUrl(
+  trackingNumber: string,
+  carrier: CarrierDef | null,
+): string | undefined {
+  if (!carrier?.urlTemplate || !trackingNumber) return undefined;
+  return carrier.urlTemplate.replace(
+    /\{number\}/g,
+    encodeURIComponent(trackingNumber.trim()),
+  );
+}
+
+/**
+ * A shop's custom carrier as stored, in registry form. Also used in the
+ * browser, so the pattern is compiled here rather than trusted.
+ */
+export function customCarrierDef(c: {
+  name: string;
+  aliases: string[];
+  urlTemplate?: string;
+  trackingPattern: string | null;
+}): CarrierDef {
+  let formats: RegExp[] | undefined;
+  if (c.trackingPattern) {
+    try {
+      formats = [new RegExp(c.trackingPattern, "i")];
+    } catch {
+      formats = undefined; // validated on save; ignore if it broke since
+    }
+  }
+  return {
+    company: c.name,
+    aliases: c.aliases,
+    formats,
+    urlTemplate: c.urlTemplate,
+  };
+}
+
+/**
+ * Shop carriers first so they can shadow a built-in alias.
+ */
+export function buildCarrierRegistry(custom: CarrierDef[]): CarrierDef[] {
+  return [...custom, ...SHOPIFY_CARRIERS];
+}
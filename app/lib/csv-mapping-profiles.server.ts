@@ -0,0 +1,134 @@
+// app/lib/csv-mapping-profiles.server.ts
+import db from "../db.server";
+import {
+  CSV_FIELDS,
+  isCsvField,
+  type CsvColumnMapping,
+  type CsvColumnTransform,
+} from "./csv-mapping";
+
+export type CsvMappingProfile = {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  updatedAt: string;
+};
+
+export async function listMappingProfiles(
+  shop: string,
+): Promise<CsvMappingProfile[]> {
+  const rows = await db.csvMappingProfile.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+  return rows.map(toProfile);
+}
+
+export async function getMappingProfile(
+  shop: string,
+  id: string,
+): Promise<CsvMappingProfile | null> {
+  const row = await db.csvMappingProfile.findFirst({ where: { id, shop } });
+  return row ? toProfile(row) : null;
+}
+
+/**
+ * Creates the profile, or updates it when `id` is given. Returns an error
+ * message instead of throwing for anything the merchant can fix.
+ */
+export async function saveMappingProfile(
+  shop: string,
+  input: { id?: string; name: string; mapping: unknown },
+): Promise<
+  { ok: true; profile: CsvMappingProfile } | { ok: false; error: string }
+> {
+  const name = String(input.name || "").trim();
+  if (!name) return { ok: false, error: "Profile name is required." };
+
+  const mapping = parseMapping(input.mapping);
+  const missing = CSV_FIELDS.filter(
+    (f) => f.required && !mapping.some((m) => m.field === f.field),
+  );
+  if (missing.length)
+    return {
+      ok: false,
+      error: `Map a column to ${missing.map((f) => f.label).join(", ")}.`,
+    };
+
+  const clash = await db.csvMappingProfile.findFirst({
+    where: { shop, name, NOT: input.id ? { id: input.id } : undefined },
+  });
+  if (clash)
+    return { ok: false, error: `A profile named "${name}" already exists.` };
+
+  const data = { name, mapping: JSON.stringify(mapping) };
+  if (input.id) {
+    const updated = await db.csvMappingProfile.updateMany({
+      where: { id: input.id, shop },
+      data,
+    });
+    if (!updated.count) return { ok: false, error: "Profile not found." };
+    const row = await db.csvMappingProfile.findUniqueOrThrow({
+      where: { id: input.id },
+    });
+    return { ok: true, profile: toProfile(row) };
+  }
+
+  const row = await db.csvMappingProfile.create({ data: { shop, ...data } });
+  return { ok: true, profile: toProfile(row) };
+}
+
+export async function deleteMappingProfile(shop: string, id: string) {
+  const res = await db.csvMappingProfile.deleteMany({ where: { id, shop } });
+  return res.count > 0;
+}
+
+/**
+ * Keeps only well-formed entries; a stored profile is never trusted blindly
+ * since it round-trips through a form.
+ */
+export function parseMapping(raw: unknown): CsvColumnMapping {
+  let value = raw;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  const out: CsvColumnMapping = [];
+  for (const entry of value) {
+    const field = String(entry?.field || "");
+    const header = String(entry?.header || "").trim();
+    if (!isCsvField(field) || !header) continue;
+
+    const t = entry?.transform;
+    const transform: CsvColumnTransform = {};
+    if (t?.stripPrefix) transform.stripPrefix = String(t.stripPrefix);
+    if (t?.stripSuffix) transform.stripSuffix = String(t.stripSuffix);
+    if (t?.uppercase) transform.uppercase = true;
+
+    out.push(
+      Object.keys(transform).length
+        ? { field, header, transform }
+        : { field, header },
+    );
+  }
+  return out;
+}
+
+function toProfile(row: {
+  id: string;
+  name: string;
+  mapping: string;
+  updatedAt: Date;
+}): CsvMappingProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    mapping: parseMapping(row.mapping),
+    updatedAt: row.updatedAt.toISOString(),
+  };
+}
@@ -0,0 +1,146 @@
+// app/lib/csv-mapping.ts
+
+/**
+ * Column mapping for the CSV importer: which source header feeds which
+ * sync field, plus small per-column clean-ups. Shared by the upload action
+ * and the mapping settings page.
+ */
+
+export const CSV_FIELDS = [
+  {
+    field: "order_name",
+    label: "Order name",
+    required: true,
+    aliases: ["order_name", "order", "name", "order_number"],
+  },
+  {
+    field: "tracking_number",
+    label: "Tracking number",
+    required: false,
+    aliases: ["tracking_number", "tracking", "tn", "tracking_no"],
+  },
+  {
+    field: "carrier",
+    label: "Carrier",
+    required: false,
+    aliases: ["carrier", "company", "shipping_company"],
+  },
+  {
+    field: "notify_customer",
+    label: "Notify customer",
+    required: false,
+    aliases: ["notify_customer", "notify"],
+  },
+  {
+    field: "sku",
+    label: "SKU",
+    required: false,
+    aliases: ["sku", "variant_sku"],
+  },
+  {
+    field: "line_item_id",
+    label: "Line item id",
+    required: false,
+    aliases: ["line_item_id", "line_item"],
+  },
+  {
+    field: "quantity",
+    label: "Quantity",
+    required: false,
+    aliases: ["quantity", "qty"],
+  },
+] as const;
+
+export type CsvField = (typeof CSV_FIELDS)[number]["field"];
+
+export type CsvColumnTransform = {
+  stripPrefix?: string;
+  stripSuffix?: string;
+  uppercase?: boolean;
+};
+
+export type CsvColumnMapping = Array<{
+  field: CsvField;
+  header: string;
+  transform?: CsvColumnTransform;
+}>;
+
+/**
+ * "Order #", "Tracking No." and "shipping-method" all compare as
+ * order / trackingno / shippingmethod.
+ */
+export function normalizeHeader(h: string): string {
+  return String(h || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "");
+}
+
+/**
+ * Guess a mapping from the header row using the built-in aliases.
+ * Fields without a matching header are left out.
+ */
+export function autoDetectMapping(headers: string[]): CsvColumnMapping {
+  const byNormalized = new Map<string, string>();
+  for (const h of headers) {
+    const n = normalizeHeader(h);
+    if (n && !byNormalized.has(n)) byNormalized.set(n, h);
+  }
+
+  const mapping: CsvColumnMapping = [];
+  for (const f of CSV_FIELDS) {
+    const header = f.aliases
+      .map((a) => byNormalized.get(normalizeHeader(a)))
+      .find(Boolean);
+    if (header) mapping.push({ field: f.field, header });
+  }
+  return mapping;
+}
+
+/**
+ * Profile headers are matched loosely too, so a profile saved for
+ * "Tracking No." still applies to "tracking no".
+ */
+export function resolveMapping(
+  headers: string[],
+  mapping: CsvColumnMapping,
+): { mapping: CsvColumnMapping; missing: string[] } {
+  const byNormalized = new Map<string, string>();
+  for (const h of headers) byNormalized.set(normalizeHeader(h), h);
+
+  const resolved: CsvColumnMapping = [];
+  const missing: string[] = [];
+  for (const m of mapping) {
+    const header = byNormalized.get(normalizeHeader(m.header));
+    if (header) resolved.push({ ...m, header });
+    else missing.push(m.header);
+  }
+  return { mapping: resolved, missing };
+}
+
+export function applyTransform(value: string, t?: CsvColumnTransform): string {
+  let v = String(value ?? "").trim();
+  if (!t) return v;
+  if (t.stripPrefix && v.toLowerCase().startsWith(t.stripPrefix.toLowerCase()))
+    v = v.slice(t.stripPrefix.length).trim();
+  if (t.stripSuffix && v.toLowerCase().endsWith(t.stripSuffix.toLowerCase()))
+    v = v.slice(0, v.length - t.stripSuffix.length).trim();
+  if (t.uppercase) v = v.toUpperCase();
+  return v;
+}
+
+export function applyMapping(
+  obj: Record<string, string>,
+  mapping: CsvColumnMapping,
+): Partial<Record<CsvField, string>> {
+  const out: Partial<Record<CsvField, string>> = {};
+  for (const m of mapping) {
+    if (out[m.field]) continue; // first non-empty column wins
+    const v = applyTransform(obj[m.header] ?? "", m.transform);
+    if (v) out[m.field] = v;
+  }
+  return out;
+}
+
+export function isCsvField(v: string): v is CsvField {
+  return CSV_FIELDS.some((f) => f.field === v);
+}
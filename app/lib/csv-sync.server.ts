@@ -0,0 +1,1424 @@
+// app/lib/csv-sync.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { csvRowToObj, toCsvText, type CsvTable } from "./csv";
+import { adminGraphql } from "./admin-graphql.server";
+import {
+  applyMapping,
+  autoDetectMapping,
+  resolveMapping,
+  type CsvColumnMapping,
+} from "./csv-mapping";
+import {
+  createFulfillment,
+  groupByTracking,
+  type FulfillmentGroup,
+  type PickedItem,
+} from "./fulfillments.server";
+import type { StaffUser } from "./staff.server";
+import { resolveCarrier } from "./carriers";
+import { loadCarrierRegistry } from "./carriers.server";
+import { getShopSettings } from "./shop-settings.server";
+import { validateTrackingNumber } from "./tracking-validation";
+import { searchValue } from "./order-filters";
+import { recordAuditEvent } from "./audit.server";
+import {
+  emitFulfillmentCreated,
+  emitWebhookEvent,
+} from "./outbound-webhooks.server";
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type CsvSyncJobStatus =
+  | "preview_queued"
+  | "previewing"
+  | "preview_ready"
+  | "queued"
+  | "running"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type CsvSyncPreviewRow = {
+  row: number;
+  orderName: string;
+  trackingNumber: string | null;
+  carrier: string | null;
+  notifyCustomer: boolean;
+  error: string | null;
+  skipped: boolean;
+  // e.g. tracking number does not match the carrier's format
+  warning: string | null;
+  lines: Array<{ title: string; sku: string | null; quantity: number }>;
+};
+
+export type CsvSyncJobSummary = {
+  id: string;
+  filename: string;
+  uploaderName: string | null;
+  uploaderEmail: string | null;
+  mappingProfileName: string | null;
+  mapping: CsvColumnMapping;
+  status: CsvSyncJobStatus;
+  totalRows: number;
+  previewedRows: number;
+  previewFailedRows: number;
+  previewSkippedRows: number;
+  plannedFulfillments: number;
+  processedRows: number;
+  succeededRows: number;
+  failedRows: number;
+  skippedRows: number;
+  createdFulfillments: number;
+  error: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+  errorsSample: Array<{ row: number; order_name?: string; error: string }>;
+  // Only filled once the dry run is done (status "preview_ready").
+  preview: CsvSyncPreviewRow[] | null;
+};
+
+export type CsvSyncRowInput = {
+  orderName: string;
+  trackingNumber: string | null;
+  carrier: string | null;
+  notifyCustomer: boolean;
+  // line-level rows fulfill only the matching line item(s)
+  sku: string | null;
+  lineItemId: string | null;
+  quantity: number | null;
+};
+
+export type CsvSyncPlannedFulfillment = {
+  fulfillmentOrderId: string;
+  lineItems: Array<{
+    id: string; // fulfillmentOrderLineItem id
+    quantity: number;
+    title: string;
+    sku: string | null;
+  }>;
+};
+
+// `skipped` marks rows that were already applied (duplicate tracking number);
+// they are reported separately from real failures.
+export type CsvSyncRowPlan =
+  | {
+      ok: true;
+      orderId: string;
+      fulfillments: CsvSyncPlannedFulfillment[];
+      warning?: string;
+    }
+  | { ok: false; error: string; skipped?: boolean };
+
+export type CsvSyncRowResult =
+  | { ok: true; fulfillmentIds: string[] }
+  | {
+      ok: false;
+      error: string;
+      skipped?: boolean;
+      fulfillmentIds: string[];
+    };
+
+const ERRORS_SAMPLE_SIZE = 20;
+const PREVIEW_ROWS_LIMIT = 500;
+// A running job that has not been touched for this long is assumed to belong
+// to a worker that died (deploy / crash) and is put back on the queue. The
+// worker running a job touches it every HEARTBEAT_MS, however long a single
+// order waits on Shopify, so a live job is never picked up a second time.
+const STALE_JOB_MS = 5 * 60 * 1000;
+const HEARTBEAT_MS = 60 * 1000;
+
+// Orders read from the file per round; their Shopify data is fetched together
+const ORDERS_PER_ROUND = 25;
+// Orders planned / synced at the same time within a round
+const ORDER_CONCURRENCY = 4;
+// Order names OR-combined into one search
+const NAMES_PER_SEARCH = 50;
+// Orders per fulfillment data query, keeping its cost well under 1000
+const ORDERS_PER_NODES_QUERY = 3;
+// fulfillments(first:) in that query; reaching it means there may be more
+const FULFILLMENTS_PER_ORDER = 10;
+// The same for the single-order lookup used when an order is not prefetched
+const FULFILLMENTS_PER_LARGE_ORDER = 50;
+
+const ACTIVE_STATUSES = ["preview_queued", "previewing", "queued", "running"];
+const PREVIEW_STATUSES = ["preview_queued", "previewing", "preview_ready"];
+// queued status -> status while a worker holds it
+const CLAIMED_STATUS: Record<string, string> = {
+  preview_queued: "previewing",
+  queued: "running",
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var csvSyncWorkerRunning: boolean | undefined;
+}
+
+/**
+ * =========================
+ * Row mapping
+ * =========================
+ */
+
+export function normalizeOrderName(raw: string): string {
+  const s = String(raw || "").trim();
+  if (!s) return "";
+  if (/^\d+$/.test(s)) return `#${s}`;
+  return s;
+}
+
+// fields (see CSV_FIELDS):
+// order_name (required), tracking_number (optional), carrier(optional), notify_customer(optional 1/0/true/false)
+// line-level (optional): sku and/or line_item_id, quantity (defaults to everything remaining)
+export function mapCsvRow(
+  obj: Record<string, string>,
+  mapping: CsvColumnMapping,
+): CsvSyncRowInput {
+  const v = applyMapping(obj, mapping);
+  const notifyRaw = String(v.notify_customer || "").toLowerCase();
+  const quantityRaw = v.quantity || "";
+
+  return {
+    orderName: normalizeOrderName(v.order_name || ""),
+    trackingNumber: v.tracking_number || null,
+    carrier: v.carrier || null,
+    notifyCustomer:
+      notifyRaw === "1" || notifyRaw === "true" || notifyRaw === "yes",
+    sku: v.sku || null,
+    lineItemId: v.line_item_id || null,
+    // An unusable quantity is stored as 0 so the row fails with "Invalid
+    // quantity" instead of silently fulfilling everything.
+    quantity: quantityRaw ? toRowQuantity(quantityRaw) : null,
+  };
+}
+
+function toRowQuantity(raw: string) {
+  const n = Number(raw);
+  return Number.isInteger(n) ? n : 0;
+}
+
+export function normalizeTrackingNumber(raw: string): string {
+  return String(raw || "")
+    .replace(/[\s-]+/g, "")
+    .toUpperCase();
+}
+
+function isLineLevelRow(row: CsvSyncRowInput) {
+  return Boolean(row.sku || row.lineItemId);
+}
+
+/**
+ * =========================
+ * Order lookup (Admin GraphQL)
+ * =========================
+ */
+
+// Order as planning reads it
+type CsvSyncOrderNode = {
+  id: string;
+  fulfillments?: Array<{
+    id: string;
+    trackingInfo?: Array<{ number?: string | null }>;
+  }>;
+  fulfillmentOrders?: {
+    pageInfo?: { hasNextPage?: boolean };
+    nodes?: Array<{
+      id: string;
+      lineItems?: {
+        pageInfo?: { hasNextPage?: boolean };
+        nodes?: Array<{
+          id: string;
+          remainingQuantity?: number;
+          lineItem?: { id?: string; title?: string; sku?: string | null };
+        }>;
+      };
+    }>;
+  };
+};
+
+// Order name -> order, as written in the file
+type CsvSyncOrders = Map<string, CsvSyncOrderNode>;
+
+/**
+ * Shopify data for many orders in few requests: names are OR-combined into
+ * one search, fulfillment data is read for several orders at once through
+ * `nodes(ids:)`. Never throws; orders it did not find or could not read
+ * completely are left out, and planCsvOrder looks those up on its own.
+ */
+async function prefetchCsvSyncOrders(
+  admin: AdminApiContext,
+  orderNames: string[],
+): Promise<CsvSyncOrders> {
+  const orders: CsvSyncOrders = new Map();
+  const names = Array.from(new Set(orderNames.filter(Boolean)));
+  // order id -> name as written in the file
+  const found = new Map<string, string>();
+
+  const searches = chunk(names, NAMES_PER_SEARCH);
+  await mapWithConcurrency(searches, ORDER_CONCURRENCY, async (batch) => {
+    try {
+      const data: {
+        orders: {
+          nodes?: Array<{ id: string; name?: string | null }>;
+        } | null;
+      } = await adminGraphql(
+        admin,
+        `#graphql
+        query CsvSyncFindOrders($q: String!, $first: Int!) {
+          orders(first: $first, query: $q) { nodes { id name } }
+        }`,
+        {
+          q: batch.map((n) => `name:${searchValue(n)}`).join(" OR "),
+          first: Math.min(250, batch.length * 2),
+        },
+      );
+      const byName = new Map(batch.map((n) => [n.toLowerCase(), n]));
+      for (const o of data.orders?.nodes || []) {
+        const name = byName.get(String(o.name || "").toLowerCase());
+        if (!name) continue;
+        found.set(String(o.id), name);
+        byName.delete(name.toLowerCase());
+      }
+    } catch (e) {
+      console.error("CSV sync order search failed:", e);
+    }
+  });
+
+  const reads = chunk(Array.from(found.keys()), ORDERS_PER_NODES_QUERY);
+  await mapWithConcurrency(reads, ORDER_CONCURRENCY, async (ids) => {
+    try {
+      const data: {
+        nodes: Array<CsvSyncOrderNode | null>;
+      } = await adminGraphql(
+        admin,
+        `#graphql
+        query CsvSyncOrdersFulfillmentData($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            ... on Order {
+              id
+              fulfillments(first: 10) {
+                id
+                trackingInfo(first: 5) { number }
+              }
+              fulfillmentOrders(first: 5) {
+                pageInfo { hasNextPage }
+                nodes {
+                  id
+                  lineItems(first: 20) {
+                    pageInfo { hasNextPage }
+                    nodes {
+                      id
+                      remainingQuantity
+                      lineItem { id title sku }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }`,
+        { ids },
+      );
+      for (const node of data.nodes) {
+        if (!node?.id || isTruncated(node, FULFILLMENTS_PER_ORDER)) continue;
+        const name = found.get(String(node.id));
+        if (name) orders.set(name, node);
+      }
+    } catch (e) {
+      console.error("CSV sync fulfillment data read failed:", e);
+    }
+  });
+
+  return orders;
+}
+
+function isTruncated(order: CsvSyncOrderNode, fulfillmentsLimit: number) {
+  return (
+    (order.fulfillments?.length ?? 0) >= fulfillmentsLimit ||
+    Boolean(order.fulfillmentOrders?.pageInfo?.hasNextPage) ||
+    (order.fulfillmentOrders?.nodes || []).some((fo) =>
+      Boolean(fo.lineItems?.pageInfo?.hasNextPage),
+    )
+  );
+}
+
+/**
+ * One order by name, with room for large orders. Only an order named exactly
+ * `orderName` counts, and an order with more fulfillment data than one query
+ * returns is refused rather than planned from a partial picture.
+ */
+async function fetchCsvSyncOrder(
+  admin: AdminApiContext,
+  orderName: string,
+): Promise<
+  { ok: true; order: CsvSyncOrderNode } | { ok: false; error: string }
+> {
+  const found: {
+    orders: { nodes?: Array<{ id: string; name?: string | null }> } | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query FindOrder($q: String!) {
+      orders(first: 5, query: $q) { nodes { id name } }
+    }`,
+    { q: `name:${searchValue(orderName)}` },
+  );
+  const wanted = orderName.toLowerCase();
+  const order = (found.orders?.nodes || []).find(
+    (o) => String(o.name || "").toLowerCase() === wanted,
+  );
+  if (!order?.id) return { ok: false, error: "Order not found" };
+  const orderId = String(order.id);
+
+  const data: { order: Omit<CsvSyncOrderNode, "id"> | null } =
+    await adminGraphql(
+      admin,
+      `#graphql
+      query CsvSyncOrderFulfillmentOrders($id: ID!) {
+        order(id: $id) {
+          fulfillments(first: 50) {
+            id
+            trackingInfo(first: 10) { number }
+          }
+          fulfillmentOrders(first: 50) {
+            pageInfo { hasNextPage }
+            nodes {
+              id
+              lineItems(first: 100) {
+                pageInfo { hasNextPage }
+                nodes {
+                  id
+                  remainingQuantity
+                  lineItem { id title sku }
+                }
+              }
+            }
+          }
+        }
+      }`,
+      { id: orderId },
+    );
+  if (!data.order) return { ok: false, error: "Order not found" };
+  const node: CsvSyncOrderNode = { ...data.order, id: orderId };
+  if (isTruncated(node, FULFILLMENTS_PER_LARGE_ORDER))
+    return {
+      ok: false,
+      error:
+        "Order has too many fulfillments or line items to sync from a file",
+    };
+  return { ok: true, order: node };
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size)
+    out.push(items.slice(i, i + size));
+  return out;
+}
+
+// `fn` over every item, at most `limit` at a time; results in input order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
+
+/**
+ * =========================
+ * Order processing
+ * =========================
+ */
+
+type OrderPick = PickedItem & {
+  rowIndex: number;
+  title: string;
+  sku: string | null;
+};
+
+type CsvSyncOrderPlan = {
+  orderId: string | null;
+  // aligned with the input rows
+  rows: CsvSyncRowPlan[];
+  groups: Array<FulfillmentGroup<OrderPick> & { notifyCustomer: boolean }>;
+};
+
+/**
+ * Resolve all rows of one order to the fulfillments they would create,
+ * without mutating anything. Used both for the dry-run preview and right
+ * before applying. Rows sharing a tracking number become one fulfillment.
+ * The order is taken from `prefetched` when it is there, else looked up.
+ */
+export async function planCsvOrder(
+  admin: AdminApiContext,
+  shop: string,
+  rows: CsvSyncRowInput[],
+  prefetched?: CsvSyncOrders,
+): Promise<CsvSyncOrderPlan> {
+  const plans: Array<CsvSyncRowPlan | null> = rows.map(() => null);
+  const open = () => rows.flatMap((_, i) => (plans[i] ? [] : [i]));
+  const failOpen = (error: string) => {
+    for (const i of open()) plans[i] = { ok: false, error };
+  };
+  const done = (orderId: string | null = null): CsvSyncOrderPlan => ({
+    orderId,
+    rows: plans.map((p) => p ?? { ok: false, error: "Not planned" }),
+    groups: [],
+  });
+
+  const orderName = rows[0]?.orderName || "";
+  if (!orderName) {
+    failOpen("Missing order_name");
+    return done();
+  }
+
+  // Rows without a tracking number can't be told apart from a new shipment,
+  // so only tracked rows are de-duplicated.
+  const tns = rows.map((r) => normalizeTrackingNumber(r.trackingNumber || ""));
+  for (const i of open()) {
+    if (!tns[i]) continue;
+    const applied = await db.csvSyncLedger.findUnique({
+      where: {
+        shop_orderName_trackingNumber: {
+          shop,
+          orderName,
+          trackingNumber: tns[i],
+        },
+      },
+    });
+    if (applied)
+      plans[i] = {
+        ok: false,
+        skipped: true,
+        error: `Already synced on ${applied.createdAt.toISOString().slice(0, 10)}`,
+      };
+  }
+  if (!open().length) return done();
+
+  // Invalid tracking numbers fail the row or only warn, per shop setting.
+  const carriers = await loadCarrierRegistry(shop);
+  const { invalidTracking } = await getShopSettings(shop);
+  const warnings: Array<string | null> = rows.map(() => null);
+  for (const i of open()) {
+    const tn = rows[i].trackingNumber;
+    if (!tn) continue;
+    const { carrier } = resolveCarrier(rows[i].carrier || "", carriers);
+    const problem = validateTrackingNumber(tn, carrier);
+    if (!problem) continue;
+    if (invalidTracking === "block") plans[i] = { ok: false, error: problem };
+    else warnings[i] = problem;
+  }
+  if (!open().length) return done();
+
+  const prefetchedOrder = prefetched?.get(orderName);
+  const lookup = prefetchedOrder
+    ? { ok: true as const, order: prefetchedOrder }
+    : await fetchCsvSyncOrder(admin, orderName);
+  if (!lookup.ok) {
+    failOpen(lookup.error);
+    return done();
+  }
+  const { order } = lookup;
+  const orderId = order.id;
+
+  const existing = order.fulfillments || [];
+  for (const i of open()) {
+    if (!tns[i]) continue;
+    const dup = existing.find((f) =>
+      (f.trackingInfo || []).some(
+        (t) => normalizeTrackingNumber(t.number || "") === tns[i],
+      ),
+    );
+    if (dup)
+      plans[i] = {
+        ok: false,
+        skipped: true,
+        error: `Tracking number already on fulfillment ${dup.id}`,
+      };
+  }
+
+  const fos = order.fulfillmentOrders?.nodes || [];
+  if (!fos.length) {
+    failOpen("No fulfillmentOrders (not shippable / no location)");
+    return done(orderId);
+  }
+
+  // What is still fulfillable; rows consume it in file order.
+  const available = fos.flatMap((fo) =>
+    (fo?.lineItems?.nodes || []).map((li) => ({
+      fulfillmentOrderId: String(fo.id),
+      foLineItemId: String(li.id),
+      lineItemId: String(li.lineItem?.id || ""),
+      title: String(li.lineItem?.title || ""),
+      sku: li.lineItem?.sku ?? null,
+      remaining: Number(li.remainingQuantity ?? 0),
+    })),
+  );
+
+  const picks: OrderPick[] = [];
+  for (const i of open()) {
+    const row = rows[i];
+    const base = {
+      rowIndex: i,
+      trackingNumber: row.trackingNumber || "",
+      carrier: row.carrier || "",
+    };
+
+    if (!isLineLevelRow(row)) {
+      const rowPicks = available
+        .filter((a) => a.remaining > 0)
+        .map((a) => ({ ...base, ...a, quantity: a.remaining }));
+      if (!rowPicks.length) {
+        plans[i] = {
+          ok: false,
+          error: "Nothing left to fulfill on this order",
+        };
+        continue;
+      }
+      for (const a of available) a.remaining = 0;
+      picks.push(...rowPicks);
+      plans[i] = { ok: true, orderId, fulfillments: toPlanned(rowPicks) };
+      continue;
+    }
+
+    const label = row.sku ? `SKU ${row.sku}` : `line item ${row.lineItemId}`;
+    const candidates = available.filter((a) => matchesLineItem(a, row));
+    if (!candidates.length) {
+      plans[i] = { ok: false, error: `No line item matches ${label}` };
+      continue;
+    }
+
+    const left = candidates.reduce((sum, a) => sum + a.remaining, 0);
+    const wanted = row.quantity ?? left;
+    if (!Number.isInteger(wanted) || wanted <= 0) {
+      plans[i] = { ok: false, error: "Invalid quantity" };
+      continue;
+    }
+    if (wanted > left) {
+      plans[i] = {
+        ok: false,
+        error: `Only ${left} of ${label} left to fulfill (asked ${wanted})`,
+      };
+      continue;
+    }
+
+    const rowPicks: OrderPick[] = [];
+    let need = wanted;
+    for (const a of candidates) {
+      if (need <= 0) break;
+      const take = Math.min(a.remaining, need);
+      if (take <= 0) continue;
+      a.remaining -= take;
+      need -= take;
+      rowPicks.push({ ...base, ...a, quantity: take });
+    }
+    picks.push(...rowPicks);
+    plans[i] = { ok: true, orderId, fulfillments: toPlanned(rowPicks) };
+  }
+
+  for (const [i, warning] of warnings.entries()) {
+    const p = plans[i];
+    if (warning && p?.ok) plans[i] = { ...p, warning };
+  }
+
+  const groups = groupByTracking(picks, carriers).map((g) => ({
+    ...g,
+    notifyCustomer: g.items.some((it) => rows[it.rowIndex].notifyCustomer),
+  }));
+
+  return { ...done(orderId), groups };
+}
+
+function matchesLineItem(
+  a: { lineItemId: string; sku: string | null },
+  row: CsvSyncRowInput,
+) {
+  if (row.lineItemId) {
+    // accept both the numeric id and the full gid://shopify/LineItem/… form
+    const id = row.lineItemId;
+    return a.lineItemId === id || a.lineItemId.endsWith(`/${id}`);
+  }
+  return (
+    Boolean(a.sku) &&
+    String(a.sku).toLowerCase() === String(row.sku).toLowerCase()
+  );
+}
+
+function toPlanned(picks: OrderPick[]): CsvSyncPlannedFulfillment[] {
+  const byFO = new Map<string, CsvSyncPlannedFulfillment>();
+  for (const p of picks) {
+    const cur = byFO.get(p.fulfillmentOrderId) || {
+      fulfillmentOrderId: p.fulfillmentOrderId,
+      lineItems: [],
+    };
+    cur.lineItems.push({
+      id: p.foLineItemId,
+      quantity: p.quantity,
+      title: p.title,
+      sku: p.sku,
+    });
+    byFO.set(p.fulfillmentOrderId, cur);
+  }
+  return Array.from(byFO.values());
+}
+
+export async function syncCsvOrder(
+  admin: AdminApiContext,
+  shop: string,
+  rows: CsvSyncRowInput[],
+  // the job the rows belong to (id null for rows pushed through the API);
+  // its uploader is recorded in the audit log under auditIntent
+  job: {
+    id: string | null;
+    uploader: StaffUser;
+    auditIntent?: string;
+  } | null = null,
+  prefetched?: CsvSyncOrders,
+): Promise<CsvSyncRowResult[]> {
+  const plan = await planCsvOrder(admin, shop, rows, prefetched);
+  const results: CsvSyncRowResult[] = plan.rows.map((p) =>
+    p.ok ? { ok: true, fulfillmentIds: [] } : { ...p, fulfillmentIds: [] },
+  );
+
+  for (const group of plan.groups) {
+    const input = {
+      notifyCustomer: group.notifyCustomer,
+      trackingInfo: group.trackingInfo,
+      lineItemsByFulfillmentOrder: group.lineItemsByFulfillmentOrder,
+    };
+    const out = await createFulfillment(admin, input);
+    await recordAuditEvent({
+      shop,
+      staff: job?.uploader || { userId: null, name: null, email: null },
+      intent: job?.auditIntent || "csv_sync_fulfill",
+      orderIds: plan.orderId ? [plan.orderId] : [],
+      orderNames: [rows[0].orderName],
+      payload: { jobId: job?.id ?? null, ...input },
+      ok: out.ok,
+      result: out,
+    });
+    if (out.ok && out.fulfillmentId)
+      await emitFulfillmentCreated(shop, {
+        source: job?.auditIntent || "csv_sync_fulfill",
+        orderId: plan.orderId,
+        orderName: rows[0].orderName,
+        fulfillmentId: out.fulfillmentId,
+        status: out.status,
+        jobId: job?.id ?? null,
+        input,
+      });
+
+    const rowIndexes = new Set(group.items.map((it) => it.rowIndex));
+    for (const i of rowIndexes) {
+      if (!out.ok)
+        results[i] = { ok: false, error: out.error, fulfillmentIds: [] };
+      else if (out.fulfillmentId)
+        results[i].fulfillmentIds.push(out.fulfillmentId);
+    }
+
+    const tn = normalizeTrackingNumber(group.trackingInfo?.number || "");
+    if (out.ok && out.fulfillmentId && tn && plan.orderId) {
+      const key = { shop, orderName: rows[0].orderName, trackingNumber: tn };
+      await db.csvSyncLedger.upsert({
+        where: { shop_orderName_trackingNumber: key },
+        create: {
+          ...key,
+          orderId: plan.orderId,
+          fulfillmentIds: JSON.stringify([out.fulfillmentId]),
+          jobId: job?.id ?? null,
+        },
+        update: {},
+      });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * =========================
+ * Jobs
+ * =========================
+ */
+
+export async function createCsvSyncJob(args: {
+  shop: string;
+  filename: string;
+  // Parsed upload (see readUploadedSheet)
+  table: CsvTable;
+  uploader: StaffUser;
+  // Dry-run first and wait for confirmCsvSyncJob() before fulfilling.
+  preview: boolean;
+  // Saved mapping profile; the mapping is auto-detected from the header row
+  // when omitted.
+  profile?: { name: string; mapping: CsvColumnMapping } | null;
+}): Promise<
+  { ok: true; job: CsvSyncJobSummary } | { ok: false; error: string }
+> {
+  const { headers, rows } = args.table;
+  if (!headers.length)
+    return {
+      ok: false,
+      error: "File seems empty or invalid (no header row found).",
+    };
+
+  let mapping: CsvColumnMapping;
+  if (args.profile) {
+    const resolved = resolveMapping(headers, args.profile.mapping);
+    if (resolved.missing.length)
+      return {
+        ok: false,
+        error: `Columns from profile "${args.profile.name}" not found in the CSV: ${resolved.missing.join(", ")}.`,
+      };
+    mapping = resolved.mapping;
+  } else {
+    mapping = autoDetectMapping(headers);
+  }
+  if (!mapping.some((m) => m.field === "order_name"))
+    return {
+      ok: false,
+      error: args.profile
+        ? `Profile "${args.profile.name}" has no order name column.`
+        : "Could not detect an order name column. Choose a mapping profile or rename the column to order_name.",
+    };
+
+  const job = await db.csvSyncJob.create({
+    data: {
+      shop: args.shop,
+      filename: args.filename,
+      headers: JSON.stringify(headers),
+      mappingProfileName: args.profile?.name ?? null,
+      mapping: JSON.stringify(mapping),
+      uploaderUserId: args.uploader.userId,
+      uploaderName: args.uploader.name,
+      uploaderEmail: args.uploader.email,
+      status: args.preview ? "preview_queued" : "queued",
+      totalRows: rows.length,
+    },
+  });
+
+  // Carriers are stored under their Shopify name so the preview shows what
+  // will actually be sent; the raw value stays in `data`.
+  const carriers = await loadCarrierRegistry(args.shop);
+  await db.csvSyncJobItem.createMany({
+    data: rows.map((r, i) => {
+      const obj = csvRowToObj(headers, r);
+      const row = mapCsvRow(obj, mapping);
+      return {
+        jobId: job.id,
+        rowNumber: i + 2,
+        data: JSON.stringify(obj),
+        ...row,
+        carrier: row.carrier
+          ? resolveCarrier(row.carrier, carriers).company
+          : null,
+      };
+    }),
+  });
+
+  kickCsvSyncWorker();
+  return { ok: true, job: toSummary(job, [], null) };
+}
+
+export async function getCsvSyncJob(
+  shop: string,
+  jobId: string,
+): Promise<CsvSyncJobSummary | null> {
+  const job = await db.csvSyncJob.findFirst({ where: { id: jobId, shop } });
+  if (!job) return null;
+
+  // Resume work if the process restarted while this job was in flight.
+  if (ACTIVE_STATUSES.includes(job.status)) kickCsvSyncWorker();
+
+  const failedItems = await db.csvSyncJobItem.findMany({
+    where: { jobId: job.id, status: "failed" },
+    orderBy: { rowNumber: "asc" },
+    take: ERRORS_SAMPLE_SIZE,
+  });
+
+  const preview =
+    job.status === "preview_ready" ? await loadPreviewRows(job.id) : null;
+
+  return toSummary(job, failedItems, preview);
+}
+
+async function loadPreviewRows(jobId: string): Promise<CsvSyncPreviewRow[]> {
+  // Rows that will fail (then skipped duplicates) come first so they are
+  // visible before confirming.
+  const failing = await db.csvSyncJobItem.findMany({
+    where: { jobId, previewError: { not: null } },
+    orderBy: [{ previewSkipped: "asc" }, { rowNumber: "asc" }],
+    take: PREVIEW_ROWS_LIMIT,
+  });
+  const passing = await db.csvSyncJobItem.findMany({
+    where: { jobId, previewError: null },
+    orderBy: { rowNumber: "asc" },
+    take: PREVIEW_ROWS_LIMIT - failing.length,
+  });
+
+  return [...failing, ...passing].map((it) => {
+    const planned: CsvSyncPlannedFulfillment[] = it.preview
+      ? JSON.parse(it.preview)
+      : [];
+    return {
+      row: it.rowNumber,
+      orderName: it.orderName,
+      trackingNumber: it.trackingNumber,
+      carrier: it.carrier,
+      notifyCustomer: it.notifyCustomer,
+      error: it.previewError,
+      skipped: it.previewSkipped,
+      warning: it.previewWarning,
+      lines: planned.flatMap((f) =>
+        f.lineItems.map((li) => ({
+          title: li.title,
+          sku: li.sku,
+          quantity: li.quantity,
+        })),
+      ),
+    };
+  });
+}
+
+/**
+ * Operator approved the dry run: queue the job for real.
+ */
+export async function confirmCsvSyncJob(shop: string, jobId: string) {
+  const { count } = await db.csvSyncJob.updateMany({
+    where: { id: jobId, shop, status: "preview_ready" },
+    data: { status: "queued" },
+  });
+  if (count) kickCsvSyncWorker();
+  return count > 0;
+}
+
+export async function discardCsvSyncJob(shop: string, jobId: string) {
+  const { count } = await db.csvSyncJob.updateMany({
+    where: { id: jobId, shop, status: { in: PREVIEW_STATUSES } },
+    data: { status: "cancelled", finishedAt: new Date() },
+  });
+  return count > 0;
+}
+
+export async function listCsvSyncJobs(
+  shop: string,
+  opts: { page: number; pageSize: number },
+): Promise<{ jobs: CsvSyncJobSummary[]; hasNext: boolean }> {
+  const rows = await db.csvSyncJob.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    skip: (opts.page - 1) * opts.pageSize,
+    take: opts.pageSize + 1,
+  });
+
+  return {
+    jobs: rows.slice(0, opts.pageSize).map((job) => toSummary(job, [], null)),
+    hasNext: rows.length > opts.pageSize,
+  };
+}
+
+/**
+ * The uploaded file with three columns appended describing what happened
+ * to each row, so operators can fix the failures and re-upload.
+ */
+export async function buildCsvSyncResultFile(
+  shop: string,
+  jobId: string,
+): Promise<{ filename: string; csv: string } | null> {
+  const job = await db.csvSyncJob.findFirst({ where: { id: jobId, shop } });
+  if (!job) return null;
+
+  const items = await db.csvSyncJobItem.findMany({
+    where: { jobId: job.id },
+    orderBy: { rowNumber: "asc" },
+  });
+
+  const headers: string[] = JSON.parse(job.headers);
+  const out: string[][] = [
+    [...headers, "sync_status", "sync_error", "fulfillment_ids"],
+  ];
+  for (const it of items) {
+    const obj: Record<string, string> = JSON.parse(it.data);
+    const ids: string[] = it.fulfillmentIds
+      ? JSON.parse(it.fulfillmentIds)
+      : [];
+    out.push([
+      ...headers.map((h, c) => obj[h || `col_${c + 1}`] ?? ""),
+      it.status,
+      it.error ?? "",
+      ids.join(" "),
+    ]);
+  }
+
+  const base = job.filename.replace(/\.(csv|tsv|tab|txt|xlsx)$/i, "");
+  return { filename: `${base}-results.csv`, csv: toCsvText(out) };
+}
+
+function toSummary(
+  job: {
+    id: string;
+    filename: string;
+    uploaderName: string | null;
+    uploaderEmail: string | null;
+    mappingProfileName: string | null;
+    mapping: string;
+    status: string;
+    totalRows: number;
+    previewedRows: number;
+    previewFailedRows: number;
+    previewSkippedRows: number;
+    plannedFulfillments: number;
+    processedRows: number;
+    succeededRows: number;
+    failedRows: number;
+    skippedRows: number;
+    createdFulfillments: number;
+    error: string | null;
+    createdAt: Date;
+    startedAt: Date | null;
+    finishedAt: Date | null;
+  },
+  failedItems: Array<{
+    rowNumber: number;
+    orderName: string;
+    error: string | null;
+  }>,
+  preview: CsvSyncPreviewRow[] | null,
+): CsvSyncJobSummary {
+  return {
+    id: job.id,
+    filename: job.filename,
+    uploaderName: job.uploaderName,
+    uploaderEmail: job.uploaderEmail,
+    mappingProfileName: job.mappingProfileName,
+    mapping: JSON.parse(job.mapping),
+    status: job.status as CsvSyncJobStatus,
+    totalRows: job.totalRows,
+    previewedRows: job.previewedRows,
+    previewFailedRows: job.previewFailedRows,
+    previewSkippedRows: job.previewSkippedRows,
+    plannedFulfillments: job.plannedFulfillments,
+    processedRows: job.processedRows,
+    succeededRows: job.succeededRows,
+    failedRows: job.failedRows,
+    skippedRows: job.skippedRows,
+    createdFulfillments: job.createdFulfillments,
+    error: job.error,
+    createdAt: job.createdAt.toISOString(),
+    startedAt: job.startedAt ? job.startedAt.toISOString() : null,
+    finishedAt: job.finishedAt ? job.finishedAt.toISOString() : null,
+    errorsSample: failedItems.map((it) => ({
+      row: it.rowNumber,
+      order_name: it.orderName || undefined,
+      error: it.error || "Failed",
+    })),
+    preview,
+  };
+}
+
+/**
+ * =========================
+ * Worker
+ * =========================
+ */
+
+/**
+ * Starts the in-process worker if it is not already draining the queue.
+ * Safe to call from any request; jobs are claimed atomically in the DB.
+ */
+export function kickCsvSyncWorker() {
+  if (global.csvSyncWorkerRunning) return;
+  global.csvSyncWorkerRunning = true;
+
+  drainQueue()
+    .catch((e) => console.error("CSV sync worker crashed:", e))
+    .finally(() => {
+      global.csvSyncWorkerRunning = false;
+    });
+}
+
+async function drainQueue() {
+  for (const [queued, claimed] of Object.entries(CLAIMED_STATUS)) {
+    await db.csvSyncJob.updateMany({
+      where: {
+        status: claimed,
+        updatedAt: { lt: new Date(Date.now() - STALE_JOB_MS) },
+      },
+      data: { status: queued },
+    });
+  }
+
+  for (;;) {
+    const job = await claimNextJob();
+    if (!job) return;
+    const stopHeartbeat = startHeartbeat(job.id);
+    try {
+      if (job.status === "preview_queued") await runPreview(job.id, job.shop);
+      else await runJob(job.id, job.shop);
+    } finally {
+      stopHeartbeat();
+    }
+  }
+}
+
+/** Keeps a claimed job's updatedAt fresh so drainQueue never sees it as stale. */
+function startHeartbeat(jobId: string) {
+  const timer = setInterval(() => {
+    db.csvSyncJob
+      .updateMany({
+        where: { id: jobId, status: { in: Object.values(CLAIMED_STATUS) } },
+        data: { updatedAt: new Date() },
+      })
+      .catch((e) => console.error(`CSV sync heartbeat for ${jobId}:`, e));
+  }, HEARTBEAT_MS);
+  return () => clearInterval(timer);
+}
+
+async function claimNextJob() {
+  for (;;) {
+    const next = await db.csvSyncJob.findFirst({
+      where: { status: { in: Object.keys(CLAIMED_STATUS) } },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!next) return null;
+
+    const { count } = await db.csvSyncJob.updateMany({
+      where: { id: next.id, status: next.status },
+      data: {
+        status: CLAIMED_STATUS[next.status],
+        startedAt: next.startedAt ?? new Date(),
+      },
+    });
+    if (count) return next;
+  }
+}
+
+async function adminForJob(
+  jobId: string,
+  shop: string,
+): Promise<AdminApiContext | null> {
+  try {
+    const { admin } = await unauthenticated.admin(shop);
+    return admin;
+  } catch (e) {
+    const job = await db.csvSyncJob.update({
+      where: { id: jobId },
+      data: {
+        status: "failed",
+        error: `No offline session for ${shop}: ${errorMessage(e)}`,
+        finishedAt: new Date(),
+      },
+    });
+    await emitWebhookEvent(shop, "csv_sync.failed", jobEventData(job));
+    return null;
+  }
+}
+
+/** The data of a csv_sync.completed / csv_sync.failed webhook event. */
+function jobEventData(job: {
+  id: string;
+  filename: string;
+  status: string;
+  error: string | null;
+  totalRows: number;
+  succeededRows: number;
+  failedRows: number;
+  skippedRows: number;
+  createdFulfillments: number;
+  uploaderName: string | null;
+  uploaderEmail: string | null;
+  finishedAt: Date | null;
+}) {
+  return {
+    job_id: job.id,
+    filename: job.filename,
+    status: job.status,
+    error: job.error,
+    total_rows: job.totalRows,
+    succeeded_rows: job.succeededRows,
+    failed_rows: job.failedRows,
+    skipped_rows: job.skippedRows,
+    created_fulfillments: job.createdFulfillments,
+    uploaded_by: job.uploaderName || job.uploaderEmail,
+    finished_at: job.finishedAt?.toISOString() ?? null,
+  };
+}
+
+/**
+ * The rows of the next `orders` orders in the file that `where` still
+ * selects, one array per order, so rows of one order are planned and
+ * grouped together. Rows without an order name stand alone.
+ */
+async function nextOrderGroups(
+  jobId: string,
+  where: Prisma.CsvSyncJobItemWhereInput,
+  orders: number,
+) {
+  const names = await db.csvSyncJobItem.groupBy({
+    by: ["orderName"],
+    where: { jobId, ...where },
+    _min: { rowNumber: true },
+    orderBy: { _min: { rowNumber: "asc" } },
+    take: orders,
+  });
+  if (!names.length) return [];
+
+  const items = await db.csvSyncJobItem.findMany({
+    where: {
+      jobId,
+      ...where,
+      orderName: { in: names.map((n) => n.orderName) },
+    },
+    orderBy: { rowNumber: "asc" },
+  });
+  const groups = new Map<string, typeof items>();
+  const loose: Array<typeof items> = [];
+  for (const item of items) {
+    if (!item.orderName) loose.push([item]);
+    else
+      groups.set(item.orderName, [...(groups.get(item.orderName) || []), item]);
+  }
+  return [...groups.values(), ...loose];
+}
+
+/**
+ * A whole-order row repeating the tracking number of an earlier row for the
+ * same order would ship twice; line-level rows sharing a tracking number are
+ * one parcel and get grouped instead.
+ */
+function findDuplicateRows(
+  items: Array<CsvSyncRowInput & { rowNumber: number }>,
+): Map<number, CsvSyncRowPlan> {
+  const dups = new Map<number, CsvSyncRowPlan>();
+  const firstRowByTn = new Map<string, number>();
+  for (const it of items) {
+    const tn = normalizeTrackingNumber(it.trackingNumber || "");
+    if (!tn) continue;
+    const earlier = firstRowByTn.get(tn);
+    if (earlier === undefined) firstRowByTn.set(tn, it.rowNumber);
+    else if (!isLineLevelRow(it))
+      dups.set(it.rowNumber, {
+        ok: false,
+        skipped: true,
+        error: `Duplicate of row ${earlier}`,
+      });
+  }
+  return dups;
+}
+
+async function runPreview(jobId: string, shop: string) {
+  const admin = await adminForJob(jobId, shop);
+  if (!admin) return;
+
+  for (;;) {
+    // Stop early if the operator discarded the preview meanwhile.
+    const current = await db.csvSyncJob.findUnique({
+      where: { id: jobId },
+      select: { status: true },
+    });
+    if (current?.status !== "previewing") return;
+
+    const orders = await nextOrderGroups(
+      jobId,
+      { previewedAt: null },
+      ORDERS_PER_ROUND,
+    );
+    if (!orders.length) break;
+
+    const prefetched = await prefetchCsvSyncOrders(
+      admin,
+      orders.map((items) => items[0].orderName),
+    );
+    await mapWithConcurrency(orders, ORDER_CONCURRENCY, (items) =>
+      previewOrder(admin, shop, jobId, items, prefetched),
+    );
+  }
+
+  await db.csvSyncJob.updateMany({
+    where: { id: jobId, status: "previewing" },
+    data: { status: "preview_ready" },
+  });
+}
+
+async function previewOrder(
+  admin: AdminApiContext,
+  shop: string,
+  jobId: string,
+  items: Array<CsvSyncRowInput & { id: string; rowNumber: number }>,
+  prefetched: CsvSyncOrders,
+) {
+  const dups = findDuplicateRows(items);
+  const toPlan = items.filter((it) => !dups.has(it.rowNumber));
+
+  let plans: CsvSyncRowPlan[];
+  let plannedFulfillments = 0;
+  try {
+    const plan = await planCsvOrder(admin, shop, toPlan, prefetched);
+    plans = plan.rows;
+    plannedFulfillments = plan.groups.length;
+  } catch (e) {
+    plans = toPlan.map(() => ({ ok: false, error: errorMessage(e) }));
+  }
+
+  const byRow = new Map(dups);
+  toPlan.forEach((it, i) => byRow.set(it.rowNumber, plans[i]));
+
+  let failed = 0;
+  let skipped = 0;
+  const updates = items.map((item) => {
+    const plan = byRow.get(item.rowNumber)!;
+    const isSkipped = !plan.ok && Boolean(plan.skipped);
+    if (isSkipped) skipped++;
+    else if (!plan.ok) failed++;
+    return db.csvSyncJobItem.update({
+      where: { id: item.id },
+      data: {
+        preview: plan.ok ? JSON.stringify(plan.fulfillments) : null,
+        previewError: plan.ok ? null : plan.error,
+        previewSkipped: isSkipped,
+        previewWarning: plan.ok ? plan.warning || null : null,
+        previewedAt: new Date(),
+      },
+    });
+  });
+
+  await db.$transaction([
+    ...updates,
+    db.csvSyncJob.update({
+      where: { id: jobId },
+      data: {
+        previewedRows: { increment: items.length },
+        previewFailedRows: { increment: failed },
+        previewSkippedRows: { increment: skipped },
+        plannedFulfillments: { increment: plannedFulfillments },
+      },
+    }),
+  ]);
+}
+
+async function runJob(jobId: string, shop: string) {
+  const admin = await adminForJob(jobId, shop);
+  if (!admin) return;
+
+  const row = await db.csvSyncJob.findUnique({
+    where: { id: jobId },
+    select: { uploaderUserId: true, uploaderName: true, uploaderEmail: true },
+  });
+  const job = {
+    id: jobId,
+    uploader: {
+      userId: row?.uploaderUserId ?? null,
+      name: row?.uploaderName ?? null,
+      email: row?.uploaderEmail ?? null,
+    },
+  };
+
+  for (;;) {
+    const orders = await nextOrderGroups(
+      jobId,
+      { status: "pending" },
+      ORDERS_PER_ROUND,
+    );
+    if (!orders.length) break;
+
+    const prefetched = await prefetchCsvSyncOrders(
+      admin,
+      orders.map((items) => items[0].orderName),
+    );
+    await mapWithConcurrency(orders, ORDER_CONCURRENCY, (items) =>
+      runOrder(admin, shop, job, items, prefetched),
+    );
+  }
+
+  const done = await db.csvSyncJob.update({
+    where: { id: jobId },
+    data: { status: "completed", finishedAt: new Date() },
+  });
+  await emitWebhookEvent(shop, "csv_sync.completed", jobEventData(done));
+}
+
+async function runOrder(
+  admin: AdminApiContext,
+  shop: string,
+  job: { id: string; uploader: StaffUser },
+  items: Array<CsvSyncRowInput & { id: string; rowNumber: number }>,
+  prefetched: CsvSyncOrders,
+) {
+  const dups = findDuplicateRows(items);
+  const toSync = items.filter((it) => !dups.has(it.rowNumber));
+
+  let results: CsvSyncRowResult[];
+  try {
+    results = await syncCsvOrder(admin, shop, toSync, job, prefetched);
+  } catch (e) {
+    results = toSync.map(() => ({
+      ok: false,
+      error: errorMessage(e),
+      fulfillmentIds: [],
+    }));
+  }
+
+  const byRow = new Map<number, CsvSyncRowResult>();
+  for (const [rowNumber, plan] of dups)
+    if (!plan.ok) byRow.set(rowNumber, { ...plan, fulfillmentIds: [] });
+  toSync.forEach((it, i) => byRow.set(it.rowNumber, results[i]));
+
+  const counts = { succeeded: 0, failed: 0, skipped: 0 };
+  const created = new Set<string>();
+  const updates = items.map((item) => {
+    const result = byRow.get(item.rowNumber)!;
+    const status = result.ok
+      ? "succeeded"
+      : result.skipped
+        ? "skipped"
+        : "failed";
+    counts[status]++;
+    for (const id of result.fulfillmentIds) created.add(id);
+    return db.csvSyncJobItem.update({
+      where: { id: item.id },
+      data: {
+        status,
+        error: result.ok ? null : result.error,
+        fulfillmentIds: JSON.stringify(result.fulfillmentIds),
+        processedAt: new Date(),
+      },
+    });
+  });
+
+  await db.$transaction([
+    ...updates,
+    db.csvSyncJob.update({
+      where: { id: job.id },
+      data: {
+        processedRows: { increment: items.length },
+        succeededRows: { increment: counts.succeeded },
+        failedRows: { increment: counts.failed },
+        skippedRows: { increment: counts.skipped },
+        createdFulfillments: { increment: created.size },
+      },
+    }),
+  ]);
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
@@ -0,0 +1,129 @@
+// app/lib/csv.ts
+
+/**
+ * CSV helpers shared by the fulfillment importers.
+ */
+
+export type CsvTable = {
+  headers: string[];
+  rows: string[][];
+};
+
+const CANDIDATE_DELIMITERS = [",", ";", "\t", "|"];
+
+/**
+ * Parses delimited text into a header row and data rows. A leading BOM is
+ * dropped and the delimiter is sniffed from the header line unless given.
+ */
+export function parseCsvText(
+  csvText: string,
+  opts: { delimiter?: string } = {},
+): CsvTable {
+  const text = csvText.replace(/^\uFEFF/, "");
+  const delimiter = opts.delimiter || sniffDelimiter(text);
+
+  const rows = parseDelimited(text, delimiter).filter((r) =>
+    r.some((v) => v.trim().length > 0),
+  );
+  if (rows.length === 0) return { headers: [], rows: [] };
+  const headers = rows[0].map((h) => h.trim());
+  return { headers, rows: rows.slice(1) };
+}
+
+/**
+ * RFC 4180: fields may be quoted, quotes inside are doubled, and quoted
+ * fields may contain delimiters and line breaks. CRLF, LF and CR all end a
+ * record.
+ */
+export function parseDelimited(text: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cur = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (text[i + 1] === '"') {
+          cur += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cur += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && cur.trim() === "") {
+      cur = "";
+      inQuotes = true;
+      continue;
+    }
+    if (ch === delimiter) {
+      row.push(cur);
+      cur = "";
+      continue;
+    }
+    if (ch === "\r" || ch === "\n") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(cur);
+      rows.push(row);
+      row = [];
+      cur = "";
+      continue;
+    }
+    cur += ch;
+  }
+
+  if (cur.length || row.length) {
+    row.push(cur);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Picks the candidate that occurs most often (outside quotes) in the first
+ * record; comma wins ties and single-column files.
+ */
+export function sniffDelimiter(text: string): string {
+  const counts = new Map<string, number>();
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === "\n" || ch === "\r")) break;
+    else if (!inQuotes && CANDIDATE_DELIMITERS.includes(ch))
+      counts.set(ch, (counts.get(ch) || 0) + 1);
+  }
+
+  let best = ",";
+  for (const d of CANDIDATE_DELIMITERS)
+    if ((counts.get(d) || 0) > (counts.get(best) || 0)) best = d;
+  return best;
+}
+
+export function csvRowToObj(
+  headers: string[],
+  row: string[],
+): Record<string, string> {
+  const obj: Record<string, string> = {};
+  for (let c = 0; c < headers.length; c++)
+    obj[headers[c] || `col_${c + 1}`] = String(row[c] ?? "");
+  return obj;
+}
+
+function escapeCsvValue(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim())
+    return `"${value.replace(/"/g, '""')}"`;
+  return value;
+}
+
+export function toCsvText(rows: string[][]): string {
+  return rows.map((r) => r.map(escapeCsvValue).join(",")).join("\r\n") + "\r\n";
+}
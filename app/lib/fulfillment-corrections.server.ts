@@ -0,0 +1,443 @@
+// app/lib/fulfillment-corrections.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { adminGraphql } from "./admin-graphql.server";
+import type { CsvTable } from "./csv";
+import { normalizeHeader } from "./csv-mapping";
+import { buildTrackingUrl, resolveCarrier, type CarrierDef } from "./carriers";
+import {
+  cancelFulfillment,
+  updateFulfillmentTracking,
+  type MutationStatusResult,
+} from "./fulfillments.server";
+import { normalizeOrderName, normalizeTrackingNumber } from "./csv-sync.server";
+import {
+  validateTrackingNumber,
+  type InvalidTrackingMode,
+} from "./tracking-validation";
+
+/**
+ * Fixing fulfillments that already exist: replace a wrong tracking number or
+ * cancel a mistaken fulfillment, one at a time from the order view or in
+ * bulk from a corrections file. The CSV sync ledger follows along so a
+ * corrected number is not re-shipped and a cancelled one can be synced again.
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type ExistingFulfillment = {
+  id: string;
+  name: string;
+  status: string;
+  createdAt: string | null;
+  trackingInfo: Array<{
+    number: string;
+    company: string | null;
+    url: string | null;
+  }>;
+};
+
+export type TrackingCorrectionRow = {
+  line: number; // 1-based data row, for error messages
+  orderName: string;
+  action: "update" | "cancel";
+  // identifies the fulfillment when the order has more than one
+  currentTrackingNumber: string;
+  trackingNumber: string;
+  carrier: string;
+  notifyCustomer: boolean;
+};
+
+export type TrackingCorrectionResult = {
+  line: number;
+  orderName: string;
+  ok: boolean;
+  message: string;
+};
+
+const CORRECTION_FIELDS = {
+  order_name: ["order_name", "order", "name", "order_number"],
+  current_tracking_number: [
+    "current_tracking_number",
+    "old_tracking_number",
+    "old_tracking",
+    "current_tracking",
+    "previous_tracking_number",
+  ],
+  tracking_number: [
+    "new_tracking_number",
+    "new_tracking",
+    "corrected_tracking_number",
+    "tracking_number",
+    "tracking",
+  ],
+  carrier: ["carrier", "new_carrier", "company", "shipping_company"],
+  notify_customer: ["notify_customer", "notify"],
+  action: ["action"],
+} as const;
+
+type CorrectionField = keyof typeof CORRECTION_FIELDS;
+
+// Corrections run inside the request; keep files to one screen of results
+export const TRACKING_CORRECTIONS_LIMIT = 250;
+
+/**
+ * =========================
+ * Single fulfillment
+ * =========================
+ */
+
+export async function applyTrackingUpdate(
+  admin: AdminApiContext,
+  shop: string,
+  args: {
+    fulfillment: ExistingFulfillment;
+    orderId: string;
+    trackingNumber: string;
+    carrier: string;
+    notifyCustomer: boolean;
+    carriers: CarrierDef[];
+  },
+): Promise<MutationStatusResult> {
+  const { company, carrier } = resolveCarrier(args.carrier, args.carriers);
+  const number = args.trackingNumber.trim();
+  const out = await updateFulfillmentTracking(admin, args.fulfillment.id, {
+    trackingInfo: {
+      number,
+      company: company || undefined,
+      url: buildTrackingUrl(number, carrier),
+    },
+    notifyCustomer: args.notifyCustomer,
+  });
+  if (!out.ok) return out;
+
+  // The ledger is keyed by tracking number: move the entry to the new one
+  const previous = args.fulfillment.trackingInfo.map((t) =>
+    normalizeTrackingNumber(t.number),
+  );
+  const entries = await db.csvSyncLedger.findMany({
+    where: { shop, orderId: args.orderId, trackingNumber: { in: previous } },
+  });
+  const next = normalizeTrackingNumber(number);
+  if (entries.length) {
+    await db.csvSyncLedger.deleteMany({
+      where: { id: { in: entries.map((e) => e.id) } },
+    });
+    const key = { shop, orderName: entries[0].orderName, trackingNumber: next };
+    await db.csvSyncLedger.upsert({
+      where: { shop_orderName_trackingNumber: key },
+      create: {
+        ...key,
+        orderId: args.orderId,
+        fulfillmentIds: JSON.stringify([args.fulfillment.id]),
+        jobId: entries[0].jobId,
+      },
+      update: {},
+    });
+  }
+
+  return out;
+}
+
+export async function applyCancellation(
+  admin: AdminApiContext,
+  shop: string,
+  args: { fulfillment: ExistingFulfillment; orderId: string },
+): Promise<MutationStatusResult> {
+  const out = await cancelFulfillment(admin, args.fulfillment.id);
+  if (!out.ok) return out;
+
+  // Cancelled -> the same carrier row may be synced again
+  const previous = args.fulfillment.trackingInfo.map((t) =>
+    normalizeTrackingNumber(t.number),
+  );
+  if (previous.length)
+    await db.csvSyncLedger.deleteMany({
+      where: { shop, orderId: args.orderId, trackingNumber: { in: previous } },
+    });
+
+  return out;
+}
+
+/**
+ * =========================
+ * Corrections file
+ * =========================
+ */
+
+/**
+ * Columns: order_name, new tracking_number, carrier, notify_customer, and
+ * optionally current_tracking_number (which fulfillment to change) and
+ * action (update / cancel).
+ */
+export function parseTrackingCorrections(
+  table: CsvTable,
+): { ok: true; rows: TrackingCorrectionRow[] } | { ok: false; error: string } {
+  const headerFor = new Map<CorrectionField, string>();
+  for (const [field, aliases] of Object.entries(CORRECTION_FIELDS) as Array<
+    [CorrectionField, readonly string[]]
+  >) {
+    const header = table.headers.find((h) =>
+      aliases.some((a) => normalizeHeader(a) === normalizeHeader(h)),
+    );
+    if (header && ![...headerFor.values()].includes(header))
+      headerFor.set(field, header);
+  }
+
+  if (!headerFor.has("order_name"))
+    return { ok: false, error: "The file needs an order_name column." };
+  if (!table.rows.length) return { ok: false, error: "The file has no rows." };
+  if (table.rows.length > TRACKING_CORRECTIONS_LIMIT)
+    return {
+      ok: false,
+      error: `Up to ${TRACKING_CORRECTIONS_LIMIT} corrections per file.`,
+    };
+
+  const rows = table.rows.map((cells, i) => {
+    const get = (f: CorrectionField) => {
+      const header = headerFor.get(f);
+      const idx = header ? table.headers.indexOf(header) : -1;
+      return idx >= 0 ? String(cells[idx] ?? "").trim() : "";
+    };
+    const notify = get("notify_customer").toLowerCase();
+    return {
+      line: i + 1,
+      orderName: normalizeOrderName(get("order_name")),
+      action: /^cancel/i.test(get("action")) ? "cancel" : "update",
+      currentTrackingNumber: get("current_tracking_number"),
+      trackingNumber: get("tracking_number"),
+      carrier: get("carrier"),
+      notifyCustomer: notify === "1" || notify === "true" || notify === "yes",
+    } satisfies TrackingCorrectionRow;
+  });
+
+  return { ok: true, rows };
+}
+
+export async function runTrackingCorrections(
+  admin: AdminApiContext,
+  shop: string,
+  rows: TrackingCorrectionRow[],
+  opts: { carriers: CarrierDef[]; invalidTracking: InvalidTrackingMode },
+): Promise<TrackingCorrectionResult[]> {
+  const results: TrackingCorrectionResult[] = [];
+
+  for (const row of rows) {
+    const fail = (message: string) =>
+      results.push({
+        line: row.line,
+        orderName: row.orderName,
+        ok: false,
+        message,
+      });
+
+    if (!row.orderName) {
+      fail("Missing order_name");
+      continue;
+    }
+    if (row.action === "update" && !row.trackingNumber) {
+      fail("Missing new tracking number");
+      continue;
+    }
+
+    try {
+      const order = await findOrderFulfillments(admin, row.orderName);
+      if (!order) {
+        fail("Order not found");
+        continue;
+      }
+
+      const picked = pickFulfillment(
+        order.fulfillments,
+        row.currentTrackingNumber,
+      );
+      if (!picked.ok) {
+        fail(picked.error);
+        continue;
+      }
+
+      if (row.action === "cancel") {
+        const out = await applyCancellation(admin, shop, {
+          fulfillment: picked.fulfillment,
+          orderId: order.id,
+        });
+        if (!out.ok) fail(out.error);
+        else
+          results.push({
+            line: row.line,
+            orderName: row.orderName,
+            ok: true,
+            message: `Cancelled ${picked.fulfillment.name}`,
+          });
+        continue;
+      }
+
+      const problem = validateTrackingNumber(
+        row.trackingNumber,
+        resolveCarrier(row.carrier, opts.carriers).carrier,
+      );
+      if (problem && opts.invalidTracking === "block") {
+        fail(problem);
+        continue;
+      }
+
+      const out = await applyTrackingUpdate(admin, shop, {
+        fulfillment: picked.fulfillment,
+        orderId: order.id,
+        trackingNumber: row.trackingNumber,
+        carrier: row.carrier,
+        notifyCustomer: row.notifyCustomer,
+        carriers: opts.carriers,
+      });
+      if (!out.ok) fail(out.error);
+      else
+        results.push({
+          line: row.line,
+          orderName: row.orderName,
+          ok: true,
+          message: problem
+            ? `Updated ${picked.fulfillment.name} (check: ${problem})`
+            : `Updated ${picked.fulfillment.name}`,
+        });
+    } catch (e: unknown) {
+      fail(e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  return results;
+}
+
+/**
+ * The fulfillment a row refers to: the one carrying its current tracking
+ * number, or the order's only active fulfillment.
+ */
+function pickFulfillment(
+  fulfillments: ExistingFulfillment[],
+  currentTrackingNumber: string,
+):
+  | { ok: true; fulfillment: ExistingFulfillment }
+  | { ok: false; error: string } {
+  const active = fulfillments.filter((f) => f.status === "SUCCESS");
+
+  if (currentTrackingNumber) {
+    const tn = normalizeTrackingNumber(currentTrackingNumber);
+    const hit = active.find((f) =>
+      f.trackingInfo.some((t) => normalizeTrackingNumber(t.number) === tn),
+    );
+    return hit
+      ? { ok: true, fulfillment: hit }
+      : {
+          ok: false,
+          error: `No active fulfillment with tracking ${currentTrackingNumber}`,
+        };
+  }
+
+  if (active.length === 1) return { ok: true, fulfillment: active[0] };
+  return {
+    ok: false,
+    error: active.length
+      ? `Order has ${active.length} fulfillments; add the current tracking number`
+      : "Order has no active fulfillments",
+  };
+}
+
+/**
+ * =========================
+ * Queries
+ * =========================
+ */
+
+// Fulfillment fields as selected by the queries below
+export type FulfillmentNode = {
+  id: string;
+  name?: string | null;
+  status?: string | null;
+  createdAt?: string | null;
+  trackingInfo?: Array<{
+    number?: string | null;
+    company?: string | null;
+    url?: string | null;
+  }> | null;
+};
+
+export function toExistingFulfillment(f: FulfillmentNode): ExistingFulfillment {
+  return {
+    id: String(f.id),
+    name: String(f.name || f.id),
+    status: String(f.status || "").toUpperCase(),
+    createdAt: f.createdAt ?? null,
+    trackingInfo: (f.trackingInfo || [])
+      .filter((t) => t.number)
+      .map((t) => ({
+        number: String(t.number),
+        company: t.company ?? null,
+        url: t.url ?? null,
+      })),
+  };
+}
+
+export async function findOrderFulfillments(
+  admin: AdminApiContext,
+  orderName: string,
+): Promise<{ id: string; fulfillments: ExistingFulfillment[] } | null> {
+  const data: {
+    orders: {
+      nodes?: Array<{ id: string; fulfillments?: FulfillmentNode[] }>;
+    } | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query CorrectionOrder($q: String!) {
+      orders(first: 1, query: $q) {
+        nodes {
+          id
+          fulfillments(first: 50) {
+            id
+            name
+            status
+            createdAt
+            trackingInfo(first: 10) { number company url }
+          }
+        }
+      }
+    }`,
+    { q: `name:${orderName}` },
+  );
+  const order = data.orders?.nodes?.[0];
+  if (!order?.id) return null;
+
+  return {
+    id: String(order.id),
+    fulfillments: (order.fulfillments || []).map(toExistingFulfillment),
+  };
+}
+
+export async function getFulfillment(
+  admin: AdminApiContext,
+  fulfillmentId: string,
+): Promise<{ orderId: string; fulfillment: ExistingFulfillment } | null> {
+  const data: {
+    fulfillment: (FulfillmentNode & { order?: { id: string } | null }) | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query CorrectionFulfillment($id: ID!) {
+      fulfillment(id: $id) {
+        id
+        name
+        status
+        createdAt
+        trackingInfo(first: 10) { number company url }
+        order { id }
+      }
+    }`,
+    { id: fulfillmentId },
+  );
+  const f = data.fulfillment;
+  if (!f?.id || !f.order?.id) return null;
+  return { orderId: String(f.order.id), fulfillment: toExistingFulfillment(f) };
+}
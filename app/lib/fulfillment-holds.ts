@@ -0,0 +1,32 @@
+// app/lib/fulfillment-holds.ts
+
+/**
+ * Hold reasons accepted by fulfillmentOrderHold, with the labels operators
+ * see in the Fulfillment Center.
+ */
+export const FULFILLMENT_HOLD_REASONS = [
+  { value: "INVENTORY_OUT_OF_STOCK", label: "Awaiting stock" },
+  { value: "INCORRECT_ADDRESS", label: "Address needs confirming" },
+  { value: "AWAITING_PAYMENT", label: "Awaiting payment" },
+  { value: "HIGH_RISK_OF_FRAUD", label: "High risk of fraud" },
+  { value: "UNKNOWN_DELIVERY_DATE", label: "Unknown delivery date" },
+  { value: "AWAITING_RETURN_ITEMS", label: "Awaiting return items" },
+  { value: "OTHER", label: "Other" },
+] as const;
+
+export type FulfillmentHoldReason =
+  (typeof FULFILLMENT_HOLD_REASONS)[number]["value"];
+
+export type FulfillmentHoldInput = {
+  reason: FulfillmentHoldReason;
+  reasonNotes?: string;
+};
+
+export function isFulfillmentHoldReason(v: string): v is FulfillmentHoldReason {
+  return FULFILLMENT_HOLD_REASONS.some((r) => r.value === v);
+}
+
+export function holdReasonLabel(reason: string | null | undefined): string {
+  const hit = FULFILLMENT_HOLD_REASONS.find((r) => r.value === reason);
+  return hit ? hit.label : String(reason || "On hold");
+}
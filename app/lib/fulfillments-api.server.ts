@@ -0,0 +1,237 @@
+// app/lib/fulfillments-api.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { resolveCarrier } from "./carriers";
+import { loadCarrierRegistry } from "./carriers.server";
+import {
+  normalizeOrderName,
+  syncCsvOrder,
+  type CsvSyncRowInput,
+  type CsvSyncRowResult,
+} from "./csv-sync.server";
+import type { StaffUser } from "./staff.server";
+
+/**
+ * POST /api/v1/fulfillments: tracking pushed by an external system (WMS).
+ * Each order of the payload is turned into the same rows a CSV sync reads,
+ * one per line item (or one for the whole order), and goes through
+ * syncCsvOrder, so carriers, tracking validation, de-duplication and the
+ * audit log behave exactly like a CSV upload.
+ *
+ * {
+ *   "orders": [{
+ *     "order_name": "#1001",
+ *     "notify_customer": true,
+ *     "tracking_number": "1Z999AA10123456784",
+ *     "carrier": "UPS",
+ *     "line_items": [                          // optional: everything remaining
+ *       { "sku": "TSHIRT-M", "quantity": 1 },
+ *       { "line_item_id": "123456", "tracking_number": "…", "carrier": "…" }
+ *     ]
+ *   }]
+ * }
+ */
+
+export type ApiFulfillmentOrder = {
+  orderName: string;
+  rows: CsvSyncRowInput[];
+};
+
+export type ApiItemResult =
+  | { ok: true; fulfillment_ids: string[] }
+  | { ok: false; error: string; skipped: boolean; fulfillment_ids: string[] };
+
+export type ApiOrderResult = {
+  order_name: string;
+  // one per line item of the request, or one for a whole-order entry
+  items: ApiItemResult[];
+};
+
+export const MAX_ORDERS_PER_REQUEST = 50;
+const MAX_ITEMS_PER_ORDER = 100;
+
+/**
+ * =========================
+ * Payload
+ * =========================
+ */
+
+type PayloadResult =
+  | { ok: true; orders: ApiFulfillmentOrder[] }
+  | { ok: false; error: string };
+
+export function parseFulfillmentsPayload(body: unknown): PayloadResult {
+  if (!isObject(body) || !Array.isArray(body.orders))
+    return { ok: false, error: "Body must be an object with an orders array." };
+  if (!body.orders.length) return { ok: false, error: "orders is empty." };
+  if (body.orders.length > MAX_ORDERS_PER_REQUEST)
+    return {
+      ok: false,
+      error: `At most ${MAX_ORDERS_PER_REQUEST} orders per request.`,
+    };
+
+  const orders: ApiFulfillmentOrder[] = [];
+  const seen = new Set<string>();
+  for (const [i, raw] of body.orders.entries()) {
+    const at = `orders[${i}]`;
+    if (!isObject(raw)) return { ok: false, error: `${at} must be an object.` };
+
+    const orderName = normalizeOrderName(idString(raw.order_name) || "");
+    if (!orderName)
+      return { ok: false, error: `${at}.order_name is required.` };
+    // Rows of one order are planned together; a second entry would race it
+    if (seen.has(orderName))
+      return {
+        ok: false,
+        error: `${at}: ${orderName} appears more than once; put all its line items in one entry.`,
+      };
+    seen.add(orderName);
+
+    const order = readTracking(raw, at);
+    if (!order.ok) return order;
+    if (
+      raw.notify_customer !== undefined &&
+      typeof raw.notify_customer !== "boolean"
+    )
+      return { ok: false, error: `${at}.notify_customer must be a boolean.` };
+    const notifyCustomer = raw.notify_customer === true;
+
+    const base: CsvSyncRowInput = {
+      orderName,
+      trackingNumber: order.trackingNumber,
+      carrier: order.carrier,
+      notifyCustomer,
+      sku: null,
+      lineItemId: null,
+      quantity: null,
+    };
+
+    if (raw.line_items === undefined) {
+      orders.push({ orderName, rows: [base] });
+      continue;
+    }
+    if (!Array.isArray(raw.line_items) || !raw.line_items.length)
+      return {
+        ok: false,
+        error: `${at}.line_items must be a non-empty array.`,
+      };
+    if (raw.line_items.length > MAX_ITEMS_PER_ORDER)
+      return {
+        ok: false,
+        error: `${at}.line_items: at most ${MAX_ITEMS_PER_ORDER} per order.`,
+      };
+
+    const rows: CsvSyncRowInput[] = [];
+    for (const [j, li] of raw.line_items.entries()) {
+      const liAt = `${at}.line_items[${j}]`;
+      if (!isObject(li))
+        return { ok: false, error: `${liAt} must be an object.` };
+
+      const sku = typeof li.sku === "string" ? li.sku.trim() || null : null;
+      const lineItemId = idString(li.line_item_id);
+      if (!sku && !lineItemId)
+        return { ok: false, error: `${liAt} needs a sku or line_item_id.` };
+
+      const q = li.quantity;
+      if (q !== undefined && (!Number.isInteger(q) || Number(q) < 1))
+        return {
+          ok: false,
+          error: `${liAt}.quantity must be a positive integer.`,
+        };
+
+      // Line items inherit the order's tracking unless they bring their own
+      const own = readTracking(li, liAt);
+      if (!own.ok) return own;
+
+      rows.push({
+        ...base,
+        trackingNumber: own.trackingNumber ?? base.trackingNumber,
+        carrier: own.carrier ?? base.carrier,
+        sku,
+        lineItemId,
+        quantity: q === undefined ? null : Number(q),
+      });
+    }
+    orders.push({ orderName, rows });
+  }
+
+  return { ok: true, orders };
+}
+
+function readTracking(
+  o: Record<string, unknown>,
+  at: string,
+):
+  | { ok: true; trackingNumber: string | null; carrier: string | null }
+  | { ok: false; error: string } {
+  for (const k of ["tracking_number", "carrier"])
+    if (o[k] !== undefined && o[k] !== null && typeof o[k] !== "string")
+      return { ok: false, error: `${at}.${k} must be a string.` };
+  return {
+    ok: true,
+    trackingNumber: String(o.tracking_number ?? "").trim() || null,
+    carrier: String(o.carrier ?? "").trim() || null,
+  };
+}
+
+/** Ids may come as JSON numbers; ones too large to be exact are refused. */
+function idString(v: unknown): string | null {
+  if (typeof v === "string") return v.trim() || null;
+  if (typeof v === "number" && Number.isSafeInteger(v)) return String(v);
+  return null;
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+/**
+ * =========================
+ * Fulfill
+ * =========================
+ */
+
+/** Orders are synced one after another; results keep the request's order. */
+export async function pushFulfillments(
+  admin: AdminApiContext,
+  shop: string,
+  orders: ApiFulfillmentOrder[],
+  caller: StaffUser,
+): Promise<ApiOrderResult[]> {
+  const carriers = await loadCarrierRegistry(shop);
+  const out: ApiOrderResult[] = [];
+
+  for (const order of orders) {
+    const rows = order.rows.map((r) => ({
+      ...r,
+      carrier: r.carrier ? resolveCarrier(r.carrier, carriers).company : null,
+    }));
+
+    let results: CsvSyncRowResult[];
+    try {
+      results = await syncCsvOrder(admin, shop, rows, {
+        id: null,
+        uploader: caller,
+        auditIntent: "api_fulfill",
+      });
+    } catch (e) {
+      const error = e instanceof Error ? e.message : String(e);
+      results = rows.map(() => ({ ok: false, error, fulfillmentIds: [] }));
+    }
+
+    out.push({
+      order_name: order.orderName,
+      items: results.map((r) =>
+        r.ok
+          ? { ok: true, fulfillment_ids: r.fulfillmentIds }
+          : {
+              ok: false,
+              error: r.error,
+              skipped: Boolean(r.skipped),
+              fulfillment_ids: r.fulfillmentIds,
+            },
+      ),
+    });
+  }
+
+  return out;
+}
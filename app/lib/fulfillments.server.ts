@@ -0,0 +1,415 @@
+// app/lib/fulfillments.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  SHOPIFY_CARRIERS,
+  buildTrackingUrl,
+  resolveCarrier,
+  type CarrierDef,
+} from "./carriers";
+import type { FulfillmentHoldInput } from "./fulfillment-holds";
+import {
+  adminGraphql,
+  userErrorsFailure,
+  type GraphqlUserError,
+  type MutationPayload,
+} from "./admin-graphql.server";
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type PickedItem = {
+  foLineItemId: string;
+  fulfillmentOrderId: string;
+  quantity: number;
+  trackingNumber: string;
+  carrier: string;
+};
+
+export type TrackingInfoInput = {
+  number: string;
+  company?: string;
+  // only for carriers Shopify does not recognise
+  url?: string;
+};
+
+export type LineItemsByFulfillmentOrder = Array<{
+  fulfillmentOrderId: string;
+  fulfillmentOrderLineItems: Array<{ id: string; quantity: number }>;
+}>;
+
+export type FulfillmentGroup<T extends PickedItem> = {
+  key: string;
+  trackingInfo: TrackingInfoInput | undefined;
+  lineItemsByFulfillmentOrder: LineItemsByFulfillmentOrder;
+  items: T[];
+};
+
+// Hold / release / tracking update / cancel: the new status or why not
+export type MutationStatusResult =
+  | { ok: true; status: string | null }
+  | { ok: false; error: string; details?: string };
+
+// A location the fulfillment order could be moved to
+export type FulfillmentOrderMoveLocation = {
+  id: string;
+  name: string;
+  movable: boolean;
+  // why the move is not possible, when movable is false
+  message: string | null;
+  // line items with / without enough inventory at that location
+  availableCount: number;
+  unavailableCount: number;
+};
+
+export type CreateFulfillmentResult =
+  | { ok: true; fulfillmentId: string | null; status: string | null }
+  | { ok: false; error: string; details?: string };
+
+/**
+ * =========================
+ * Grouping
+ * =========================
+ */
+
+/**
+ * One fulfillment per tracking number (+ carrier); inside a group the items
+ * are sub-grouped by fulfillment order, as fulfillmentCreateV2 requires.
+ * Carriers are resolved through the registry first, so "usps" and "USPS"
+ * land in the same group and go out under Shopify's company name.
+ */
+export function groupByTracking<T extends PickedItem>(
+  items: T[],
+  carriers: CarrierDef[] = SHOPIFY_CARRIERS,
+): FulfillmentGroup<T>[] {
+  // Group by tracking key
+  const groupMap = new Map<string, T[]>();
+  const carrierByCompany = new Map<string, CarrierDef | null>();
+  for (const it of items) {
+    const { company, carrier } = resolveCarrier(it.carrier || "", carriers);
+    carrierByCompany.set(company, carrier);
+    const key = it.trackingNumber
+      ? `${it.trackingNumber}|||${company}`
+      : "NO_TRACK";
+    const arr = groupMap.get(key) || [];
+    arr.push(it);
+    groupMap.set(key, arr);
+  }
+
+  return Array.from(groupMap.entries()).map(([key, groupItems]) => {
+    // Sub-group by fulfillmentOrderId (required by API)
+    const byFO = new Map<string, { id: string; quantity: number }[]>();
+    for (const it of groupItems) {
+      const arr = byFO.get(it.fulfillmentOrderId) || [];
+      arr.push({ id: it.foLineItemId, quantity: it.quantity });
+      byFO.set(it.fulfillmentOrderId, arr);
+    }
+
+    const [tn, cr] = key === "NO_TRACK" ? ["", ""] : key.split("|||");
+
+    const trackingInfo =
+      tn && tn.trim().length > 0
+        ? {
+            number: tn.trim(),
+            company: cr && cr.trim().length > 0 ? cr.trim() : undefined,
+            url: buildTrackingUrl(tn, carrierByCompany.get(cr) ?? null),
+          }
+        : undefined;
+
+    const lineItemsByFulfillmentOrder = Array.from(byFO.entries()).map(
+      ([fulfillmentOrderId, foLineItems]) => ({
+        fulfillmentOrderId,
+        fulfillmentOrderLineItems: foLineItems.map((x) => ({
+          id: x.id,
+          quantity: x.quantity,
+        })),
+      }),
+    );
+
+    return {
+      key,
+      trackingInfo,
+      lineItemsByFulfillmentOrder,
+      items: groupItems,
+    };
+  });
+}
+
+/**
+ * =========================
+ * Mutations
+ * =========================
+ */
+
+type StatusPayload<K extends string> = MutationPayload<{
+  [key in K]?: { id: string; status?: string | null } | null;
+}>;
+
+export async function createFulfillment(
+  admin: AdminApiContext,
+  input: {
+    notifyCustomer: boolean;
+    trackingInfo: TrackingInfoInput | undefined;
+    lineItemsByFulfillmentOrder: LineItemsByFulfillmentOrder;
+  },
+): Promise<CreateFulfillmentResult> {
+  const data: {
+    fulfillmentCreateV2: StatusPayload<"fulfillment"> | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    mutation CreateFulfillment($fulfillment: FulfillmentV2Input!) {
+      fulfillmentCreateV2(fulfillment: $fulfillment) {
+        fulfillment { id status }
+        userErrors { field message }
+      }
+    }`,
+    { fulfillment: input },
+  );
+
+  const out = data.fulfillmentCreateV2;
+  const failed = userErrorsFailure(out?.userErrors, "Fulfillment failed");
+  if (failed) return failed;
+
+  return {
+    ok: true,
+    fulfillmentId: out?.fulfillment?.id ?? null,
+    status: out?.fulfillment?.status ?? null,
+  };
+}
+
+export async function holdFulfillmentOrder(
+  admin: AdminApiContext,
+  fulfillmentOrderId: string,
+  hold: FulfillmentHoldInput,
+): Promise<MutationStatusResult> {
+  const data: {
+    fulfillmentOrderHold: StatusPayload<"fulfillmentOrder"> | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    mutation HoldFulfillmentOrder(
+      $id: ID!
+      $fulfillmentHold: FulfillmentOrderHoldInput!
+    ) {
+      fulfillmentOrderHold(id: $id, fulfillmentHold: $fulfillmentHold) {
+        fulfillmentOrder { id status }
+        userErrors { field message }
+      }
+    }`,
+    {
+      id: fulfillmentOrderId,
+      fulfillmentHold: {
+        reason: hold.reason,
+        reasonNotes: hold.reasonNotes || undefined,
+      },
+    },
+  );
+
+  const out = data.fulfillmentOrderHold;
+  return toStatusResult(out?.fulfillmentOrder?.status, out?.userErrors, "Hold");
+}
+
+/** Releases every hold on the fulfillment order. */
+export async function releaseFulfillmentOrderHold(
+  admin: AdminApiContext,
+  fulfillmentOrderId: string,
+): Promise<MutationStatusResult> {
+  const data: {
+    fulfillmentOrderReleaseHold: StatusPayload<"fulfillmentOrder"> | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    mutation ReleaseFulfillmentOrderHold($id: ID!) {
+      fulfillmentOrderReleaseHold(id: $id) {
+        fulfillmentOrder { id status }
+        userErrors { field message }
+      }
+    }`,
+    { id: fulfillmentOrderId },
+  );
+
+  const out = data.fulfillmentOrderReleaseHold;
+  return toStatusResult(
+    out?.fulfillmentOrder?.status,
+    out?.userErrors,
+    "Release hold",
+  );
+}
+
+export async function moveFulfillmentOrder(
+  admin: AdminApiContext,
+  fulfillmentOrderId: string,
+  newLocationId: string,
+): Promise<
+  | { ok: true; fulfillmentOrderId: string; locationName: string | null }
+  | { ok: false; error: string; details?: string }
+> {
+  const data: {
+    fulfillmentOrderMove: MutationPayload<{
+      movedFulfillmentOrder?: {
+        id: string;
+        assignedLocation?: { name?: string | null } | null;
+      } | null;
+    }> | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    mutation MoveFulfillmentOrder($id: ID!, $newLocationId: ID!) {
+      fulfillmentOrderMove(id: $id, newLocationId: $newLocationId) {
+        movedFulfillmentOrder {
+          id
+          assignedLocation { name }
+        }
+        userErrors { field message }
+      }
+    }`,
+    { id: fulfillmentOrderId, newLocationId },
+  );
+
+  const out = data.fulfillmentOrderMove;
+  const failed = userErrorsFailure(out?.userErrors, "Move failed");
+  if (failed) return failed;
+
+  // Moving the whole fulfillment order may hand back a new one
+  return {
+    ok: true,
+    fulfillmentOrderId: out?.movedFulfillmentOrder?.id ?? fulfillmentOrderId,
+    locationName: out?.movedFulfillmentOrder?.assignedLocation?.name ?? null,
+  };
+}
+
+export async function updateFulfillmentTracking(
+  admin: AdminApiContext,
+  fulfillmentId: string,
+  input: { trackingInfo: TrackingInfoInput; notifyCustomer: boolean },
+): Promise<MutationStatusResult> {
+  const data: {
+    fulfillmentTrackingInfoUpdate: StatusPayload<"fulfillment"> | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    mutation UpdateFulfillmentTracking(
+      $fulfillmentId: ID!
+      $trackingInfoInput: FulfillmentTrackingInput!
+      $notifyCustomer: Boolean
+    ) {
+      fulfillmentTrackingInfoUpdate(
+        fulfillmentId: $fulfillmentId
+        trackingInfoInput: $trackingInfoInput
+        notifyCustomer: $notifyCustomer
+      ) {
+        fulfillment { id status }
+        userErrors { field message }
+      }
+    }`,
+    {
+      fulfillmentId,
+      trackingInfoInput: input.trackingInfo,
+      notifyCustomer: input.notifyCustomer,
+    },
+  );
+
+  const out = data.fulfillmentTrackingInfoUpdate;
+  return toStatusResult(
+    out?.fulfillment?.status,
+    out?.userErrors,
+    "Tracking update",
+  );
+}
+
+export async function cancelFulfillment(
+  admin: AdminApiContext,
+  fulfillmentId: string,
+): Promise<MutationStatusResult> {
+  const data: {
+    fulfillmentCancel: StatusPayload<"fulfillment"> | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    mutation CancelFulfillment($id: ID!) {
+      fulfillmentCancel(id: $id) {
+        fulfillment { id status }
+        userErrors { field message }
+      }
+    }`,
+    { id: fulfillmentId },
+  );
+
+  const out = data.fulfillmentCancel;
+  return toStatusResult(out?.fulfillment?.status, out?.userErrors, "Cancel");
+}
+
+function toStatusResult(
+  status: string | null | undefined,
+  userErrors: GraphqlUserError[] | undefined,
+  what: string,
+): MutationStatusResult {
+  return (
+    userErrorsFailure(userErrors, `${what} failed`) || {
+      ok: true,
+      status: status ?? null,
+    }
+  );
+}
+
+/**
+ * =========================
+ * Queries
+ * =========================
+ */
+
+/** Locations the fulfillment order can be moved to, with stock coverage. */
+export async function listLocationsForMove(
+  admin: AdminApiContext,
+  fulfillmentOrderId: string,
+): Promise<FulfillmentOrderMoveLocation[] | null> {
+  const data: {
+    fulfillmentOrder: {
+      id: string;
+      locationsForMove?: {
+        nodes?: Array<{
+          location?: { id?: string; name?: string } | null;
+          movable?: boolean | null;
+          message?: string | null;
+          availableLineItemsCount?: { count?: number } | null;
+          unavailableLineItemsCount?: { count?: number } | null;
+        }>;
+      };
+    } | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query LocationsForMove($id: ID!) {
+      fulfillmentOrder(id: $id) {
+        id
+        locationsForMove(first: 50) {
+          nodes {
+            location { id name }
+            movable
+            message
+            availableLineItemsCount { count }
+            unavailableLineItemsCount { count }
+          }
+        }
+      }
+    }`,
+    { id: fulfillmentOrderId },
+  );
+
+  const fo = data.fulfillmentOrder;
+  if (!fo) return null;
+
+  return (fo.locationsForMove?.nodes || [])
+    .filter((n) => n.location?.id)
+    .map((n) => ({
+      id: String(n.location?.id),
+      name: String(n.location?.name || n.location?.id),
+      movable: Boolean(n.movable),
+      message: n.message ?? null,
+      availableCount: Number(n.availableLineItemsCount?.count ?? 0),
+      unavailableCount: Number(n.unavailableLineItemsCount?.count ?? 0),
+    }));
+}
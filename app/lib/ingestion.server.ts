@@ -0,0 +1,749 @@
+// app/lib/ingestion.server.ts
+import { promises as fs } from "node:fs";
+import path from "node:path";
+import SftpClient from "ssh2-sftp-client";
+import { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { createCsvSyncJob } from "./csv-sync.server";
+import { getMappingProfile } from "./csv-mapping-profiles.server";
+import { readSheet } from "./sheet-import.server";
+import { recordAuditEvent } from "./audit.server";
+import type { StaffUser } from "./staff.server";
+import {
+  checkPublicHost,
+  isDevAllowedHost,
+  resolvePublicAddress,
+} from "./network.server";
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncryptedSecret,
+} from "./secrets.server";
+
+/**
+ * Scheduled file ingestion: a 3PL drops tracking files on an SFTP server (or,
+ * for testing, in a local folder) and every new file matching the source's
+ * pattern becomes a CSV sync job, exactly as if it had been uploaded in the
+ * Fulfillment Center. Picked-up files are moved to the archive folder and
+ * recorded in IngestedFile with the job they became.
+ *
+ * The scheduler runs in-process (started from entry.server.tsx) and checks
+ * every minute for sources whose interval has passed.
+ *
+ * SFTP passwords and private keys are stored encrypted (secrets.server.ts),
+ * and SFTP hosts must be public addresses (network.server.ts) unless
+ * DEV_ALLOWED_HOSTS lets a local stand-in through during development.
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type IngestionSourceKind = "sftp" | "local";
+
+export type IngestionSourceView = {
+  id: string;
+  name: string;
+  kind: IngestionSourceKind;
+  host: string | null;
+  port: number;
+  username: string | null;
+  // secrets never leave the server; the page only learns whether one is set
+  hasPassword: boolean;
+  hasPrivateKey: boolean;
+  path: string;
+  pattern: string;
+  archivePath: string;
+  mappingProfileId: string | null;
+  intervalMinutes: number;
+  enabled: boolean;
+  lastPolledAt: string | null;
+  lastError: string | null;
+};
+
+export type IngestionSourceInput = {
+  id?: string;
+  name: string;
+  kind: string;
+  host: string;
+  port: string;
+  username: string;
+  // blank keeps the saved secret when editing
+  password: string;
+  privateKey: string;
+  path: string;
+  pattern: string;
+  archivePath: string;
+  mappingProfileId: string;
+  intervalMinutes: string;
+  enabled: boolean;
+};
+
+export type IngestedFileView = {
+  id: string;
+  sourceId: string;
+  filename: string;
+  size: number;
+  status: string; // processing | queued | rejected | failed
+  jobId: string | null;
+  archivedAs: string | null;
+  error: string | null;
+  createdAt: string;
+};
+
+type RemoteFile = { name: string; size: number; modifiedAt: number };
+
+// What a poll needs from a folder, wherever it lives
+type IngestionTransport = {
+  list(): Promise<RemoteFile[]>;
+  read(name: string): Promise<Buffer>;
+  // moves the file into the archive folder; returns where it ended up
+  archive(name: string, archivedName: string): Promise<string>;
+  close(): Promise<void>;
+};
+
+type IngestionSourceRow = Prisma.IngestionSourceGetPayload<object>;
+
+// How often the scheduler looks for sources that are due
+const SCHEDULER_TICK_MS = 60 * 1000;
+const MIN_INTERVAL_MINUTES = 5;
+const MAX_INTERVAL_MINUTES = 24 * 60;
+// Files queued per poll; the rest wait for the next one
+const FILES_PER_POLL = 20;
+// Larger files are left alone and reported
+const MAX_FILE_BYTES = 20 * 1024 * 1024;
+const SFTP_READY_TIMEOUT_MS = 20 * 1000;
+const RECENT_FILES_LIMIT = 50;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var ingestionScheduler: ReturnType<typeof setInterval> | undefined;
+  // eslint-disable-next-line no-var
+  var ingestionPolling: Set<string> | undefined;
+}
+
+/**
+ * =========================
+ * Sources
+ * =========================
+ */
+
+export async function listIngestionSources(
+  shop: string,
+): Promise<IngestionSourceView[]> {
+  const rows = await db.ingestionSource.findMany({
+    where: { shop },
+    orderBy: { name: "asc" },
+  });
+  return rows.map(toView);
+}
+
+/**
+ * Creates the source, or updates it when `id` is given. Returns an error
+ * message instead of throwing for anything the merchant can fix.
+ */
+export async function saveIngestionSource(
+  shop: string,
+  input: IngestionSourceInput,
+): Promise<
+  { ok: true; source: IngestionSourceView } | { ok: false; error: string }
+> {
+  const existing = input.id
+    ? await db.ingestionSource.findFirst({ where: { id: input.id, shop } })
+    : null;
+  if (input.id && !existing)
+    return { ok: false, error: "Ingestion source not found." };
+
+  const name = input.name.trim();
+  if (!name) return { ok: false, error: "Name is required." };
+
+  const kind = input.kind;
+  if (kind !== "sftp" && kind !== "local")
+    return { ok: false, error: "Choose SFTP or local folder." };
+
+  const dir = input.path.trim();
+  if (!dir) return { ok: false, error: "Folder path is required." };
+
+  const pattern = input.pattern.trim() || "*.csv";
+  if (pattern.includes("/"))
+    return {
+      ok: false,
+      error: "The file pattern matches file names only (no folders).",
+    };
+
+  const archivePath = input.archivePath.trim() || "processed";
+
+  const intervalMinutes = Number(input.intervalMinutes);
+  if (
+    !Number.isInteger(intervalMinutes) ||
+    intervalMinutes < MIN_INTERVAL_MINUTES ||
+    intervalMinutes > MAX_INTERVAL_MINUTES
+  )
+    return {
+      ok: false,
+      error: `Interval must be ${MIN_INTERVAL_MINUTES} to ${MAX_INTERVAL_MINUTES} minutes.`,
+    };
+
+  const mappingProfileId = input.mappingProfileId || null;
+  if (mappingProfileId && !(await getMappingProfile(shop, mappingProfileId)))
+    return { ok: false, error: "Mapping profile not found." };
+
+  let sftp: Pick<
+    IngestionSourceRow,
+    "host" | "port" | "username" | "password" | "privateKey"
+  > = {
+    host: null,
+    port: 22,
+    username: null,
+    password: null,
+    privateKey: null,
+  };
+
+  if (kind === "sftp") {
+    const host = input.host.trim();
+    const username = input.username.trim();
+    const port = Number(input.port || "22");
+    if (!host || !username)
+      return { ok: false, error: "SFTP host and username are required." };
+    if (!Number.isInteger(port) || port < 1 || port > 65535)
+      return { ok: false, error: "SFTP port must be 1 to 65535." };
+    const hostError = isDevAllowedHost(host, port)
+      ? null
+      : await checkPublicHost(host);
+    if (hostError)
+      return {
+        ok: false,
+        error: `${hostError} SFTP servers must be on the public internet.`,
+      };
+
+    const password = input.password
+      ? encryptSecret(input.password)
+      : existing?.password || null;
+    const privateKey = input.privateKey.trim()
+      ? encryptSecret(input.privateKey.trim())
+      : existing?.privateKey || null;
+    if (!password && !privateKey)
+      return { ok: false, error: "Enter a password or a private key." };
+
+    sftp = { host, port, username, password, privateKey };
+  } else {
+    const resolved = resolveLocalPath(dir);
+    if (!resolved.ok) return resolved;
+  }
+
+  const clash = await db.ingestionSource.findFirst({
+    where: { shop, name, NOT: input.id ? { id: input.id } : undefined },
+  });
+  if (clash)
+    return { ok: false, error: `A source named "${name}" already exists.` };
+
+  const data = {
+    name,
+    kind,
+    ...sftp,
+    path: dir,
+    pattern,
+    archivePath,
+    mappingProfileId,
+    intervalMinutes,
+    enabled: input.enabled,
+  };
+  const row = existing
+    ? await db.ingestionSource.update({
+        where: { id: existing.id },
+        data: { ...data, lastError: null },
+      })
+    : await db.ingestionSource.create({ data: { shop, ...data } });
+
+  return { ok: true, source: toView(row) };
+}
+
+export async function deleteIngestionSource(
+  shop: string,
+  id: string,
+): Promise<boolean> {
+  const { count } = await db.ingestionSource.deleteMany({
+    where: { id, shop },
+  });
+  return count > 0;
+}
+
+export async function listIngestedFiles(
+  shop: string,
+): Promise<IngestedFileView[]> {
+  const rows = await db.ingestedFile.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take: RECENT_FILES_LIMIT,
+  });
+  return rows.map((f) => ({
+    id: f.id,
+    sourceId: f.sourceId,
+    filename: f.filename,
+    size: f.size,
+    status: f.status,
+    jobId: f.jobId,
+    archivedAs: f.archivedAs,
+    error: f.error,
+    createdAt: f.createdAt.toISOString(),
+  }));
+}
+
+/**
+ * =========================
+ * Scheduler
+ * =========================
+ */
+
+/** Starts the once-a-minute check for due sources. Safe to call repeatedly. */
+export function startIngestionScheduler() {
+  if (global.ingestionScheduler) return;
+  encryptStoredSecrets().catch((e) =>
+    console.error("Encrypting stored SFTP credentials failed:", e),
+  );
+  global.ingestionScheduler = setInterval(() => {
+    pollDueSources().catch((e) =>
+      console.error("Ingestion scheduler failed:", e),
+    );
+  }, SCHEDULER_TICK_MS);
+  // don't keep the process alive just for the timer
+  global.ingestionScheduler.unref?.();
+}
+
+// Credentials saved before they were encrypted are encrypted in place
+async function encryptStoredSecrets() {
+  const sources = await db.ingestionSource.findMany({
+    where: { OR: [{ password: { not: null } }, { privateKey: { not: null } }] },
+    select: { id: true, password: true, privateKey: true },
+  });
+  for (const s of sources) {
+    const plain = (v: string | null) => Boolean(v && !isEncryptedSecret(v));
+    if (!plain(s.password) && !plain(s.privateKey)) continue;
+    await db.ingestionSource.update({
+      where: { id: s.id },
+      data: {
+        password:
+          s.password && plain(s.password)
+            ? encryptSecret(s.password)
+            : s.password,
+        privateKey:
+          s.privateKey && plain(s.privateKey)
+            ? encryptSecret(s.privateKey)
+            : s.privateKey,
+      },
+    });
+  }
+}
+
+async function pollDueSources() {
+  const sources = await db.ingestionSource.findMany({
+    where: { enabled: true },
+    select: { id: true, intervalMinutes: true, lastPolledAt: true },
+  });
+
+  const now = Date.now();
+  for (const s of sources) {
+    const last = s.lastPolledAt?.getTime() ?? 0;
+    if (now - last < s.intervalMinutes * 60 * 1000) continue;
+
+    // Claim the run so a second app instance skips it
+    const { count } = await db.ingestionSource.updateMany({
+      where: { id: s.id, lastPolledAt: s.lastPolledAt },
+      data: { lastPolledAt: new Date(now) },
+    });
+    if (count) kickIngestionPoll(s.id);
+  }
+}
+
+/** Polls the source in the background unless a poll is already running. */
+export function kickIngestionPoll(sourceId: string) {
+  global.ingestionPolling ??= new Set();
+  if (global.ingestionPolling.has(sourceId)) return;
+
+  global.ingestionPolling.add(sourceId);
+  pollIngestionSource(sourceId)
+    .catch((e) => console.error(`Ingestion poll ${sourceId} failed:`, e))
+    .finally(() => global.ingestionPolling?.delete(sourceId));
+}
+
+export function isIngestionPolling(sourceId: string): boolean {
+  return Boolean(global.ingestionPolling?.has(sourceId));
+}
+
+/**
+ * =========================
+ * Poll
+ * =========================
+ */
+
+/**
+ * Queues every new file matching the pattern (oldest first) as a CSV sync
+ * job and archives it. Files that cannot be read as a tracking sheet are
+ * archived too, marked rejected, and so are files whose processing failed
+ * otherwise, marked failed; files that could not be downloaded stay where
+ * they are and are retried on the next poll.
+ */
+export async function pollIngestionSource(sourceId: string): Promise<void> {
+  const source = await db.ingestionSource.findUnique({
+    where: { id: sourceId },
+  });
+  if (!source) return;
+
+  await db.ingestionSource.update({
+    where: { id: source.id },
+    data: { lastPolledAt: new Date() },
+  });
+
+  let transport: IngestionTransport | null = null;
+  const errors: string[] = [];
+  try {
+    transport = await openTransport(source);
+
+    const matches = globToRegExp(source.pattern);
+    const files = (await transport.list())
+      .filter((f) => matches.test(f.name))
+      .sort((a, b) => a.modifiedAt - b.modifiedAt);
+
+    let queued = 0;
+    for (const file of files) {
+      if (queued >= FILES_PER_POLL) break;
+      const res = await ingestFile(source, transport, file);
+      if (res === "queued") queued++;
+      if (typeof res === "object") errors.push(`${file.name}: ${res.error}`);
+    }
+  } catch (e) {
+    errors.unshift(errorMessage(e));
+  } finally {
+    await transport?.close().catch(() => undefined);
+  }
+
+  await db.ingestionSource.update({
+    where: { id: source.id },
+    data: { lastError: errors.length ? errors.join("\n") : null },
+  });
+}
+
+/**
+ * "skipped" when the file was picked up before (or by another instance);
+ * an error when it could not be downloaded, processed or archived.
+ */
+async function ingestFile(
+  source: IngestionSourceRow,
+  transport: IngestionTransport,
+  file: RemoteFile,
+): Promise<"queued" | "rejected" | "skipped" | { error: string }> {
+  // Claim the file first; the unique fingerprint keeps it from being queued
+  // twice if it is still there next time (e.g. the archive move failed)
+  let claim;
+  try {
+    claim = await db.ingestedFile.create({
+      data: {
+        sourceId: source.id,
+        shop: source.shop,
+        filename: file.name,
+        fingerprint: `${file.name}:${file.size}:${file.modifiedAt}`,
+        size: file.size,
+        status: "processing",
+      },
+    });
+  } catch (e) {
+    if (e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002")
+      return "skipped";
+    throw e;
+  }
+
+  let data: Buffer;
+  try {
+    if (file.size > MAX_FILE_BYTES)
+      throw new Error(
+        `File is larger than ${MAX_FILE_BYTES / 1024 / 1024} MB.`,
+      );
+    data = await transport.read(file.name);
+  } catch (e) {
+    // Not ours to judge yet: let the next poll try again
+    await db.ingestedFile.delete({ where: { id: claim.id } });
+    return { error: errorMessage(e) };
+  }
+
+  try {
+    return await processFile(source, transport, file, claim.id, data);
+  } catch (e) {
+    // The claim must not stay "processing": record the failure and move the
+    // file aside so it shows up as failed instead of silently never running
+    const error = errorMessage(e);
+    const archivedAs = await transport
+      .archive(file.name, `${timestamp()}-${file.name}`)
+      .catch(() => null);
+    await db.ingestedFile
+      .update({
+        where: { id: claim.id },
+        data: { status: "failed", archivedAs, error },
+      })
+      .catch((e2) =>
+        console.error(`Could not mark ingested file ${claim.id} failed:`, e2),
+      );
+    return { error };
+  }
+}
+
+/** Queues the downloaded file, archives it and settles its IngestedFile row. */
+async function processFile(
+  source: IngestionSourceRow,
+  transport: IngestionTransport,
+  file: RemoteFile,
+  claimId: string,
+  data: Buffer,
+): Promise<"queued" | "rejected" | { error: string }> {
+  const uploader: StaffUser = {
+    userId: null,
+    name: `${source.name} (${source.kind === "sftp" ? "SFTP" : "folder"})`,
+    email: null,
+  };
+  const created = await queueSheet(source, file.name, data, uploader);
+
+  await recordAuditEvent({
+    shop: source.shop,
+    staff: uploader,
+    intent: "csv_ingest",
+    payload: { source: source.name, filename: file.name, size: file.size },
+    ok: created.ok,
+    result: created.ok ? { jobId: created.jobId } : created,
+  });
+
+  let archivedAs: string | null = null;
+  let archiveError: string | null = null;
+  try {
+    archivedAs = await transport.archive(
+      file.name,
+      `${timestamp()}-${file.name}`,
+    );
+  } catch (e) {
+    archiveError = `Could not archive: ${errorMessage(e)}`;
+  }
+
+  await db.ingestedFile.update({
+    where: { id: claimId },
+    data: {
+      status: created.ok ? "queued" : "rejected",
+      jobId: created.ok ? created.jobId : null,
+      archivedAs,
+      error:
+        [created.ok ? null : created.error, archiveError]
+          .filter(Boolean)
+          .join("\n") || null,
+    },
+  });
+
+  if (archiveError) return { error: archiveError };
+  return created.ok ? "queued" : "rejected";
+}
+
+/** Same steps as a csv_sync upload, minus the preview: nobody is there to confirm. */
+async function queueSheet(
+  source: IngestionSourceRow,
+  filename: string,
+  data: Buffer,
+  uploader: StaffUser,
+): Promise<{ ok: true; jobId: string } | { ok: false; error: string }> {
+  const profile = source.mappingProfileId
+    ? await getMappingProfile(source.shop, source.mappingProfileId)
+    : null;
+  if (source.mappingProfileId && !profile)
+    return { ok: false, error: "Mapping profile not found." };
+
+  const sheet = readSheet({ name: filename, data });
+  if (!sheet.ok) return sheet;
+
+  const created = await createCsvSyncJob({
+    shop: source.shop,
+    filename,
+    table: sheet.table,
+    uploader,
+    preview: false,
+    profile,
+  });
+  return created.ok ? { ok: true, jobId: created.job.id } : created;
+}
+
+/**
+ * =========================
+ * Transports
+ * =========================
+ */
+
+async function openTransport(
+  source: IngestionSourceRow,
+): Promise<IngestionTransport> {
+  return source.kind === "sftp" ? openSftp(source) : openLocal(source);
+}
+
+async function openSftp(
+  source: IngestionSourceRow,
+): Promise<IngestionTransport> {
+  // connect to the checked address, not the name, so DNS can't swap it
+  const host = source.host ?? "";
+  const resolved = isDevAllowedHost(host, source.port)
+    ? { ok: true as const, address: host }
+    : await resolvePublicAddress(host);
+  if (!resolved.ok) throw new Error(resolved.error);
+
+  const client = new SftpClient();
+  await client.connect({
+    host: resolved.address,
+    port: source.port,
+    username: source.username ?? "",
+    password: source.password ? decryptSecret(source.password) : undefined,
+    privateKey: source.privateKey
+      ? decryptSecret(source.privateKey)
+      : undefined,
+    readyTimeout: SFTP_READY_TIMEOUT_MS,
+  });
+
+  const dir = source.path;
+  const archiveDir = path.posix.isAbsolute(source.archivePath)
+    ? source.archivePath
+    : path.posix.join(dir, source.archivePath);
+
+  return {
+    async list() {
+      const entries = await client.list(dir);
+      return entries
+        .filter((e) => e.type === "-")
+        .map((e) => ({ name: e.name, size: e.size, modifiedAt: e.modifyTime }));
+    },
+    async read(name) {
+      const data = await client.get(path.posix.join(dir, name));
+      if (Buffer.isBuffer(data)) return data;
+      if (typeof data === "string") return Buffer.from(data);
+      throw new Error("Unexpected download result.");
+    },
+    async archive(name, archivedName) {
+      if (!(await client.exists(archiveDir)))
+        await client.mkdir(archiveDir, true);
+      const to = path.posix.join(archiveDir, archivedName);
+      await client.rename(path.posix.join(dir, name), to);
+      return to;
+    },
+    async close() {
+      await client.end();
+    },
+  };
+}
+
+/**
+ * Local folders are for testing and for hosts that mount the 3PL's share.
+ * They must live under INGESTION_LOCAL_ROOT so a source can't read or move
+ * arbitrary server files; without it local sources are disabled.
+ */
+function resolveLocalPath(
+  p: string,
+): { ok: true; path: string } | { ok: false; error: string } {
+  const root = process.env.INGESTION_LOCAL_ROOT;
+  if (!root)
+    return {
+      ok: false,
+      error:
+        "Local folders are disabled. Set INGESTION_LOCAL_ROOT on the server to allow them.",
+    };
+
+  const base = path.resolve(root);
+  const resolved = path.resolve(base, p);
+  if (resolved !== base && !resolved.startsWith(base + path.sep))
+    return {
+      ok: false,
+      error: `Local folders must be inside ${base}.`,
+    };
+  return { ok: true, path: resolved };
+}
+
+async function openLocal(
+  source: IngestionSourceRow,
+): Promise<IngestionTransport> {
+  const dir = resolveLocalPath(source.path);
+  if (!dir.ok) throw new Error(dir.error);
+  const archiveDir = resolveLocalPath(
+    path.isAbsolute(source.archivePath)
+      ? source.archivePath
+      : path.join(dir.path, source.archivePath),
+  );
+  if (!archiveDir.ok) throw new Error(archiveDir.error);
+
+  return {
+    async list() {
+      const entries = await fs.readdir(dir.path, { withFileTypes: true });
+      const files: RemoteFile[] = [];
+      for (const e of entries) {
+        if (!e.isFile()) continue;
+        const stat = await fs.stat(path.join(dir.path, e.name));
+        files.push({
+          name: e.name,
+          size: stat.size,
+          modifiedAt: stat.mtimeMs,
+        });
+      }
+      return files;
+    },
+    read(name) {
+      return fs.readFile(path.join(dir.path, name));
+    },
+    async archive(name, archivedName) {
+      await fs.mkdir(archiveDir.path, { recursive: true });
+      const to = path.join(archiveDir.path, archivedName);
+      await fs.rename(path.join(dir.path, name), to);
+      return to;
+    },
+    async close() {},
+  };
+}
+
+/**
+ * =========================
+ * Helpers
+ * =========================
+ */
+
+/** `*` and `?` wildcards over a file name, case-insensitive. */
+function globToRegExp(glob: string): RegExp {
+  const source = glob
+    .split("")
+    .map((c) =>
+      c === "*"
+        ? ".*"
+        : c === "?"
+          ? "."
+          : c.replace(/[.+^${}()|[\]\\]/g, "\\$&"),
+    )
+    .join("");
+  return new RegExp(`^${source}$`, "i");
+}
+
+function timestamp() {
+  return new Date().toISOString().replace(/[-:]/g, "").slice(0, 15);
+}
+
+function errorMessage(e: unknown) {
+  return e instanceof Error ? e.message : String(e);
+}
+
+function toView(row: IngestionSourceRow): IngestionSourceView {
+  return {
+    id: row.id,
+    name: row.name,
+    kind: row.kind === "sftp" ? "sftp" : "local",
+    host: row.host,
+    port: row.port,
+    username: row.username,
+    hasPassword: Boolean(row.password),
+    hasPrivateKey: Boolean(row.privateKey),
+    path: row.path,
+    pattern: row.pattern,
+    archivePath: row.archivePath,
+    mappingProfileId: row.mappingProfileId,
+    intervalMinutes: row.intervalMinutes,
+    enabled: row.enabled,
+    lastPolledAt: row.lastPolledAt?.toISOString() ?? null,
+    lastError: row.lastError,
+  };
+}
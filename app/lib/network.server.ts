@@ -0,0 +1,134 @@
+// app/lib/network.server.ts
+import { lookup, promises as dns } from "node:dns";
+import { BlockList, isIP, type LookupFunction } from "node:net";
+
+/**
+ * Guards for connections the app opens to hosts a merchant typed in
+ * (webhook endpoints, SFTP servers): only public internet addresses are
+ * allowed, so a saved URL can't be used to reach the app's own network,
+ * cloud metadata services or localhost.
+ *
+ * For development, DEV_ALLOWED_HOSTS lists `host:port` pairs that skip these
+ * checks (and, for webhooks, the https requirement), e.g.
+ * `DEV_ALLOWED_HOSTS=localhost:4000,localhost:2222` for a local receiver and
+ * SFTP stand-in. It is ignored when NODE_ENV is production.
+ */
+
+/**
+ * =========================
+ * Addresses
+ * =========================
+ */
+
+const PRIVATE_RANGES = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, cloud metadata
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved, broadcast
+] as const)
+  PRIVATE_RANGES.addSubnet(net, prefix, "ipv4");
+for (const [net, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["64:ff9b::", 96], // NAT64 of an IPv4 address
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const)
+  PRIVATE_RANGES.addSubnet(net, prefix, "ipv6");
+
+/** false for private, loopback, link-local and other non-internet addresses. */
+export function isPublicAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is the IPv4 address underneath
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = isIP(ip);
+  if (!family) return false;
+  return !PRIVATE_RANGES.check(ip, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * =========================
+ * Development allowlist
+ * =========================
+ */
+
+/** true when `host:port` is listed in DEV_ALLOWED_HOSTS outside production. */
+export function isDevAllowedHost(host: string, port: number): boolean {
+  if (process.env.NODE_ENV === "production") return false;
+  const wanted = `${host.replace(/^\[(.*)\]$/, "$1")}:${port}`.toLowerCase();
+  return (process.env.DEV_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .some((h) => h === wanted);
+}
+
+/**
+ * =========================
+ * Public hosts
+ * =========================
+ */
+
+/**
+ * Resolves `host` (a name or an IP literal) to its first address, or an
+ * error message when it can't be resolved or any of its addresses is not
+ * public. Connecting to the returned address instead of the name keeps a
+ * second DNS answer from pointing the connection somewhere else.
+ */
+export async function resolvePublicAddress(
+  host: string,
+): Promise<{ ok: true; address: string } | { ok: false; error: string }> {
+  const name = host.replace(/^\[(.*)\]$/, "$1");
+  let addresses: Array<{ address: string }>;
+  try {
+    addresses = await dns.lookup(name, { all: true, verbatim: true });
+  } catch {
+    addresses = [];
+  }
+  if (!addresses.length)
+    return { ok: false, error: `${host} could not be resolved.` };
+  const blocked = addresses.find((a) => !isPublicAddress(a.address));
+  if (blocked)
+    return {
+      ok: false,
+      error: `${host} is not a public address (${blocked.address}).`,
+    };
+  return { ok: true, address: addresses[0].address };
+}
+
+/** resolvePublicAddress's error message, or null when the host is public. */
+export async function checkPublicHost(host: string): Promise<string | null> {
+  const resolved = await resolvePublicAddress(host);
+  return resolved.ok ? null : resolved.error;
+}
+
+/**
+ * `lookup` for http(s).request / net.connect that fails the connection when
+ * the name resolves to an address that is not public. IP literals skip
+ * lookup, so check those with checkPublicHost first.
+ */
+export const publicLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) return callback(err, "");
+    const blocked = addresses.find((a) => !isPublicAddress(a.address));
+    if (blocked || !addresses.length)
+      return callback(
+        new Error(
+          blocked
+            ? `${hostname} is not a public address (${blocked.address}).`
+            : `${hostname} could not be resolved.`,
+        ),
+        "",
+      );
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
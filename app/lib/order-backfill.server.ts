@@ -0,0 +1,429 @@
+// app/lib/order-backfill.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import {
+  adminGraphql,
+  userErrorsFailure,
+  type MutationPayload,
+} from "./admin-graphql.server";
+import { EMPTY_ORDER_FILTERS, buildOrdersSearchQuery } from "./order-filters";
+import {
+  markOrderCacheFilled,
+  saveCachedOrder,
+  type CacheOrderNode,
+} from "./order-cache.server";
+
+/**
+ * Fills the order cache for shops too large for the page-by-page reconcile:
+ * one bulkOperationRunQuery over every open order with its fulfillment
+ * orders and line items. Shopify calls bulk_operations/finish when the
+ * export is ready; the JSONL file is then streamed line by line into the
+ * cache, so memory stays flat however many orders there are.
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type OrderBackfillStatus =
+  | "RUNNING" // bulk operation running in Shopify
+  | "IMPORTING" // downloading the result into the cache
+  | "COMPLETED"
+  | "FAILED";
+
+export type OrderBackfillView = {
+  id: string;
+  status: OrderBackfillStatus;
+  objectCount: number;
+  ordersSaved: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+// Bulk operation states that mean "not finished yet"
+const PENDING_BULK_STATUSES = new Set(["CREATED", "RUNNING", "CANCELING"]);
+
+// How often the imported count is written back while streaming
+const PROGRESS_EVERY = 250;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var orderBackfillImporting: Set<string> | undefined;
+}
+
+/**
+ * Bulk queries take connections without `first`; nested connections come
+ * back as separate JSONL lines pointing at their parent via __parentId.
+ */
+function bulkOrdersQuery(q: string) {
+  return `{
+    orders(query: ${JSON.stringify(q)}) {
+      edges {
+        node {
+          id
+          name
+          createdAt
+          updatedAt
+          cancelledAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          tags
+          channelInformation {
+            channelDefinition {
+              handle
+            }
+          }
+          fulfillmentOrders {
+            edges {
+              node {
+                id
+                status
+                assignedLocation {
+                  name
+                  location {
+                    id
+                  }
+                }
+                lineItems {
+                  edges {
+                    node {
+                      id
+                      totalQuantity
+                      remainingQuantity
+                      lineItem {
+                        id
+                        title
+                        sku
+                        variantTitle
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }`;
+}
+
+/**
+ * =========================
+ * Start / finish
+ * =========================
+ */
+
+export async function startOrderBackfill(
+  admin: AdminApiContext,
+  shop: string,
+): Promise<
+  { ok: true; backfill: OrderBackfillView } | { ok: false; error: string }
+> {
+  const running = await db.orderBackfill.findFirst({
+    where: { shop, status: { in: ["RUNNING", "IMPORTING"] } },
+  });
+  if (running && !isStalledImport(running))
+    return { ok: false, error: "A backfill is already running." };
+
+  const data: {
+    bulkOperationRunQuery: MutationPayload<{
+      bulkOperation?: { id: string; status?: string | null } | null;
+    }> | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    mutation StartOrderBackfill($query: String!) {
+      bulkOperationRunQuery(query: $query) {
+        bulkOperation {
+          id
+          status
+        }
+        userErrors {
+          field
+          message
+        }
+      }
+    }`,
+    { query: bulkOrdersQuery(buildOrdersSearchQuery(EMPTY_ORDER_FILTERS)) },
+  );
+  const out = data.bulkOperationRunQuery;
+  const failed = userErrorsFailure(
+    out?.userErrors,
+    "Could not start the bulk operation.",
+  );
+  if (failed) return failed;
+  if (!out?.bulkOperation?.id)
+    return { ok: false, error: "Shopify did not start the bulk operation." };
+
+  if (running)
+    await db.orderBackfill.update({
+      where: { id: running.id },
+      data: {
+        status: "FAILED",
+        error: "Import was interrupted",
+        finishedAt: new Date(),
+      },
+    });
+
+  const row = await db.orderBackfill.create({
+    data: {
+      shop,
+      bulkOperationId: String(out.bulkOperation.id),
+      status: "RUNNING",
+    },
+  });
+  return { ok: true, backfill: toView(row) };
+}
+
+/** bulk_operations/finish webhook: import the result if it is one of ours. */
+export async function handleBulkOperationFinish(
+  shop: string,
+  payload: unknown,
+): Promise<void> {
+  const body = (payload || {}) as Record<string, unknown>;
+  const row = await db.orderBackfill.findUnique({
+    where: { bulkOperationId: String(body.admin_graphql_api_id || "") },
+  });
+  if (row?.shop === shop && row.status === "RUNNING")
+    kickOrderBackfillImport(shop, row.id);
+}
+
+/**
+ * Checks the bulk operation and, once Shopify has finished it, streams the
+ * result into the cache in the background. Called by the webhook and by the
+ * status page, so a missed webhook only delays the import.
+ */
+export function kickOrderBackfillImport(shop: string, backfillId: string) {
+  global.orderBackfillImporting ??= new Set();
+  if (global.orderBackfillImporting.has(backfillId)) return;
+
+  global.orderBackfillImporting.add(backfillId);
+  unauthenticated
+    .admin(shop)
+    .then(({ admin }) => importOrderBackfill(admin, shop, backfillId))
+    .catch(async (e) => {
+      console.error(`Order backfill ${backfillId} failed:`, e);
+      await db.orderBackfill.update({
+        where: { id: backfillId },
+        data: {
+          status: "FAILED",
+          error: e instanceof Error ? e.message : String(e),
+          finishedAt: new Date(),
+        },
+      });
+    })
+    .catch(console.error)
+    .finally(() => global.orderBackfillImporting?.delete(backfillId));
+}
+
+async function importOrderBackfill(
+  admin: AdminApiContext,
+  shop: string,
+  backfillId: string,
+): Promise<void> {
+  const row = await db.orderBackfill.findUnique({ where: { id: backfillId } });
+  if (!row?.bulkOperationId || row.status === "COMPLETED") return;
+
+  const data: {
+    node: {
+      status?: string;
+      errorCode?: string | null;
+      objectCount?: string | number | null;
+      url?: string | null;
+    } | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query OrderBackfillOperation($id: ID!) {
+      node(id: $id) {
+        ... on BulkOperation {
+          status
+          errorCode
+          objectCount
+          url
+        }
+      }
+    }`,
+    { id: row.bulkOperationId },
+  );
+  const op = data.node;
+
+  const status = String(op?.status || "");
+  if (PENDING_BULK_STATUSES.has(status)) return;
+  if (status !== "COMPLETED") {
+    await db.orderBackfill.update({
+      where: { id: backfillId },
+      data: {
+        status: "FAILED",
+        error: op?.errorCode || status || "Bulk operation not found",
+        finishedAt: new Date(),
+      },
+    });
+    return;
+  }
+
+  await db.orderBackfill.update({
+    where: { id: backfillId },
+    data: {
+      status: "IMPORTING",
+      objectCount: Number(op?.objectCount ?? 0),
+      ordersSaved: 0,
+      error: null,
+    },
+  });
+
+  // No url: the query matched nothing
+  const ordersSaved = op?.url
+    ? await importJsonl(shop, op.url, (n) =>
+        db.orderBackfill.update({
+          where: { id: backfillId },
+          data: { ordersSaved: n },
+        }),
+      )
+    : 0;
+
+  await db.orderBackfill.update({
+    where: { id: backfillId },
+    data: { status: "COMPLETED", ordersSaved, finishedAt: new Date() },
+  });
+  // Orders changed while the export ran are picked up by the next reconcile
+  await markOrderCacheFilled(shop, row.startedAt);
+}
+
+/**
+ * =========================
+ * JSONL import
+ * =========================
+ */
+
+type FulfillmentOrderNode = NonNullable<
+  NonNullable<CacheOrderNode["fulfillmentOrders"]>["nodes"]
+>[number];
+
+/**
+ * Children follow their order in the file, so an order is complete (and
+ * saved) as soon as the next order's line shows up.
+ */
+async function importJsonl(
+  shop: string,
+  url: string,
+  onProgress: (saved: number) => Promise<unknown>,
+): Promise<number> {
+  let saved = 0;
+  let order: CacheOrderNode | null = null;
+  const fulfillmentOrders = new Map<string, FulfillmentOrderNode>();
+
+  const flush = async () => {
+    if (!order) return;
+    await saveCachedOrder(shop, order);
+    saved++;
+    if (saved % PROGRESS_EVERY === 0) await onProgress(saved);
+  };
+
+  for await (const row of jsonlRows(url)) {
+    const id = String(row.id || "");
+    const parentId = row.__parentId ? String(row.__parentId) : null;
+
+    if (!parentId) {
+      await flush();
+      order = {
+        ...(row as unknown as CacheOrderNode),
+        fulfillmentOrders: { nodes: [] },
+      };
+      fulfillmentOrders.clear();
+    } else if (id.includes("/FulfillmentOrderLineItem/")) {
+      fulfillmentOrders
+        .get(parentId)
+        ?.lineItems?.nodes?.push(
+          row as unknown as NonNullable<
+            NonNullable<FulfillmentOrderNode["lineItems"]>["nodes"]
+          >[number],
+        );
+    } else if (id.includes("/FulfillmentOrder/") && parentId === order?.id) {
+      const fo: FulfillmentOrderNode = {
+        ...(row as unknown as FulfillmentOrderNode),
+        lineItems: { nodes: [] },
+      };
+      order.fulfillmentOrders?.nodes?.push(fo);
+      fulfillmentOrders.set(id, fo);
+    }
+  }
+  await flush();
+
+  return saved;
+}
+
+async function* jsonlRows(
+  url: string,
+): AsyncGenerator<Record<string, unknown>> {
+  const res = await fetch(url);
+  if (!res.ok || !res.body)
+    throw new Error(`Could not download the bulk result (${res.status})`);
+
+  const reader = res.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffer += value;
+
+    let nl = buffer.indexOf("\n");
+    while (nl >= 0) {
+      const line = buffer.slice(0, nl).trim();
+      buffer = buffer.slice(nl + 1);
+      if (line) yield JSON.parse(line);
+      nl = buffer.indexOf("\n");
+    }
+    if (done) break;
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+/**
+ * =========================
+ * Status
+ * =========================
+ */
+
+export async function listOrderBackfills(
+  shop: string,
+  take = 10,
+): Promise<OrderBackfillView[]> {
+  const rows = await db.orderBackfill.findMany({
+    where: { shop },
+    orderBy: { startedAt: "desc" },
+    take,
+  });
+  return rows.map(toView);
+}
+
+// An import whose server went away: nothing is streaming it any more
+function isStalledImport(row: { id: string; status: string }) {
+  return (
+    row.status === "IMPORTING" && !global.orderBackfillImporting?.has(row.id)
+  );
+}
+
+function toView(row: {
+  id: string;
+  status: string;
+  objectCount: number;
+  ordersSaved: number;
+  error: string | null;
+  startedAt: Date;
+  finishedAt: Date | null;
+}): OrderBackfillView {
+  return {
+    id: row.id,
+    status: row.status as OrderBackfillStatus,
+    objectCount: row.objectCount,
+    ordersSaved: row.ordersSaved,
+    error: row.error,
+    startedAt: row.startedAt.toISOString(),
+    finishedAt: row.finishedAt?.toISOString() ?? null,
+  };
+}
@@ -0,0 +1,763 @@
+// app/lib/order-cache.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import { adminGraphql } from "./admin-graphql.server";
+import { unauthenticated } from "../shopify.server";
+import {
+  EMPTY_ORDER_FILTERS,
+  ORDER_PAGE_SIZE,
+  buildOrdersSearchQuery,
+  type OrderCursor,
+  type OrderFilters,
+} from "./order-filters";
+
+/**
+ * Local copy of the shop's orders, fulfillment orders and their line items,
+ * so the Fulfillment Center list, filters and queue counts come from the
+ * database instead of a live Admin API query on every page load.
+ *
+ * Webhooks (orders/*, fulfillment_orders/*, fulfillments/*) re-read the
+ * affected order from Shopify; a reconcile in the background picks up
+ * anything a webhook missed. Until the first reconcile has finished the
+ * cache is not "ready" and the loader keeps querying Shopify.
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type OrderCacheStatus = {
+  ready: boolean;
+  lastReconciledAt: string | null;
+  reconciling: boolean;
+  error: string | null;
+};
+
+export type CachedOrderListItem = {
+  id: string;
+  name: string;
+  createdAt: string;
+  financialStatus: string | null;
+  fulfillmentStatus: string | null;
+  locationNames: string[];
+};
+
+type PageInfo = { hasNextPage?: boolean; endCursor?: string | null };
+
+export type CacheLineItemNode = {
+  id: string;
+  totalQuantity?: number | null;
+  remainingQuantity?: number | null;
+  lineItem?: {
+    id?: string;
+    title?: string | null;
+    sku?: string | null;
+    variantTitle?: string | null;
+  } | null;
+};
+
+export type CacheFulfillmentOrderNode = {
+  id: string;
+  status?: string | null;
+  assignedLocation?: {
+    name?: string | null;
+    location?: { id?: string | null } | null;
+  } | null;
+  // pageInfo is absent in bulk operation results, which are never cut off
+  lineItems?: { nodes?: CacheLineItemNode[]; pageInfo?: PageInfo };
+};
+
+// Order as read by the cache queries (and the bulk backfill, see order-backfill)
+export type CacheOrderNode = {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  cancelledAt?: string | null;
+  displayFinancialStatus?: string | null;
+  displayFulfillmentStatus?: string | null;
+  tags?: string[];
+  channelInformation?: { channelDefinition?: { handle?: string | null } };
+  fulfillmentOrders?: {
+    nodes?: CacheFulfillmentOrderNode[];
+    pageInfo?: PageInfo;
+  };
+};
+
+// Orders in these states have nothing left to ship
+const DONE_FULFILLMENT_STATUSES = ["FULFILLED", "RESTOCKED"];
+const CLOSED_FO_STATUSES = ["CLOSED", "CANCELLED"];
+
+// A reconcile runs at most this often per shop
+const RECONCILE_INTERVAL_MS = 10 * 60 * 1000;
+// ...and re-reads a little before the last run to cover clock skew
+const RECONCILE_OVERLAP_MS = 5 * 60 * 1000;
+// A reconcile that has not finished after this long is considered dead
+const STALE_RECONCILE_MS = 30 * 60 * 1000;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var orderCacheReconciling: Set<string> | undefined;
+}
+
+/**
+ * =========================
+ * Writes
+ * =========================
+ */
+
+/** Replaces the cached copy of one order with what Shopify returned. */
+export async function saveCachedOrder(shop: string, o: CacheOrderNode) {
+  const data = {
+    shop,
+    name: String(o.name || ""),
+    createdAt: new Date(o.createdAt),
+    financialStatus: o.displayFinancialStatus ?? null,
+    fulfillmentStatus: o.displayFulfillmentStatus || "UNFULFILLED",
+    // Shopify tags are case-insensitive; stored lowercased for the tag filter
+    tags: JSON.stringify((o.tags || []).map((t) => t.toLowerCase())),
+    salesChannel: o.channelInformation?.channelDefinition?.handle ?? null,
+    cancelledAt: o.cancelledAt ? new Date(o.cancelledAt) : null,
+    shopifyUpdatedAt: new Date(o.updatedAt),
+  };
+
+  await db.$transaction([
+    db.cachedOrder.upsert({
+      where: { id: o.id },
+      create: { id: o.id, ...data },
+      update: data,
+    }),
+    db.cachedFulfillmentOrder.deleteMany({ where: { orderId: o.id } }),
+    ...(o.fulfillmentOrders?.nodes || []).map((fo) =>
+      db.cachedFulfillmentOrder.create({
+        data: {
+          id: fo.id,
+          shop,
+          orderId: o.id,
+          status: String(fo.status || "").toUpperCase(),
+          locationId: fo.assignedLocation?.location?.id ?? null,
+          locationName: fo.assignedLocation?.name ?? null,
+          lineItems: {
+            create: (fo.lineItems?.nodes || []).map((li) => ({
+              id: li.id,
+              lineItemId: String(li.lineItem?.id || ""),
+              title: String(li.lineItem?.title || ""),
+              sku: li.lineItem?.sku ?? null,
+              variantTitle: li.lineItem?.variantTitle ?? null,
+              totalQuantity: Number(li.totalQuantity ?? 0),
+              remainingQuantity: Number(li.remainingQuantity ?? 0),
+            })),
+          },
+        },
+      }),
+    ),
+  ]);
+}
+
+/**
+ * Re-reads the orders from Shopify into the cache. Fulfillment order ids are
+ * resolved to their order first. Never throws: a stale cache entry is fixed
+ * by the next webhook or reconcile and must not fail the caller.
+ */
+export async function refreshCachedOrders(
+  admin: AdminApiContext,
+  shop: string,
+  ids: { orderIds?: string[]; fulfillmentOrderIds?: string[] },
+): Promise<void> {
+  try {
+    const orderIds = new Set(ids.orderIds || []);
+    for (const foId of ids.fulfillmentOrderIds || []) {
+      const orderId = await orderIdForFulfillmentOrder(admin, foId);
+      if (orderId) orderIds.add(orderId);
+    }
+
+    for (const orderId of orderIds) {
+      const data: { order: CacheOrderNode | null } = await adminGraphql(
+        admin,
+        `#graphql
+        query CacheOrder($id: ID!) {
+          order(id: $id) {
+            id
+            name
+            createdAt
+            updatedAt
+            cancelledAt
+            displayFinancialStatus
+            displayFulfillmentStatus
+            tags
+            channelInformation {
+              channelDefinition {
+                handle
+              }
+            }
+            fulfillmentOrders(first: 10) {
+              nodes {
+                id
+                status
+                assignedLocation {
+                  name
+                  location {
+                    id
+                  }
+                }
+                lineItems(first: 30) {
+                  nodes {
+                    id
+                    totalQuantity
+                    remainingQuantity
+                    lineItem {
+                      id
+                      title
+                      sku
+                      variantTitle
+                    }
+                  }
+                  pageInfo {
+                    hasNextPage
+                    endCursor
+                  }
+                }
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+            }
+          }
+        }`,
+        { id: orderId },
+      );
+      if (data.order)
+        await saveCachedOrder(shop, await completeOrderNode(admin, data.order));
+      else await db.cachedOrder.deleteMany({ where: { shop, id: orderId } });
+    }
+  } catch (e) {
+    console.error(`Order cache refresh failed for ${shop}:`, e);
+  }
+}
+
+/**
+ * The order with every fulfillment order and line item: the cache queries
+ * read the first page of each connection, the rest is paged in here so a
+ * large order is never cached half-read.
+ */
+async function completeOrderNode(
+  admin: AdminApiContext,
+  order: CacheOrderNode,
+): Promise<CacheOrderNode> {
+  const fos = [...(order.fulfillmentOrders?.nodes || [])];
+  let foPage = order.fulfillmentOrders?.pageInfo;
+  while (foPage?.hasNextPage) {
+    const data: {
+      order: {
+        fulfillmentOrders?: {
+          nodes?: CacheFulfillmentOrderNode[];
+          pageInfo?: PageInfo;
+        };
+      } | null;
+    } = await adminGraphql(
+      admin,
+      `#graphql
+      query CacheOrderFulfillmentOrders($id: ID!, $after: String) {
+        order(id: $id) {
+          fulfillmentOrders(first: 10, after: $after) {
+            nodes {
+              id
+              status
+              assignedLocation {
+                name
+                location {
+                  id
+                }
+              }
+              lineItems(first: 30) {
+                nodes {
+                  id
+                  totalQuantity
+                  remainingQuantity
+                  lineItem {
+                    id
+                    title
+                    sku
+                    variantTitle
+                  }
+                }
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      }`,
+      { id: order.id, after: foPage.endCursor ?? null },
+    );
+    fos.push(...(data.order?.fulfillmentOrders?.nodes || []));
+    foPage = data.order?.fulfillmentOrders?.pageInfo;
+  }
+
+  const complete: CacheFulfillmentOrderNode[] = [];
+  for (const fo of fos) {
+    const items = [...(fo.lineItems?.nodes || [])];
+    let liPage = fo.lineItems?.pageInfo;
+    while (liPage?.hasNextPage) {
+      const data: {
+        fulfillmentOrder: {
+          lineItems?: { nodes?: CacheLineItemNode[]; pageInfo?: PageInfo };
+        } | null;
+      } = await adminGraphql(
+        admin,
+        `#graphql
+        query CacheFulfillmentOrderLineItems($id: ID!, $after: String) {
+          fulfillmentOrder(id: $id) {
+            lineItems(first: 100, after: $after) {
+              nodes {
+                id
+                totalQuantity
+                remainingQuantity
+                lineItem {
+                  id
+                  title
+                  sku
+                  variantTitle
+                }
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+            }
+          }
+        }`,
+        { id: fo.id, after: liPage.endCursor ?? null },
+      );
+      items.push(...(data.fulfillmentOrder?.lineItems?.nodes || []));
+      liPage = data.fulfillmentOrder?.lineItems?.pageInfo;
+    }
+    complete.push({ ...fo, lineItems: { nodes: items } });
+  }
+
+  return { ...order, fulfillmentOrders: { nodes: complete } };
+}
+
+/**
+ * Applies an order / fulfillment order / fulfillment webhook to the cache in
+ * the background, so the webhook is answered before Shopify's timeout no
+ * matter how long the Admin API reads (and their retries) take.
+ */
+export function handleOrderCacheWebhook(
+  admin: AdminApiContext,
+  shop: string,
+  topic: string,
+  payload: unknown,
+): void {
+  applyOrderCacheWebhook(admin, shop, topic, payload).catch((e) =>
+    console.error(`Order cache webhook ${topic} failed for ${shop}:`, e),
+  );
+}
+
+/**
+ * Payloads are REST-shaped and differ per topic, so only the ids are taken
+ * from them and the current state is read back from the Admin API.
+ */
+async function applyOrderCacheWebhook(
+  admin: AdminApiContext,
+  shop: string,
+  topic: string,
+  payload: unknown,
+): Promise<void> {
+  const body = (payload || {}) as Record<string, unknown>;
+  // ORDERS_CREATE / orders/create -> "orders/create"
+  const t = topic.toLowerCase().replace(/_/g, "/");
+
+  if (t === "orders/delete") {
+    await db.cachedOrder.deleteMany({
+      where: { shop, id: `gid://shopify/Order/${body.id}` },
+    });
+    return;
+  }
+
+  if (t.startsWith("orders/")) {
+    const id = String(body.admin_graphql_api_id || "");
+    if (id) await refreshCachedOrders(admin, shop, { orderIds: [id] });
+    return;
+  }
+
+  if (t.startsWith("fulfillments/")) {
+    if (body.order_id)
+      await refreshCachedOrders(admin, shop, {
+        orderIds: [`gid://shopify/Order/${body.order_id}`],
+      });
+    return;
+  }
+
+  // fulfillment_orders/*: every fulfillment order mentioned (moved, split, …)
+  const fulfillmentOrderIds = Array.from(
+    new Set(
+      JSON.stringify(body).match(/gid:\/\/shopify\/FulfillmentOrder\/\d+/g) ||
+        [],
+    ),
+  );
+  if (fulfillmentOrderIds.length)
+    await refreshCachedOrders(admin, shop, { fulfillmentOrderIds });
+}
+
+async function orderIdForFulfillmentOrder(
+  admin: AdminApiContext,
+  fulfillmentOrderId: string,
+): Promise<string | null> {
+  const cached = await db.cachedFulfillmentOrder.findUnique({
+    where: { id: fulfillmentOrderId },
+    select: { orderId: true },
+  });
+  if (cached) return cached.orderId;
+
+  const data: {
+    fulfillmentOrder: { orderId?: string | null } | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query CacheFulfillmentOrderOrder($id: ID!) {
+      fulfillmentOrder(id: $id) {
+        orderId
+      }
+    }`,
+    { id: fulfillmentOrderId },
+  );
+  return data.fulfillmentOrder?.orderId ?? null;
+}
+
+/**
+ * =========================
+ * Reconcile
+ * =========================
+ */
+
+/**
+ * Starts a background reconcile for the shop when the last one is older
+ * than RECONCILE_INTERVAL_MS. Safe to call on every page load.
+ */
+export async function kickOrderCacheReconcile(
+  shop: string,
+  opts: { force?: boolean } = {},
+): Promise<void> {
+  global.orderCacheReconciling ??= new Set();
+  if (global.orderCacheReconciling.has(shop)) return;
+
+  const state = await db.orderCacheState.findUnique({ where: { shop } });
+  const last = state?.lastReconciledAt?.getTime() ?? 0;
+  if (!opts.force && Date.now() - last < RECONCILE_INTERVAL_MS) return;
+
+  global.orderCacheReconciling.add(shop);
+  unauthenticated
+    .admin(shop)
+    .then(({ admin }) => reconcileOrderCache(admin, shop))
+    .catch((e) => console.error(`Order cache reconcile failed for ${shop}:`, e))
+    .finally(() => global.orderCacheReconciling?.delete(shop));
+}
+
+/**
+ * First run: every open order. Later runs: every order updated since the
+ * previous run, so orders that got fulfilled elsewhere leave the queue too.
+ */
+export async function reconcileOrderCache(
+  admin: AdminApiContext,
+  shop: string,
+): Promise<void> {
+  const startedAt = new Date();
+  const state = await db.orderCacheState.upsert({
+    where: { shop },
+    create: { shop, reconcileStartedAt: startedAt },
+    update: { reconcileStartedAt: startedAt, error: null },
+  });
+
+  const q = state.lastReconciledAt
+    ? `updated_at:>='${new Date(
+        state.lastReconciledAt.getTime() - RECONCILE_OVERLAP_MS,
+      ).toISOString()}'`
+    : buildOrdersSearchQuery(EMPTY_ORDER_FILTERS);
+
+  try {
+    let after: string | null = null;
+    for (;;) {
+      const page = await fetchOrdersPage(admin, q, after);
+      for (const order of page.nodes)
+        await saveCachedOrder(shop, await completeOrderNode(admin, order));
+
+      if (!page.hasNextPage) break;
+      after = page.endCursor;
+    }
+
+    await db.orderCacheState.update({
+      where: { shop },
+      data: { lastReconciledAt: startedAt, reconcileStartedAt: null },
+    });
+  } catch (e) {
+    await db.orderCacheState.update({
+      where: { shop },
+      data: {
+        reconcileStartedAt: null,
+        error: e instanceof Error ? e.message : String(e),
+      },
+    });
+    throw e;
+  }
+}
+
+/**
+ * Marks the cache as filled up to `at` (a finished bulk backfill), so the
+ * next reconcile only reads orders updated since then.
+ */
+export async function markOrderCacheFilled(shop: string, at: Date) {
+  const state = await db.orderCacheState.findUnique({ where: { shop } });
+  if (state?.lastReconciledAt && state.lastReconciledAt >= at) return;
+  await db.orderCacheState.upsert({
+    where: { shop },
+    create: { shop, lastReconciledAt: at },
+    update: { lastReconciledAt: at, error: null },
+  });
+}
+
+async function fetchOrdersPage(
+  admin: AdminApiContext,
+  q: string,
+  after: string | null,
+): Promise<{
+  nodes: CacheOrderNode[];
+  hasNextPage: boolean;
+  endCursor: string | null;
+}> {
+  const data: {
+    orders: {
+      nodes?: CacheOrderNode[];
+      pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+    } | null;
+  } = await adminGraphql(
+    admin,
+    `#graphql
+    query ReconcileOrders($q: String!, $after: String) {
+      orders(first: 25, after: $after, query: $q) {
+        nodes {
+          id
+          name
+          createdAt
+          updatedAt
+          cancelledAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          tags
+          channelInformation {
+            channelDefinition {
+              handle
+            }
+          }
+          fulfillmentOrders(first: 10) {
+            nodes {
+              id
+              status
+              assignedLocation {
+                name
+                location {
+                  id
+                }
+              }
+              lineItems(first: 30) {
+                nodes {
+                  id
+                  totalQuantity
+                  remainingQuantity
+                  lineItem {
+                    id
+                    title
+                    sku
+                    variantTitle
+                  }
+                }
+                pageInfo {
+                  hasNextPage
+                  endCursor
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+      }
+    }`,
+    { q, after },
+  );
+  const orders = data.orders;
+  return {
+    nodes: orders?.nodes || [],
+    hasNextPage: Boolean(orders?.pageInfo?.hasNextPage),
+    endCursor: orders?.pageInfo?.endCursor ?? null,
+  };
+}
+
+export async function getOrderCacheStatus(
+  shop: string,
+): Promise<OrderCacheStatus> {
+  const state = await db.orderCacheState.findUnique({ where: { shop } });
+  const started = state?.reconcileStartedAt?.getTime() ?? 0;
+  return {
+    ready: Boolean(state?.lastReconciledAt),
+    lastReconciledAt: state?.lastReconciledAt?.toISOString() ?? null,
+    reconciling: Boolean(started && Date.now() - started < STALE_RECONCILE_MS),
+    error: state?.error ?? null,
+  };
+}
+
+export async function countCachedOrders(shop: string): Promise<number> {
+  return db.cachedOrder.count({ where: { shop } });
+}
+
+/**
+ * =========================
+ * Reads (Fulfillment Center list)
+ * =========================
+ */
+
+function openOrdersWhere(
+  shop: string,
+  filters: OrderFilters,
+): Prisma.CachedOrderWhereInput {
+  const where: Prisma.CachedOrderWhereInput = {
+    shop,
+    cancelledAt: null,
+    fulfillmentStatus: { notIn: DONE_FULFILLMENT_STATUSES },
+  };
+  const and: Prisma.CachedOrderWhereInput[] = [];
+
+  if (filters.q) and.push({ name: { contains: filters.q } });
+  if (filters.from)
+    and.push({ createdAt: { gte: new Date(`${filters.from}T00:00:00Z`) } });
+  if (filters.to)
+    and.push({ createdAt: { lte: new Date(`${filters.to}T23:59:59.999Z`) } });
+  if (filters.financial)
+    and.push({ financialStatus: filters.financial.toUpperCase() });
+  if (filters.tag)
+    and.push({
+      tags: { contains: JSON.stringify(filters.tag.trim().toLowerCase()) },
+    });
+  if (filters.channel) and.push({ salesChannel: filters.channel });
+  if (filters.location)
+    and.push({
+      fulfillmentOrders: {
+        some: {
+          locationId: filters.location,
+          status: { notIn: CLOSED_FO_STATUSES },
+        },
+      },
+    });
+
+  return and.length ? { ...where, AND: and } : where;
+}
+
+/** Same page shape as the live `orders` query; cursors are order ids. */
+export async function listCachedOrders(
+  shop: string,
+  filters: OrderFilters,
+  cursor: OrderCursor,
+): Promise<{
+  orders: CachedOrderListItem[];
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+}> {
+  // Cursors from a live query (before the cache was ready) mean nothing here
+  const isId = (c?: string) => Boolean(c && c.startsWith("gid://"));
+  const after = isId(cursor.after) ? cursor.after : undefined;
+  const before = !after && isId(cursor.before) ? cursor.before : undefined;
+
+  const dir = before ? "asc" : "desc";
+  const rows = await db.cachedOrder.findMany({
+    where: openOrdersWhere(shop, filters),
+    orderBy: [{ createdAt: dir }, { id: dir }],
+    take: ORDER_PAGE_SIZE + 1,
+    ...(after || before ? { cursor: { id: (after || before)! }, skip: 1 } : {}),
+    include: {
+      fulfillmentOrders: {
+        where: { status: { notIn: CLOSED_FO_STATUSES } },
+        select: { locationName: true },
+      },
+    },
+  });
+
+  const more = rows.length > ORDER_PAGE_SIZE;
+  const page = rows.slice(0, ORDER_PAGE_SIZE);
+  if (before) page.reverse();
+
+  const orders = page.map((o) => ({
+    id: o.id,
+    name: o.name,
+    createdAt: o.createdAt.toISOString(),
+    financialStatus: o.financialStatus,
+    fulfillmentStatus: o.fulfillmentStatus,
+    locationNames: Array.from(
+      new Set(
+        o.fulfillmentOrders.map((fo) => fo.locationName || "").filter(Boolean),
+      ),
+    ),
+  }));
+
+  return {
+    orders,
+    pageInfo: {
+      hasNextPage: before ? true : more,
+      hasPreviousPage: before ? more : Boolean(after),
+      startCursor: orders[0]?.id ?? null,
+      endCursor: orders[orders.length - 1]?.id ?? null,
+    },
+  };
+}
+
+/** Cached counterpart of countOpenOrdersByLocation. */
+export async function countCachedOpenOrdersByLocation(
+  shop: string,
+  locationIds: string[],
+): Promise<{ all: number; byLocation: Record<string, number> }> {
+  const all = await db.cachedOrder.count({
+    where: openOrdersWhere(shop, EMPTY_ORDER_FILTERS),
+  });
+
+  // One row per (location, order) pair, so an order with several open
+  // fulfillment orders at a location counts once there
+  const pairs = await db.cachedFulfillmentOrder.groupBy({
+    by: ["locationId", "orderId"],
+    where: {
+      shop,
+      locationId: { in: locationIds },
+      status: { notIn: CLOSED_FO_STATUSES },
+      order: {
+        cancelledAt: null,
+        fulfillmentStatus: { notIn: DONE_FULFILLMENT_STATUSES },
+      },
+    },
+  });
+
+  const byLocation: Record<string, number> = Object.fromEntries(
+    locationIds.map((id) => [id, 0]),
+  );
+  for (const p of pairs)
+    if (p.locationId)
+      byLocation[p.locationId] = (byLocation[p.locationId] ?? 0) + 1;
+  return { all, byLocation };
+}
@@ -0,0 +1,118 @@
+// app/lib/order-filters.ts
+
+/**
+ * Order list filters for the Fulfillment Center. They live in the URL search
+ * params so a filtered view can be bookmarked or shared, and are turned into
+ * an Admin API `orders(query:)` search string on the server.
+ */
+
+export const ORDER_PAGE_SIZE = 50;
+
+export const FINANCIAL_STATUSES = [
+  "paid",
+  "pending",
+  "authorized",
+  "partially_paid",
+  "partially_refunded",
+  "refunded",
+  "voided",
+] as const;
+
+export type OrderFilters = {
+  q: string; // order name search
+  from: string; // created_at lower bound, YYYY-MM-DD
+  to: string; // created_at upper bound, YYYY-MM-DD
+  financial: string;
+  tag: string;
+  channel: string; // sales channel handle, e.g. online_store / pos
+  location: string; // Location gid
+};
+
+export type OrderCursor = { after?: string; before?: string };
+
+const FILTER_KEYS: Array<keyof OrderFilters> = [
+  "q",
+  "from",
+  "to",
+  "financial",
+  "tag",
+  "channel",
+  "location",
+];
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const EMPTY_ORDER_FILTERS: OrderFilters = {
+  q: "",
+  from: "",
+  to: "",
+  financial: "",
+  tag: "",
+  channel: "",
+  location: "",
+};
+
+export function parseOrderFilters(params: URLSearchParams): {
+  filters: OrderFilters;
+  cursor: OrderCursor;
+} {
+  const filters = { ...EMPTY_ORDER_FILTERS };
+  for (const k of FILTER_KEYS) filters[k] = (params.get(k) || "").trim();
+
+  if (!DATE_RE.test(filters.from)) filters.from = "";
+  if (!DATE_RE.test(filters.to)) filters.to = "";
+  if (!(FINANCIAL_STATUSES as readonly string[]).includes(filters.financial))
+    filters.financial = "";
+
+  const after = params.get("after") || undefined;
+  const before = after ? undefined : params.get("before") || undefined;
+  return { filters, cursor: { after, before } };
+}
+
+/**
+ * Filters + cursor as search params; empty filters are left out so URLs stay
+ * short.
+ */
+export function orderFiltersToParams(
+  filters: OrderFilters,
+  cursor: OrderCursor = {},
+): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const k of FILTER_KEYS) if (filters[k]) params.set(k, filters[k]);
+  if (cursor.after) params.set("after", cursor.after);
+  else if (cursor.before) params.set("before", cursor.before);
+  return params;
+}
+
+export function hasOrderFilters(filters: OrderFilters): boolean {
+  return FILTER_KEYS.some((k) => Boolean(filters[k]));
+}
+
+/**
+ * Only open (unfulfilled / partially fulfilled) orders are listed; every
+ * filter narrows that further.
+ */
+export function buildOrdersSearchQuery(filters: OrderFilters): string {
+  const parts = [
+    "(fulfillment_status:unfulfilled OR fulfillment_status:partial)",
+  ];
+
+  if (filters.q) parts.push(`name:${searchValue(filters.q)}`);
+  if (filters.from) parts.push(`created_at:>=${filters.from}`);
+  if (filters.to) parts.push(`created_at:<=${filters.to}T23:59:59`);
+  if (filters.financial) parts.push(`financial_status:${filters.financial}`);
+  if (filters.tag) parts.push(`tag:${searchValue(filters.tag)}`);
+  if (filters.channel)
+    parts.push(`sales_channel:${searchValue(filters.channel)}`);
+  if (filters.location) {
+    const id = filters.location.split("/").pop() || "";
+    if (/^\d+$/.test(id)) parts.push(`fulfillment_location_id:${id}`);
+  }
+
+  return parts.join(" AND ");
+}
+
+// Quote values with spaces or search syntax characters
+export function searchValue(v: string): string {
+  return /^[\w#.@-]+$/.test(v) ? v : `"${v.replace(/["\\]/g, "\\$&")}"`;
+}
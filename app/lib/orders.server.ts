@@ -0,0 +1,354 @@
+// app/lib/orders.server.ts
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { adminGraphql } from "./admin-graphql.server";
+import {
+  toExistingFulfillment,
+  type ExistingFulfillment,
+  type FulfillmentNode,
+} from "./fulfillment-corrections.server";
+import { ORDER_PAGE_SIZE, type OrderCursor } from "./order-filters";
+
+/**
+ * The order list and order detail reads of the Fulfillment Center, straight
+ * from Shopify. The response shapes below are written by hand; nothing
+ * checks them against the schema until app/types is generated (see
+ * admin-graphql.server.ts).
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type OrderListItem = {
+  id: string;
+  name: string;
+  createdAt?: string | null;
+  financialStatus: string | null;
+  fulfillmentStatus: string | null;
+  // where the open fulfillment orders are assigned
+  locationNames: string[];
+};
+
+export type OrderListPage = {
+  // null when the list is served from the order cache instead
+  orders: OrderListItem[] | null;
+  pageInfo: {
+    hasNextPage: boolean;
+    hasPreviousPage: boolean;
+    startCursor: string | null;
+    endCursor: string | null;
+  };
+  locations: Array<{ id: string; name: string }>;
+};
+
+export type OrderDetailsFulfillmentOrder = {
+  id: string;
+  status: string | null;
+  requestStatus: string | null;
+  assignedLocationName: string | null;
+  assignedLocationId: string | null;
+  canMove: boolean;
+  holds: Array<{ reason: string; reasonNotes: string | null }>;
+  lineItems: Array<{
+    id: string; // fulfillmentOrderLineItem id
+    remainingQuantity: number;
+    totalQuantity: number;
+    title: string;
+    sku: string | null;
+    variantTitle: string | null;
+    lineItemId?: string;
+  }>;
+};
+
+export type OrderDetails = {
+  order: {
+    id: string;
+    name: string;
+    financialStatus: string | null;
+    fulfillmentStatus: string | null;
+  };
+  // fulfillments already created, newest last
+  fulfillments: ExistingFulfillment[];
+  fulfillmentOrders: OrderDetailsFulfillmentOrder[];
+};
+
+// ListOrders / OrderDetails responses, as selected below
+type ListOrdersData = {
+  orders?: {
+    nodes?: Array<{
+      id: string;
+      name?: string | null;
+      createdAt?: string | null;
+      displayFinancialStatus?: string | null;
+      displayFulfillmentStatus?: string | null;
+      fulfillmentOrders?: {
+        nodes?: Array<{
+          status?: string | null;
+          assignedLocation?: { name?: string | null } | null;
+        }>;
+      };
+    }>;
+    pageInfo?: {
+      hasNextPage?: boolean;
+      hasPreviousPage?: boolean;
+      startCursor?: string | null;
+      endCursor?: string | null;
+    };
+  } | null;
+  locations?: { nodes?: Array<{ id: string; name?: string | null }> };
+};
+
+type OrderDetailsData = {
+  order: {
+    id: string;
+    name?: string | null;
+    displayFinancialStatus?: string | null;
+    displayFulfillmentStatus?: string | null;
+    fulfillments?: FulfillmentNode[];
+    fulfillmentOrders?: {
+      nodes?: Array<{
+        id: string;
+        status?: string | null;
+        requestStatus?: string | null;
+        assignedLocation?: {
+          name?: string | null;
+          location?: { id?: string | null } | null;
+        } | null;
+        supportedActions?: Array<{ action?: string | null }>;
+        fulfillmentHolds?: Array<{
+          reason?: string | null;
+          reasonNotes?: string | null;
+        }>;
+        lineItems?: {
+          edges?: Array<{
+            node?: {
+              id: string;
+              remainingQuantity?: number | null;
+              totalQuantity?: number | null;
+              lineItem?: {
+                id?: string | null;
+                title?: string | null;
+                sku?: string | null;
+                variantTitle?: string | null;
+              } | null;
+            } | null;
+          }>;
+        };
+      }>;
+    };
+  } | null;
+};
+
+/**
+ * =========================
+ * Queries
+ * =========================
+ */
+
+/**
+ * One page of orders matching the search query, plus the shop's locations.
+ * With `fromCache` only the locations are read; the caller lists orders from
+ * the order cache.
+ */
+export async function listOrders(
+  admin: AdminApiContext,
+  args: { q: string; cursor: OrderCursor; fromCache: boolean },
+): Promise<OrderListPage> {
+  // before -> last page of results ending at the cursor
+  const page = args.cursor.before
+    ? { last: ORDER_PAGE_SIZE, before: args.cursor.before }
+    : { first: ORDER_PAGE_SIZE, after: args.cursor.after ?? null };
+
+  const data: ListOrdersData = await adminGraphql(
+    admin,
+    `#graphql
+    query ListOrders(
+      $q: String!
+      $first: Int
+      $after: String
+      $last: Int
+      $before: String
+      $fromCache: Boolean!
+    ) {
+      orders(
+        first: $first
+        after: $after
+        last: $last
+        before: $before
+        query: $q
+        sortKey: CREATED_AT
+        reverse: true
+      ) @skip(if: $fromCache) {
+        nodes {
+          id
+          name
+          createdAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          fulfillmentOrders(first: 10) {
+            nodes {
+              status
+              assignedLocation {
+                name
+              }
+            }
+          }
+        }
+        pageInfo {
+          hasNextPage
+          hasPreviousPage
+          startCursor
+          endCursor
+        }
+      }
+      locations(first: 100) {
+        nodes {
+          id
+          name
+        }
+      }
+    }`,
+    { q: args.q, ...page, fromCache: args.fromCache },
+  );
+
+  const pageInfo = data.orders?.pageInfo || {};
+  return {
+    orders: data.orders
+      ? (data.orders.nodes || []).map((o) => ({
+          id: String(o.id),
+          name: String(o.name || ""),
+          createdAt: o.createdAt ?? null,
+          financialStatus: o.displayFinancialStatus ?? null,
+          fulfillmentStatus: o.displayFulfillmentStatus ?? null,
+          locationNames: Array.from(
+            new Set(
+              (o.fulfillmentOrders?.nodes || [])
+                .filter(
+                  (fo) => fo.status !== "CLOSED" && fo.status !== "CANCELLED",
+                )
+                .map((fo) => fo.assignedLocation?.name || "")
+                .filter(Boolean),
+            ),
+          ),
+        }))
+      : null,
+    pageInfo: {
+      hasNextPage: Boolean(pageInfo.hasNextPage),
+      hasPreviousPage: Boolean(pageInfo.hasPreviousPage),
+      startCursor: pageInfo.startCursor ?? null,
+      endCursor: pageInfo.endCursor ?? null,
+    },
+    locations: (data.locations?.nodes || []).map((l) => ({
+      id: String(l.id),
+      name: String(l.name || l.id),
+    })),
+  };
+}
+
+/** null when the order does not exist (or is not accessible). */
+export async function getOrderDetails(
+  admin: AdminApiContext,
+  orderId: string,
+): Promise<OrderDetails | null> {
+  const data: OrderDetailsData = await adminGraphql(
+    admin,
+    `#graphql
+    query OrderDetails($id: ID!) {
+      order(id: $id) {
+        id
+        name
+        displayFinancialStatus
+        displayFulfillmentStatus
+        fulfillments(first: 50) {
+          id
+          name
+          status
+          createdAt
+          trackingInfo(first: 10) {
+            number
+            company
+            url
+          }
+        }
+        fulfillmentOrders(first: 50) {
+          nodes {
+            id
+            status
+            requestStatus
+            assignedLocation {
+              name
+              location {
+                id
+              }
+            }
+            supportedActions {
+              action
+            }
+            fulfillmentHolds {
+              reason
+              reasonNotes
+            }
+            lineItems(first: 100) {
+              edges {
+                node {
+                  id
+                  remainingQuantity
+                  totalQuantity
+                  lineItem {
+                    id
+                    title
+                    sku
+                    variantTitle
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }`,
+    { id: orderId },
+  );
+
+  const order = data.order;
+  if (!order?.id) return null;
+
+  return {
+    order: {
+      id: String(order.id),
+      name: String(order.name),
+      financialStatus: order.displayFinancialStatus ?? null,
+      fulfillmentStatus: order.displayFulfillmentStatus ?? null,
+    },
+    fulfillments: (order.fulfillments || []).map(toExistingFulfillment),
+    fulfillmentOrders: (order.fulfillmentOrders?.nodes || []).map((fo) => ({
+      id: String(fo.id),
+      status: fo.status ?? null,
+      requestStatus: fo.requestStatus ?? null,
+      assignedLocationName: fo.assignedLocation?.name ?? null,
+      assignedLocationId: fo.assignedLocation?.location?.id ?? null,
+      canMove: (fo.supportedActions || []).some((a) => a?.action === "MOVE"),
+      holds: (fo.fulfillmentHolds || []).map((h) => ({
+        reason: String(h?.reason || ""),
+        reasonNotes: h?.reasonNotes ?? null,
+      })),
+      lineItems: (fo.lineItems?.edges || [])
+        .map((e) => e?.node)
+        .filter((li) => li != null)
+        .map((li) => {
+          const vt = li?.lineItem?.variantTitle ?? null;
+          return {
+            id: String(li.id),
+            remainingQuantity: Number(li.remainingQuantity ?? 0),
+            totalQuantity: Number(li.totalQuantity ?? 0),
+            title: String(li?.lineItem?.title || ""),
+            sku: li?.lineItem?.sku ?? null,
+            variantTitle: vt ? vt : null,
+            lineItemId: String(li?.lineItem?.id || ""),
+          };
+        }),
+    })),
+  };
+}
@@ -0,0 +1,700 @@
+// app/lib/outbound-webhooks.server.ts
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import http from "node:http";
+import https from "node:https";
+import type { Prisma } from "@prisma/client";
+import db from "../db.server";
+import type {
+  LineItemsByFulfillmentOrder,
+  TrackingInfoInput,
+} from "./fulfillments.server";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_HEADERS,
+  WEBHOOK_PING_EVENT,
+  isWebhookEventType,
+  type WebhookDeliveryStatus,
+  type WebhookEventType,
+} from "./outbound-webhooks";
+import {
+  checkPublicHost,
+  isDevAllowedHost,
+  publicLookup,
+} from "./network.server";
+
+/**
+ * Outbound webhooks: the merchant registers endpoints (their ERP, WMS…) and
+ * every fulfillment the app creates, and every CSV sync that completes or
+ * fails, is POSTed to them as a signed JSON event:
+ *
+ *   { "id": "evt_…", "type": "fulfillment.created", "created_at": "…",
+ *     "shop": "…", "data": { … } }
+ *
+ * emitWebhookEvent stores one WebhookDelivery per subscribed endpoint and
+ * the in-process deliverer sends it. Failed attempts (non-2xx, timeout,
+ * network error) are retried with exponential backoff; after
+ * MAX_WEBHOOK_ATTEMPTS the delivery is dead and waits on the dead-letter
+ * list for a manual retry. A scheduler started from entry.server.tsx picks
+ * up retries that come due.
+ *
+ * Endpoints must be https URLs on public addresses, checked when saved and
+ * again on every attempt (network.server.ts), unless DEV_ALLOWED_HOSTS lets
+ * a local receiver through during development. Only the response status is
+ * kept; whatever the receiver answers is never stored or shown.
+ */
+
+/**
+ * =========================
+ * Types
+ * =========================
+ */
+
+export type WebhookEndpointView = {
+  id: string;
+  url: string;
+  description: string | null;
+  // empty: every event type
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: string;
+};
+
+export type WebhookEndpointInput = {
+  id?: string;
+  url: string;
+  description: string;
+  events: string[];
+  enabled: boolean;
+};
+
+export type WebhookDeliveryView = {
+  id: string;
+  endpointId: string;
+  endpointUrl: string;
+  eventId: string;
+  eventType: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  payload: string; // pretty-printed JSON
+};
+
+const SECRET_PREFIX = "whsec_";
+// Wait before attempt n + 1 is BACKOFF_BASE_MS * 2^(n - 1), at most BACKOFF_MAX_MS
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+// A claimed delivery is retried after this if its worker died mid-attempt
+const CLAIM_LEASE_MS = 2 * 60 * 1000;
+// Deliveries sent side by side
+const DELIVERIES_PER_ROUND = 5;
+const SCHEDULER_TICK_MS = 30 * 1000;
+
+declare global {
+  // eslint-disable-next-line no-var
+  var webhookDeliveryScheduler: ReturnType<typeof setInterval> | undefined;
+  // eslint-disable-next-line no-var
+  var webhookDeliveryRunning: boolean | undefined;
+}
+
+/**
+ * =========================
+ * Endpoints
+ * =========================
+ */
+
+export async function listWebhookEndpoints(
+  shop: string,
+): Promise<WebhookEndpointView[]> {
+  const rows = await db.webhookEndpoint.findMany({
+    where: { shop },
+    orderBy: { createdAt: "asc" },
+  });
+  return rows.map(toEndpointView);
+}
+
+/**
+ * Creates the endpoint, or updates it when `id` is given. A new endpoint
+ * gets a signing secret, returned only here and by rotateWebhookSecret.
+ */
+export async function saveWebhookEndpoint(
+  shop: string,
+  input: WebhookEndpointInput,
+): Promise<
+  | { ok: true; endpoint: WebhookEndpointView; secret: string | null }
+  | { ok: false; error: string }
+> {
+  const existing = input.id
+    ? await db.webhookEndpoint.findFirst({ where: { id: input.id, shop } })
+    : null;
+  if (input.id && !existing)
+    return { ok: false, error: "Webhook endpoint not found." };
+
+  const url = input.url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return {
+      ok: false,
+      error: "Enter a full URL, e.g. https://erp.example.com/hooks.",
+    };
+  }
+  const urlError = await checkEndpointUrl(parsed);
+  if (urlError) return { ok: false, error: urlError };
+
+  const events = Array.from(new Set(input.events));
+  const unknown = events.find((e) => !isWebhookEventType(e));
+  if (unknown) return { ok: false, error: `Unknown event type: ${unknown}` };
+
+  const data = {
+    url,
+    description: input.description.trim() || null,
+    events: JSON.stringify(events),
+    enabled: input.enabled,
+  };
+  if (existing) {
+    const row = await db.webhookEndpoint.update({
+      where: { id: existing.id },
+      data,
+    });
+    return { ok: true, endpoint: toEndpointView(row), secret: null };
+  }
+
+  const secret = newSecret();
+  const row = await db.webhookEndpoint.create({
+    data: { shop, ...data, secret },
+  });
+  return { ok: true, endpoint: toEndpointView(row), secret };
+}
+
+/** A new secret for the endpoint; deliveries are signed with it from now on. */
+export async function rotateWebhookSecret(
+  shop: string,
+  id: string,
+): Promise<string | null> {
+  const secret = newSecret();
+  const { count } = await db.webhookEndpoint.updateMany({
+    where: { id, shop },
+    data: { secret },
+  });
+  return count ? secret : null;
+}
+
+/** Deletes the endpoint together with its delivery log. */
+export async function deleteWebhookEndpoint(
+  shop: string,
+  id: string,
+): Promise<boolean> {
+  const { count } = await db.webhookEndpoint.deleteMany({
+    where: { id, shop },
+  });
+  return count > 0;
+}
+
+/**
+ * =========================
+ * Events
+ * =========================
+ */
+
+/**
+ * Queues `type` for every enabled endpoint of the shop subscribed to it.
+ * Never throws: the event has already happened, so a failure to queue it
+ * is logged rather than failing the action that caused it.
+ */
+export async function emitWebhookEvent(
+  shop: string,
+  type: WebhookEventType,
+  data: Record<string, unknown>,
+): Promise<void> {
+  try {
+    const endpoints = await db.webhookEndpoint.findMany({
+      where: { shop, enabled: true },
+      select: { id: true, events: true },
+    });
+    const subscribed = endpoints.filter((e) => {
+      const events = JSON.parse(e.events) as string[];
+      return !events.length || events.includes(type);
+    });
+    if (!subscribed.length) return;
+
+    await queueEvent(
+      shop,
+      type,
+      data,
+      subscribed.map((e) => e.id),
+    );
+  } catch (err) {
+    console.error(`Could not queue webhook event ${type} for ${shop}:`, err);
+  }
+}
+
+/**
+ * fulfillment.created for a fulfillment the app just created. `source` is
+ * the audit intent behind it (create_fulfillments_grouped, batch_orders,
+ * csv_sync_fulfill or api_fulfill). A missing order name is looked up in
+ * the order cache.
+ */
+export async function emitFulfillmentCreated(
+  shop: string,
+  f: {
+    source: string;
+    orderId: string | null;
+    orderName: string | null;
+    fulfillmentId: string;
+    status: string | null;
+    jobId?: string | null;
+    input: {
+      notifyCustomer: boolean;
+      trackingInfo: TrackingInfoInput | undefined;
+      lineItemsByFulfillmentOrder: LineItemsByFulfillmentOrder;
+    };
+  },
+): Promise<void> {
+  const tracking = f.input.trackingInfo;
+  const orderName =
+    f.orderName ?? (f.orderId ? await cachedOrderName(shop, f.orderId) : null);
+
+  await emitWebhookEvent(shop, "fulfillment.created", {
+    fulfillment_id: f.fulfillmentId,
+    status: f.status,
+    order_id: f.orderId,
+    order_name: orderName,
+    source: f.source,
+    csv_sync_job_id: f.jobId ?? null,
+    notify_customer: f.input.notifyCustomer,
+    tracking: tracking
+      ? {
+          number: tracking.number,
+          company: tracking.company ?? null,
+          url: tracking.url ?? null,
+        }
+      : null,
+    line_items: f.input.lineItemsByFulfillmentOrder.flatMap((fo) =>
+      fo.fulfillmentOrderLineItems.map((li) => ({
+        fulfillment_order_id: fo.fulfillmentOrderId,
+        fulfillment_order_line_item_id: li.id,
+        quantity: li.quantity,
+      })),
+    ),
+  });
+}
+
+async function cachedOrderName(shop: string, orderId: string) {
+  const order = await db.cachedOrder
+    .findFirst({ where: { shop, id: orderId }, select: { name: true } })
+    .catch(() => null);
+  return order?.name ?? null;
+}
+
+/** Queues a ping to one endpoint, whether or not it is enabled. */
+export async function sendTestWebhook(
+  shop: string,
+  endpointId: string,
+): Promise<boolean> {
+  const endpoint = await db.webhookEndpoint.findFirst({
+    where: { id: endpointId, shop },
+    select: { id: true },
+  });
+  if (!endpoint) return false;
+
+  await queueEvent(
+    shop,
+    WEBHOOK_PING_EVENT,
+    { message: "Test event from the Fulfillment Center" },
+    [endpoint.id],
+    { force: true },
+  );
+  return true;
+}
+
+async function queueEvent(
+  shop: string,
+  type: string,
+  data: Record<string, unknown>,
+  endpointIds: string[],
+  opts: { force?: boolean } = {},
+) {
+  const eventId = `evt_${randomUUID().replace(/-/g, "")}`;
+  const payload = JSON.stringify({
+    id: eventId,
+    type,
+    created_at: new Date().toISOString(),
+    shop,
+    data,
+  });
+
+  const now = new Date();
+  await db.webhookDelivery.createMany({
+    data: endpointIds.map((endpointId) => ({
+      endpointId,
+      shop,
+      eventId,
+      eventType: type,
+      payload,
+      status: "pending",
+      nextAttemptAt: now,
+    })),
+  });
+  kickWebhookDelivery(opts.force ? endpointIds : []);
+}
+
+/**
+ * The signature header value for a delivery: HMAC-SHA256 over
+ * `<timestamp>.<body>`, so a captured request can't be replayed later
+ * with a new timestamp.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const hmac = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `sha256=${hmac}`;
+}
+
+/**
+ * =========================
+ * Delivery log
+ * =========================
+ */
+
+export async function listWebhookDeliveries(
+  shop: string,
+  filters: { status: WebhookDeliveryStatus | null; endpointId: string | null },
+  opts: { page: number; pageSize: number },
+): Promise<{ deliveries: WebhookDeliveryView[]; hasNext: boolean }> {
+  const where: Prisma.WebhookDeliveryWhereInput = { shop };
+  if (filters.status) where.status = filters.status;
+  if (filters.endpointId) where.endpointId = filters.endpointId;
+
+  const rows = await db.webhookDelivery.findMany({
+    where,
+    include: { endpoint: { select: { url: true } } },
+    orderBy: { createdAt: "desc" },
+    skip: (opts.page - 1) * opts.pageSize,
+    take: opts.pageSize + 1,
+  });
+
+  return {
+    deliveries: rows.slice(0, opts.pageSize).map(toDeliveryView),
+    hasNext: rows.length > opts.pageSize,
+  };
+}
+
+export async function countDeadWebhookDeliveries(
+  shop: string,
+): Promise<number> {
+  return db.webhookDelivery.count({ where: { shop, status: "dead" } });
+}
+
+/**
+ * Sends a delivery again from the first attempt, whatever its status. The
+ * body is resent as is, so the receiver sees the same event id.
+ */
+export async function redeliverWebhook(
+  shop: string,
+  id: string,
+): Promise<boolean> {
+  const row = await db.webhookDelivery.findFirst({
+    where: { id, shop },
+    select: { endpointId: true },
+  });
+  if (!row) return false;
+
+  await db.webhookDelivery.update({
+    where: { id },
+    data: {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      deliveredAt: null,
+    },
+  });
+  kickWebhookDelivery([row.endpointId]);
+  return true;
+}
+
+/** Puts every dead delivery of the shop back in the queue. */
+export async function redeliverDeadWebhooks(shop: string): Promise<number> {
+  const { count } = await db.webhookDelivery.updateMany({
+    where: { shop, status: "dead" },
+    data: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+  });
+  if (count) kickWebhookDelivery();
+  return count;
+}
+
+/**
+ * =========================
+ * Deliverer
+ * =========================
+ */
+
+/** Starts the check for retries that came due. Safe to call repeatedly. */
+export function startWebhookDeliveryScheduler() {
+  if (global.webhookDeliveryScheduler) return;
+  global.webhookDeliveryScheduler = setInterval(
+    () => kickWebhookDelivery(),
+    SCHEDULER_TICK_MS,
+  );
+  // don't keep the process alive just for the timer
+  global.webhookDeliveryScheduler.unref?.();
+}
+
+/**
+ * Sends due deliveries in the background unless that is already running.
+ * Deliveries to disabled endpoints wait until the endpoint is enabled again,
+ * except for those to `forceEndpointIds` (test events, manual retries).
+ */
+export function kickWebhookDelivery(forceEndpointIds: string[] = []) {
+  if (global.webhookDeliveryRunning) {
+    // the running drain only sees enabled endpoints; send forced ones now
+    if (forceEndpointIds.length)
+      drainDeliveries(forceEndpointIds).catch((e) =>
+        console.error("Webhook delivery failed:", e),
+      );
+    return;
+  }
+  global.webhookDeliveryRunning = true;
+
+  drainDeliveries(forceEndpointIds)
+    .catch((e) => console.error("Webhook deliverer crashed:", e))
+    .finally(() => {
+      global.webhookDeliveryRunning = false;
+    });
+}
+
+async function drainDeliveries(forceEndpointIds: string[]) {
+  for (;;) {
+    const now = new Date();
+    const due = await db.webhookDelivery.findMany({
+      where: {
+        status: "pending",
+        nextAttemptAt: { lte: now },
+        OR: [
+          { endpoint: { enabled: true } },
+          { endpointId: { in: forceEndpointIds } },
+        ],
+      },
+      include: { endpoint: { select: { url: true, secret: true } } },
+      orderBy: { nextAttemptAt: "asc" },
+      take: DELIVERIES_PER_ROUND,
+    });
+    if (!due.length) return;
+
+    await Promise.all(
+      due.map(async (d) => {
+        // Claim the attempt so a second app instance skips it
+        const { count } = await db.webhookDelivery.updateMany({
+          where: {
+            id: d.id,
+            status: "pending",
+            nextAttemptAt: d.nextAttemptAt,
+          },
+          data: { nextAttemptAt: new Date(Date.now() + CLAIM_LEASE_MS) },
+        });
+        if (count) await attemptDelivery(d);
+      }),
+    );
+  }
+}
+
+async function attemptDelivery(d: {
+  id: string;
+  eventId: string;
+  eventType: string;
+  payload: string;
+  attempts: number;
+  endpoint: { url: string; secret: string };
+}) {
+  const started = Date.now();
+  const timestamp = Math.floor(started / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    // endpoints saved before the checks existed, or whose DNS changed since
+    const url = new URL(d.endpoint.url);
+    const urlError = await checkEndpointUrl(url);
+    if (urlError) throw new Error(urlError);
+
+    responseStatus = await postWebhook(
+      url,
+      {
+        "Content-Type": "application/json",
+        "User-Agent": "Fulfillment-Center-Webhooks/1.0",
+        [WEBHOOK_HEADERS.event]: d.eventType,
+        [WEBHOOK_HEADERS.id]: d.eventId,
+        [WEBHOOK_HEADERS.timestamp]: String(timestamp),
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+          d.endpoint.secret,
+          timestamp,
+          d.payload,
+        ),
+      },
+      d.payload,
+    );
+    if (responseStatus < 200 || responseStatus >= 300)
+      error = `HTTP ${responseStatus}`;
+  } catch (e) {
+    error =
+      e instanceof Error && e.name === "AbortError"
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : errorMessage(e);
+  }
+
+  const attempts = d.attempts + 1;
+  const finished = new Date();
+  const status: WebhookDeliveryStatus = !error
+    ? "succeeded"
+    : attempts >= MAX_WEBHOOK_ATTEMPTS
+      ? "dead"
+      : "pending";
+
+  await db.webhookDelivery.update({
+    where: { id: d.id },
+    data: {
+      status,
+      attempts,
+      lastAttemptAt: finished,
+      nextAttemptAt:
+        status === "pending"
+          ? new Date(finished.getTime() + backoffMs(attempts))
+          : null,
+      deliveredAt: status === "succeeded" ? finished : null,
+      responseStatus,
+      error,
+      durationMs: finished.getTime() - started,
+    },
+  });
+}
+
+/**
+ * Why the URL can't receive webhooks, or null: https on a public address,
+ * or any http(s) URL whose host:port is in DEV_ALLOWED_HOSTS.
+ */
+async function checkEndpointUrl(url: URL): Promise<string | null> {
+  if (url.protocol !== "https:" && url.protocol !== "http:")
+    return "The URL must start with https://.";
+  if (isDevAllowedHost(url.hostname, endpointPort(url))) return null;
+  if (url.protocol !== "https:") return "The URL must start with https://.";
+  const hostError = await checkPublicHost(url.hostname);
+  return hostError
+    ? `${hostError} Webhooks can only be sent to the public internet.`
+    : null;
+}
+
+function endpointPort(url: URL) {
+  return Number(url.port) || (url.protocol === "https:" ? 443 : 80);
+}
+
+/**
+ * POSTs the body and resolves with the response status. Redirects are not
+ * followed (they would resend the body unsigned for the new URL) and the
+ * connection only goes to public addresses, whatever DNS answers by then,
+ * unless the host is in DEV_ALLOWED_HOSTS.
+ */
+function postWebhook(
+  url: URL,
+  headers: Record<string, string>,
+  body: string,
+): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const devAllowed = isDevAllowedHost(url.hostname, endpointPort(url));
+    const req = (url.protocol === "http:" ? http : https).request(
+      url,
+      {
+        method: "POST",
+        headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+        lookup: devAllowed ? undefined : publicLookup,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      },
+      (res) => {
+        resolve(res.statusCode ?? 0);
+        // the body is not read
+        res.destroy();
+      },
+    );
+    req.on("error", reject);
+    req.end(body);
+  });
+}
+
+function backoffMs(attempts: number) {
+  return Math.min(BACKOFF_BASE_MS * 2 ** (attempts - 1), BACKOFF_MAX_MS);
+}
+
+function newSecret() {
+  return `${SECRET_PREFIX}${randomBytes(24).toString("base64url")}`;
+}
+
+function errorMessage(e: unknown) {
+  if (!(e instanceof Error)) return String(e);
+  // network errors may carry the reason as cause
+  const cause = e.cause instanceof Error ? `: ${e.cause.message}` : "";
+  return `${e.message}${cause}`;
+}
+
+function toEndpointView(row: {
+  id: string;
+  url: string;
+  description: string | null;
+  events: string;
+  enabled: boolean;
+  createdAt: Date;
+}): WebhookEndpointView {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: (JSON.parse(row.events) as string[]).filter(isWebhookEventType),
+    enabled: row.enabled,
+    createdAt: row.createdAt.toISOString(),
+  };
+}
+
+function toDeliveryView(row: {
+  id: string;
+  endpointId: string;
+  endpoint: { url: string };
+  eventId: string;
+  eventType: string;
+  status: string;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastAttemptAt: Date | null;
+  responseStatus: number | null;
+  error: string | null;
+  durationMs: number | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  payload: string;
+}): WebhookDeliveryView {
+  return {
+    id: row.id,
+    endpointId: row.endpointId,
+    endpointUrl: row.endpoint.url,
+    eventId: row.eventId,
+    eventType: row.eventType,
+    status: row.status as WebhookDeliveryStatus,
+    attempts: row.attempts,
+    nextAttemptAt: row.nextAttemptAt?.toISOString() ?? null,
+    lastAttemptAt: row.lastAttemptAt?.toISOString() ?? null,
+    responseStatus: row.responseStatus,
+    error: row.error,
+    durationMs: row.durationMs,
+    deliveredAt: row.deliveredAt?.toISOString() ?? null,
+    createdAt: row.createdAt.toISOString(),
+    payload: JSON.stringify(JSON.parse(row.payload), null, 2),
+  };
+}
@@ -0,0 +1,56 @@
+// app/lib/outbound-webhooks.ts
+
+/**
+ * Outbound webhook events and how they are signed, shared by the settings
+ * pages and outbound-webhooks.server.ts.
+ */
+
+// event type -> what the settings pages call it
+export const WEBHOOK_EVENT_TYPES = {
+  "fulfillment.created": "Fulfillment created",
+  "csv_sync.completed": "CSV sync completed",
+  "csv_sync.failed": "CSV sync failed",
+} as const;
+
+export type WebhookEventType = keyof typeof WEBHOOK_EVENT_TYPES;
+
+// Sent by "Send test event" only; endpoints can't subscribe to it
+export const WEBHOOK_PING_EVENT = "ping";
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  "pending",
+  "succeeded",
+  "dead",
+] as const;
+
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const WEBHOOK_DELIVERIES_PAGE_SIZE = 50;
+
+// A delivery is given up on (dead-lettered) after this many attempts
+export const MAX_WEBHOOK_ATTEMPTS = 10;
+
+// Headers of every delivery. The signature is the hex HMAC-SHA256 of
+// `<timestamp>.<raw body>` keyed with the endpoint's secret, as "sha256=<hex>".
+export const WEBHOOK_HEADERS = {
+  event: "X-Webhook-Event",
+  id: "X-Webhook-Id",
+  timestamp: "X-Webhook-Timestamp",
+  signature: "X-Webhook-Signature",
+} as const;
+
+export function isWebhookEventType(v: string): v is WebhookEventType {
+  return Object.prototype.hasOwnProperty.call(WEBHOOK_EVENT_TYPES, v);
+}
+
+export function webhookEventLabel(type: string): string {
+  return isWebhookEventType(type)
+    ? WEBHOOK_EVENT_TYPES[type]
+    : type === WEBHOOK_PING_EVENT
+      ? "Test event"
+      : type;
+}
+
+export function isWebhookDeliveryStatus(v: string): v is WebhookDeliveryStatus {
+  return (WEBHOOK_DELIVERY_STATUSES as readonly string[]).includes(v);
+}
@@ -0,0 +1,205 @@
+// app/lib/permissions.server.ts
+import type {
+  JwtPayload,
+  Session,
+} from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { getStaffUser, type StaffUser } from "./staff.server";
+import {
+  ALL_PERMISSIONS,
+  isStaffRole,
+  permissionsForRoles,
+  type Permission,
+  type StaffRoleValue,
+} from "./permissions";
+
+/**
+ * Who may do what in the Fulfillment Center. Roles are stored per staff user
+ * id in StaffRole. While a shop has no role assignments every staff member
+ * keeps every permission except manage_roles (fulfilling, bulk imports, API
+ * keys, webhooks...), as before roles existed; once it has any, staff
+ * without a role are viewers. The account owner, as the online session
+ * reports it, always has every permission and is the only one who can
+ * change roles, shop settings and carriers (manage_roles).
+ */
+
+export type StaffAccess = {
+  staff: StaffUser;
+  accountOwner: boolean;
+  roles: StaffRoleValue[];
+  permissions: Permission[];
+};
+
+// Thrown when it can't be told whether the staff member owns the store;
+// guessing "no" would lock the owner out of roles once any are assigned.
+export class StaffAccessError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StaffAccessError";
+  }
+}
+
+export type StaffRoleAssignment = {
+  userId: string;
+  name: string | null;
+  email: string | null;
+  accountOwner: boolean;
+  roles: StaffRoleValue[];
+};
+
+export async function getStaffAccess(
+  session: Session,
+  sessionToken?: JwtPayload,
+): Promise<StaffAccess> {
+  const staff = await getStaffUser(session, sessionToken);
+  const accountOwner = await isAccountOwner(session, staff.userId);
+
+  if (accountOwner)
+    return { staff, accountOwner, roles: [], permissions: ALL_PERMISSIONS };
+
+  const assigned = await db.staffRole.count({ where: { shop: session.shop } });
+  if (!assigned)
+    return {
+      staff,
+      accountOwner,
+      roles: [],
+      permissions: ALL_PERMISSIONS.filter((p) => p !== "manage_roles"),
+    };
+
+  const roles =
+    staff.userId === null
+      ? []
+      : await getStaffRoles(session.shop, staff.userId);
+  return {
+    staff,
+    accountOwner,
+    roles,
+    permissions: permissionsForRoles(roles.length ? roles : ["viewer"]),
+  };
+}
+
+/**
+ * The online session says so directly (`associated_user.account_owner`,
+ * on every plan). A request that only has the offline session falls back
+ * to the user's stored online session; without one, it throws
+ * StaffAccessError rather than treating the user as a non-owner.
+ */
+async function isAccountOwner(
+  session: Session,
+  userId: bigint | null,
+): Promise<boolean> {
+  const associated = session.onlineAccessInfo?.associated_user;
+  if (associated) return Boolean(associated.account_owner);
+
+  const stored =
+    userId === null
+      ? null
+      : await db.session.findFirst({
+          where: { shop: session.shop, userId, isOnline: true },
+          orderBy: { expires: "desc" },
+          select: { accountOwner: true },
+        });
+  if (!stored)
+    throw new StaffAccessError(
+      "Could not tell whether you own this store. Reload the app to sign in again.",
+    );
+  return stored.accountOwner;
+}
+
+async function getStaffRoles(
+  shop: string,
+  userId: bigint,
+): Promise<StaffRoleValue[]> {
+  const rows = await db.staffRole.findMany({
+    where: { shop, userId },
+    select: { role: true },
+  });
+  return rows.map((r) => r.role).filter(isStaffRole);
+}
+
+/**
+ * Staff members with roles, plus everyone the app has seen (stored sessions
+ * and the audit log) so the owner can pick them without looking up ids.
+ */
+export async function listStaffRoleAssignments(
+  shop: string,
+): Promise<StaffRoleAssignment[]> {
+  const [roles, sessions, audited] = await Promise.all([
+    db.staffRole.findMany({ where: { shop }, orderBy: { createdAt: "asc" } }),
+    db.session.findMany({
+      where: { shop, userId: { not: null } },
+      select: {
+        userId: true,
+        firstName: true,
+        lastName: true,
+        email: true,
+        accountOwner: true,
+      },
+    }),
+    db.auditEvent.groupBy({
+      by: ["userId"],
+      where: { shop, userId: { not: null } },
+      _max: { userName: true, userEmail: true },
+    }),
+  ]);
+
+  const byUser = new Map<string, StaffRoleAssignment>();
+  const entry = (userId: bigint) => {
+    const key = String(userId);
+    let e = byUser.get(key);
+    if (!e) {
+      e = {
+        userId: key,
+        name: null,
+        email: null,
+        accountOwner: false,
+        roles: [],
+      };
+      byUser.set(key, e);
+    }
+    return e;
+  };
+
+  for (const a of audited) {
+    if (a.userId === null) continue;
+    const e = entry(a.userId);
+    e.name = e.name || a._max.userName;
+    e.email = e.email || a._max.userEmail;
+  }
+  for (const s of sessions) {
+    if (s.userId === null) continue;
+    const e = entry(s.userId);
+    e.name = [s.firstName, s.lastName].filter(Boolean).join(" ") || e.name;
+    e.email = s.email || e.email;
+    e.accountOwner = e.accountOwner || s.accountOwner;
+  }
+  for (const r of roles) {
+    if (isStaffRole(r.role)) entry(r.userId).roles.push(r.role);
+  }
+
+  return Array.from(byUser.values()).sort((a, b) =>
+    (a.name || a.email || a.userId).localeCompare(
+      b.name || b.email || b.userId,
+    ),
+  );
+}
+
+/** Replaces the staff member's roles; an empty list removes them all. */
+export async function setStaffRoles(
+  shop: string,
+  userId: bigint,
+  roles: StaffRoleValue[],
+  assignedBy: bigint | null,
+): Promise<void> {
+  await db.$transaction([
+    db.staffRole.deleteMany({ where: { shop, userId } }),
+    db.staffRole.createMany({
+      data: Array.from(new Set(roles)).map((role) => ({
+        shop,
+        userId,
+        role,
+        assignedBy,
+      })),
+    }),
+  ]);
+}
@@ -0,0 +1,78 @@
+// app/lib/permissions.ts
+
+/**
+ * App-level staff roles. Shopify decides who can open the app; these decide
+ * what each staff member can do in the Fulfillment Center. The account owner
+ * assigns roles under Settings → Staff permissions.
+ */
+
+export type Permission =
+  | "view" // browse orders and their details
+  | "fulfill" // fulfill, hold, move, update or cancel, one order or a batch
+  | "bulk_import" // CSV sync and tracking correction files
+  | "manage_roles"; // account owner only: roles, shop settings, carriers
+
+export const STAFF_ROLES = [
+  {
+    value: "viewer",
+    label: "Viewer",
+    description: "Browse orders and fulfillment details.",
+  },
+  {
+    value: "packer",
+    label: "Packer",
+    description:
+      "Fulfill, hold, move and correct orders one by one or in batches.",
+  },
+  {
+    value: "bulk_importer",
+    label: "Bulk importer",
+    description: "Upload CSV syncs and tracking correction files.",
+  },
+] as const;
+
+export type StaffRoleValue = (typeof STAFF_ROLES)[number]["value"];
+
+export const ROLE_PERMISSIONS: Record<StaffRoleValue, Permission[]> = {
+  viewer: ["view"],
+  packer: ["view", "fulfill"],
+  bulk_importer: ["view", "bulk_import"],
+};
+
+// Fulfillment Center action intent -> what it takes to run it
+export const INTENT_PERMISSIONS: Record<string, Permission> = {
+  order_details: "view",
+  fulfillment_order_locations: "view",
+  save_queue_location: "view",
+  create_fulfillments_grouped: "fulfill",
+  hold_fulfillment_order: "fulfill",
+  release_fulfillment_order: "fulfill",
+  move_fulfillment_order: "fulfill",
+  update_tracking: "fulfill",
+  cancel_fulfillment: "fulfill",
+  batch_orders: "fulfill",
+  csv_sync: "bulk_import",
+  csv_sync_status: "bulk_import",
+  csv_sync_confirm: "bulk_import",
+  csv_sync_discard: "bulk_import",
+  tracking_corrections: "bulk_import",
+};
+
+export const ALL_PERMISSIONS: Permission[] = [
+  "view",
+  "fulfill",
+  "bulk_import",
+  "manage_roles",
+];
+
+export function isStaffRole(v: string): v is StaffRoleValue {
+  return STAFF_ROLES.some((r) => r.value === v);
+}
+
+export function staffRoleLabel(role: string): string {
+  return STAFF_ROLES.find((r) => r.value === role)?.label || role;
+}
+
+export function permissionsForRoles(roles: StaffRoleValue[]): Permission[] {
+  return Array.from(new Set(roles.flatMap((r) => ROLE_PERMISSIONS[r])));
+}
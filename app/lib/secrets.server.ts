@@ -0,0 +1,73 @@
+// app/lib/secrets.server.ts
+import {
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  randomBytes,
+} from "node:crypto";
+
+/**
+ * Encryption for credentials the app has to store in a usable form (SFTP
+ * passwords and private keys). AES-256-GCM with a key from
+ * SECRETS_ENCRYPTION_KEY, or derived from SHOPIFY_API_SECRET when that is
+ * not set; changing whichever is used makes the stored secrets unreadable,
+ * and they have to be entered again.
+ *
+ * Stored as `enc:v1:<base64url of iv | auth tag | ciphertext>`.
+ */
+
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class SecretDecryptionError extends Error {
+  constructor(message = "A stored secret could not be decrypted.") {
+    super(message);
+    this.name = "SecretDecryptionError";
+  }
+}
+
+function encryptionKey(): Buffer {
+  const material =
+    process.env.SECRETS_ENCRYPTION_KEY || process.env.SHOPIFY_API_SECRET;
+  if (!material)
+    throw new Error(
+      "Set SECRETS_ENCRYPTION_KEY (or SHOPIFY_API_SECRET) to store credentials.",
+    );
+  return createHash("sha256").update(`stored-secrets:${material}`).digest();
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plain: string): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  const data = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return `${PREFIX}${Buffer.concat([iv, cipher.getAuthTag(), data]).toString("base64url")}`;
+}
+
+/** Throws SecretDecryptionError for anything encryptSecret did not produce with the current key. */
+export function decryptSecret(stored: string): string {
+  if (!isEncryptedSecret(stored)) throw new SecretDecryptionError();
+  const raw = Buffer.from(stored.slice(PREFIX.length), "base64url");
+  if (raw.length < IV_BYTES + TAG_BYTES) throw new SecretDecryptionError();
+
+  try {
+    const decipher = createDecipheriv(
+      "aes-256-gcm",
+      encryptionKey(),
+      raw.subarray(0, IV_BYTES),
+    );
+    decipher.setAuthTag(raw.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+    return Buffer.concat([
+      decipher.update(raw.subarray(IV_BYTES + TAG_BYTES)),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new SecretDecryptionError(
+      "A stored secret could not be decrypted; the encryption key may have changed. Enter it again.",
+    );
+  }
+}
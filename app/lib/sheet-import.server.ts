@@ -0,0 +1,96 @@
+// app/lib/sheet-import.server.ts
+import { parseCsvText, type CsvTable } from "./csv";
+import { XlsxReadError, isZipArchive, readXlsx } from "./xlsx.server";
+
+/**
+ * Upload readers for the bulk importer. Every reader turns a file into the
+ * same header + rows table, so the sync pipeline does not care which format
+ * the supplier sent. Add a format by appending a reader to SHEET_READERS.
+ */
+
+export type SheetFormat = "xlsx" | "tsv" | "csv";
+
+export type SheetReader = {
+  format: SheetFormat;
+  extensions: string[];
+  mimeTypes: string[];
+  // Content check for files whose name / type says nothing useful
+  sniff?: (data: Buffer) => boolean;
+  read: (data: Buffer) => CsvTable;
+};
+
+// Tried in order; csv is last so it catches .txt and unknown types.
+export const SHEET_READERS: SheetReader[] = [
+  {
+    format: "xlsx",
+    extensions: [".xlsx"],
+    mimeTypes: [
+      "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    ],
+    sniff: isZipArchive,
+    read: readXlsx,
+  },
+  {
+    format: "tsv",
+    extensions: [".tsv", ".tab"],
+    mimeTypes: ["text/tab-separated-values"],
+    read: (data) => parseCsvText(decodeText(data), { delimiter: "\t" }),
+  },
+  {
+    format: "csv",
+    extensions: [".csv", ".txt"],
+    mimeTypes: ["text/csv", "text/plain", "application/vnd.ms-excel"],
+    // Delimiter (comma, semicolon, tab, pipe) is sniffed from the header
+    read: (data) => parseCsvText(decodeText(data)),
+  },
+];
+
+export type ReadSheetResult =
+  | { ok: true; format: SheetFormat; table: CsvTable }
+  | { ok: false; error: string };
+
+export async function readUploadedSheet(file: File): Promise<ReadSheetResult> {
+  return readSheet({
+    name: file.name || "",
+    type: file.type,
+    data: Buffer.from(await file.arrayBuffer()),
+  });
+}
+
+/** Same as readUploadedSheet, for files that did not come from a form. */
+export function readSheet(file: {
+  name: string;
+  type?: string;
+  data: Buffer;
+}): ReadSheetResult {
+  const name = file.name.toLowerCase();
+  if (name.endsWith(".xls"))
+    return {
+      ok: false,
+      error: "Legacy .xls workbooks are not supported. Save as .xlsx or CSV.",
+    };
+
+  const data = file.data;
+  const reader =
+    SHEET_READERS.find((r) => r.sniff?.(data)) ||
+    SHEET_READERS.find((r) => r.extensions.some((ext) => name.endsWith(ext))) ||
+    SHEET_READERS.find((r) => file.type && r.mimeTypes.includes(file.type)) ||
+    SHEET_READERS[SHEET_READERS.length - 1];
+
+  try {
+    return { ok: true, format: reader.format, table: reader.read(data) };
+  } catch (e) {
+    if (e instanceof XlsxReadError) return { ok: false, error: e.message };
+    throw e;
+  }
+}
+
+/**
+ * Excel's "Unicode Text" export is UTF-16LE with a BOM; everything else is
+ * read as UTF-8.
+ */
+function decodeText(data: Buffer): string {
+  if (data[0] === 0xff && data[1] === 0xfe)
+    return data.subarray(2).toString("utf16le");
+  return data.toString("utf8");
+}
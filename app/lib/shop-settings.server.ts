@@ -0,0 +1,32 @@
+// app/lib/shop-settings.server.ts
+import db from "../db.server";
+import type { InvalidTrackingMode } from "./tracking-validation";
+
+export type ShopSettings = {
+  // What happens to tracking numbers that fail validation
+  invalidTracking: InvalidTrackingMode;
+};
+
+const DEFAULTS: ShopSettings = {
+  invalidTracking: "warn",
+};
+
+export async function getShopSettings(shop: string): Promise<ShopSettings> {
+  const row = await db.shopSettings.findUnique({ where: { shop } });
+  if (!row) return { ...DEFAULTS };
+  return {
+    invalidTracking: row.invalidTracking === "block" ? "block" : "warn",
+  };
+}
+
+export async function updateShopSettings(
+  shop: string,
+  patch: Partial<ShopSettings>,
+): Promise<ShopSettings> {
+  await db.shopSettings.upsert({
+    where: { shop },
+    create: { shop, ...DEFAULTS, ...patch },
+    update: patch,
+  });
+  return getShopSettings(shop);
+}
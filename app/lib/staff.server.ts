@@ -0,0 +1,51 @@
+// app/lib/staff.server.ts
+import type {
+  JwtPayload,
+  Session,
+} from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+
+export type StaffUser = {
+  userId: bigint | null;
+  name: string | null;
+  email: string | null;
+};
+
+/**
+ * Resolve the staff member behind an embedded admin request.
+ * Online sessions (shopify.server.ts uses them) carry the user directly;
+ * a request with only the offline session gets the user id from the session
+ * token (`sub`) and name/email from that user's stored online session.
+ */
+export async function getStaffUser(
+  session: Session,
+  sessionToken?: JwtPayload,
+): Promise<StaffUser> {
+  const associated = session.onlineAccessInfo?.associated_user;
+  if (associated) {
+    return {
+      userId: BigInt(associated.id),
+      name:
+        [associated.first_name, associated.last_name]
+          .filter(Boolean)
+          .join(" ") || null,
+      email: associated.email || null,
+    };
+  }
+
+  const sub = String(sessionToken?.sub || "");
+  if (!/^\d+$/.test(sub)) return { userId: null, name: null, email: null };
+
+  const userId = BigInt(sub);
+  const stored = await db.session.findFirst({
+    where: { shop: session.shop, userId, isOnline: true },
+    orderBy: { expires: "desc" },
+  });
+
+  return {
+    userId,
+    name:
+      [stored?.firstName, stored?.lastName].filter(Boolean).join(" ") || null,
+    email: stored?.email ?? null,
+  };
+}
@@ -0,0 +1,136 @@
+// app/lib/tracking-validation.ts
+import { checkTrackingFormat, type CarrierDef } from "./carriers";
+
+/**
+ * Tracking number validation: carrier formats (see carriers.ts) plus the
+ * check digits the big carriers print into their numbers. Runs in the
+ * browser for inline field errors and again on the server before anything
+ * is sent to Shopify.
+ */
+
+export type InvalidTrackingMode = "warn" | "block";
+
+type CheckDigitRule = {
+  name: string;
+  // null = the format is unambiguous, check it whatever carrier was typed
+  carriers: string[] | null;
+  pattern: RegExp;
+  verify: (n: string) => boolean;
+};
+
+const CHECK_DIGIT_RULES: CheckDigitRule[] = [
+  {
+    name: "UPS 1Z",
+    carriers: null,
+    pattern: /^1Z[0-9A-Z]{16}$/,
+    verify: verifyUps1Z,
+  },
+  {
+    name: "UPU S10",
+    carriers: null,
+    pattern: /^[A-Z]{2}\d{9}[A-Z]{2}$/,
+    verify: verifyS10,
+  },
+  {
+    name: "USPS IMpb",
+    carriers: ["USPS"],
+    pattern: /^(420\d{5}(\d{4})?)?9[1-5]\d{20}(\d{4})?$/,
+    // The optional 420 + ZIP routing prefix is not covered by the check digit
+    verify: (n) => verifyMod10(n.replace(/^420\d{5}(\d{4})?(?=9[1-5])/, "")),
+  },
+  {
+    name: "FedEx",
+    carriers: ["FedEx"],
+    pattern: /^\d{12}$/,
+    verify: verifyFedEx12,
+  },
+  {
+    name: "DHL Express",
+    carriers: ["DHL Express"],
+    pattern: /^\d{10}$/,
+    verify: verifyDhlExpress,
+  },
+];
+
+export function normalizeTrackingInput(raw: string): string {
+  return String(raw || "")
+    .replace(/[\s-]+/g, "")
+    .toUpperCase();
+}
+
+/**
+ * Returns why the number is wrong for the carrier, or null if it passes (or
+ * nothing is known about the carrier's numbers).
+ */
+export function validateTrackingNumber(
+  raw: string,
+  carrier: CarrierDef | null,
+): string | null {
+  const n = normalizeTrackingInput(raw);
+  if (!n) return null;
+
+  const formatError = checkTrackingFormat(raw, carrier);
+  if (formatError) return formatError;
+
+  for (const rule of CHECK_DIGIT_RULES) {
+    const applies =
+      rule.carriers === null ||
+      (carrier !== null && rule.carriers.includes(carrier.company));
+    if (applies && rule.pattern.test(n) && !rule.verify(n))
+      return `${raw.trim()} has an invalid ${rule.name} check digit`;
+  }
+  return null;
+}
+
+/**
+ * =========================
+ * Check digit algorithms
+ * =========================
+ */
+
+// 1Z + 15 data characters + check digit. Letters count as (code - 63) % 10,
+// every second character is doubled.
+function verifyUps1Z(n: string): boolean {
+  const data = n.slice(2, 17);
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) {
+    const ch = data[i];
+    const v = /\d/.test(ch) ? Number(ch) : (ch.charCodeAt(0) - 63) % 10;
+    sum += i % 2 === 1 ? v * 2 : v;
+  }
+  return (10 - (sum % 10)) % 10 === Number(n[17]);
+}
+
+// S10: weights 8 6 4 2 3 5 9 7 over the serial; 10 -> 0, 11 -> 5.
+function verifyS10(n: string): boolean {
+  const digits = n.slice(2, 10);
+  const weights = [8, 6, 4, 2, 3, 5, 9, 7];
+  let sum = 0;
+  for (let i = 0; i < 8; i++) sum += Number(digits[i]) * weights[i];
+  let check = 11 - (sum % 11);
+  if (check === 10) check = 0;
+  if (check === 11) check = 5;
+  return check === Number(n[10]);
+}
+
+// GS1 mod 10: weights 3, 1, 3, … from the digit left of the check digit.
+function verifyMod10(n: string): boolean {
+  let sum = 0;
+  for (let i = n.length - 2, w = 3; i >= 0; i--, w = w === 3 ? 1 : 3)
+    sum += Number(n[i]) * w;
+  return (10 - (sum % 10)) % 10 === Number(n[n.length - 1]);
+}
+
+// FedEx Express: weights 1, 3, 7, … from the right, sum mod 11 (10 -> 0).
+function verifyFedEx12(n: string): boolean {
+  const weights = [1, 3, 7];
+  let sum = 0;
+  for (let i = n.length - 2, k = 0; i >= 0; i--, k++)
+    sum += Number(n[i]) * weights[k % 3];
+  return (sum % 11) % 10 === Number(n[n.length - 1]);
+}
+
+// DHL Express waybill: first nine digits mod 7.
+function verifyDhlExpress(n: string): boolean {
+  return Number(n.slice(0, 9)) % 7 === Number(n[9]);
+}
@@ -0,0 +1,226 @@
+// app/lib/xlsx.server.ts
+import { inflateRawSync } from "node:zlib";
+import type { CsvTable } from "./csv";
+
+/**
+ * Just enough of Office Open XML to read the first worksheet of an .xlsx
+ * workbook as text cells. Formulas are read from their cached values; styles,
+ * dates and merged cells are not interpreted.
+ */
+
+export class XlsxReadError extends Error {}
+
+// Inflated size of all XML parts together; a zip bomb stops here
+const MAX_UNZIPPED_BYTES = 100 * 1024 * 1024;
+
+export function isZipArchive(data: Buffer): boolean {
+  return data.length > 4 && data.readUInt32LE(0) === 0x04034b50;
+}
+
+/**
+ * Throws XlsxReadError, never anything else, for a file that can't be read:
+ * truncated archives, bad offsets and oversized parts included.
+ */
+export function readXlsx(data: Buffer): CsvTable {
+  try {
+    return readWorkbook(data);
+  } catch (e) {
+    if (e instanceof XlsxReadError) throw e;
+    throw new XlsxReadError("File is not a valid .xlsx workbook.");
+  }
+}
+
+function readWorkbook(data: Buffer): CsvTable {
+  const files = unzip(data);
+  const text = (name: string) => {
+    const f = files.get(name);
+    return f ? f.toString("utf8") : null;
+  };
+
+  const sheetPath = firstSheetPath(text);
+  const sheetXml = sheetPath ? text(sheetPath) : null;
+  if (!sheetXml) throw new XlsxReadError("Workbook has no worksheet.");
+
+  const shared = parseSharedStrings(text("xl/sharedStrings.xml") || "");
+  const rows = parseSheetRows(sheetXml, shared).filter((r) =>
+    r.some((v) => v.trim().length > 0),
+  );
+  if (!rows.length) return { headers: [], rows: [] };
+
+  const headers = rows[0].map((h) => h.trim());
+  return { headers, rows: rows.slice(1) };
+}
+
+/**
+ * =========================
+ * Zip
+ * =========================
+ */
+
+function unzip(data: Buffer): Map<string, Buffer> {
+  // End of central directory: fixed 22 bytes + up to 64k of comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 65557); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new XlsxReadError("File is not a valid .xlsx workbook.");
+
+  const count = data.readUInt16LE(eocd + 10);
+  let p = data.readUInt32LE(eocd + 16);
+  const files = new Map<string, Buffer>();
+  let budget = MAX_UNZIPPED_BYTES;
+
+  for (let n = 0; n < count; n++) {
+    if (data.readUInt32LE(p) !== 0x02014b50)
+      throw new XlsxReadError("Corrupt .xlsx central directory.");
+
+    const method = data.readUInt16LE(p + 10);
+    const compressedSize = data.readUInt32LE(p + 20);
+    const nameLen = data.readUInt16LE(p + 28);
+    const extraLen = data.readUInt16LE(p + 30);
+    const commentLen = data.readUInt16LE(p + 32);
+    const localOffset = data.readUInt32LE(p + 42);
+    const name = data.toString("utf8", p + 46, p + 46 + nameLen);
+    p += 46 + nameLen + extraLen + commentLen;
+
+    // Only the XML parts are needed
+    if (!name.endsWith(".xml") && !name.endsWith(".rels")) continue;
+
+    const localNameLen = data.readUInt16LE(localOffset + 26);
+    const localExtraLen = data.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLen + localExtraLen;
+    const raw = data.subarray(start, start + compressedSize);
+
+    let part: Buffer;
+    if (method === 0) part = raw;
+    else if (method === 8) {
+      try {
+        part = inflateRawSync(raw, { maxOutputLength: Math.max(1, budget) });
+      } catch (e) {
+        if (e instanceof RangeError) throw tooLarge();
+        throw e;
+      }
+    } else
+      throw new XlsxReadError(`Unsupported .xlsx compression (${method}).`);
+
+    budget -= part.length;
+    if (budget < 0) throw tooLarge();
+    files.set(name, part);
+  }
+  return files;
+}
+
+function tooLarge() {
+  return new XlsxReadError(
+    `Workbook is too large once unpacked (over ${MAX_UNZIPPED_BYTES / 1024 / 1024} MB of XML).`,
+  );
+}
+
+/**
+ * =========================
+ * Workbook parts
+ * =========================
+ */
+
+function firstSheetPath(text: (name: string) => string | null) {
+  const workbook = text("xl/workbook.xml") || "";
+  const rels = text("xl/_rels/workbook.xml.rels") || "";
+
+  const sheet = /<sheet\b[^>]*>/.exec(workbook)?.[0] || "";
+  const relId = /\br:id="([^"]+)"/.exec(sheet)?.[1];
+  if (relId) {
+    for (const m of rels.matchAll(/<Relationship\b[^>]*>/g)) {
+      if (attr(m[0], "Id") !== relId) continue;
+      const target = attr(m[0], "Target") || "";
+      return target.startsWith("/")
+        ? target.slice(1)
+        : `xl/${target.replace(/^\.\//, "")}`;
+    }
+  }
+  return "xl/worksheets/sheet1.xml";
+}
+
+function parseSharedStrings(xml: string): string[] {
+  const out: string[] = [];
+  for (const m of xml.matchAll(/<si>([\s\S]*?)<\/si>/g))
+    out.push(runText(m[1]));
+  return out;
+}
+
+function parseSheetRows(xml: string, shared: string[]): string[][] {
+  const rows: string[][] = [];
+
+  for (const rm of xml.matchAll(/<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const row: string[] = [];
+    let next = 0;
+
+    for (const cm of (rm[1] || "").matchAll(
+      /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g,
+    )) {
+      const attrs = cm[1];
+      const body = cm[2] || "";
+      const ref = attr(attrs, "r");
+      const col = ref ? columnIndex(ref) : next;
+      next = col + 1;
+
+      const type = attr(attrs, "t");
+      const v = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = "";
+      if (type === "s") value = shared[Number(v)] ?? "";
+      else if (type === "inlineStr") value = runText(body);
+      else if (type === "b") value = v === "1" ? "TRUE" : "FALSE";
+      else if (v !== undefined) value = decodeXml(v);
+
+      while (row.length < col) row.push("");
+      row[col] = value;
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * =========================
+ * XML helpers
+ * =========================
+ */
+
+// Text of a string item: plain <t> or rich-text runs, minus phonetic hints.
+function runText(xml: string): string {
+  const body = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, "");
+  let out = "";
+  for (const m of body.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g))
+    out += decodeXml(m[1]);
+  return out;
+}
+
+function attr(tag: string, name: string): string | null {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(tag)?.[1] ?? null;
+}
+
+// "B12" -> 1
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/.exec(ref)?.[0] || "A";
+  let n = 0;
+  for (const ch of letters) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+function decodeXml(s: string): string {
+  return s
+    .replace(/_x([0-9A-Fa-f]{4})_/g, (_, h) =>
+      String.fromCharCode(parseInt(h, 16)),
+    )
+    .replace(/&#x([0-9A-Fa-f]+);/g, (_, h) =>
+      String.fromCodePoint(parseInt(h, 16)),
+    )
+    .replace(/&#(\d+);/g, (_, d) => String.fromCodePoint(Number(d)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
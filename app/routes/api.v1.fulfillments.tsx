@@ -0,0 +1,66 @@
+// app/routes/api.v1.fulfillments.tsx
+import type { ActionFunctionArgs } from "react-router";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { unauthenticated } from "../shopify.server";
+import { authenticateApiKey } from "../lib/api-keys.server";
+import {
+  parseFulfillmentsPayload,
+  pushFulfillments,
+} from "../lib/fulfillments-api.server";
+
+/**
+ * Public resource route: POST /api/v1/fulfillments with an API key from
+ * Settings → API keys. See fulfillments-api.server.ts for the payload.
+ * Responds 200 with per-item results once the request itself is valid, even
+ * when some items failed.
+ */
+
+function json(body: unknown, status = 200, headers: HeadersInit = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+export async function loader() {
+  return json({ ok: false, error: "Use POST." }, 405, { Allow: "POST" });
+}
+
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST")
+    return json({ ok: false, error: "Use POST." }, 405, { Allow: "POST" });
+
+  const key = await authenticateApiKey(request);
+  if (!key)
+    return json({ ok: false, error: "Missing or invalid API key." }, 401, {
+      "WWW-Authenticate": "Bearer",
+    });
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ ok: false, error: "Body must be JSON." }, 400);
+  }
+
+  const payload = parseFulfillmentsPayload(body);
+  if (!payload.ok) return json(payload, 400);
+
+  let admin: AdminApiContext;
+  try {
+    ({ admin } = await unauthenticated.admin(key.shop));
+  } catch (e) {
+    console.error(`API: no admin session for ${key.shop}:`, e);
+    return json(
+      { ok: false, error: "The app has no access to this shop. Reinstall it." },
+      503,
+    );
+  }
+
+  const results = await pushFulfillments(admin, key.shop, payload.orders, {
+    userId: null,
+    name: `API key "${key.name}"`,
+    email: null,
+  });
+  return json({ ok: true, results });
+}
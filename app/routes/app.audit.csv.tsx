@@ -0,0 +1,23 @@
+// app/routes/app.audit.csv.tsx
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { parseAuditFilters } from "../lib/audit";
+import { buildAuditCsv } from "../lib/audit.server";
+
+/**
+ * Resource route: the audit log as CSV, with the same filters as the page.
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const filters = parseAuditFilters(new URL(request.url).searchParams);
+  const csv = await buildAuditCsv(session.shop, filters);
+  const day = new Date().toISOString().slice(0, 10);
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="audit-log-${day}.csv"`,
+    },
+  });
+}
@@ -0,0 +1,351 @@
+// app/routes/app.audit.tsx
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useSearchParams } from "react-router";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  IndexTable,
+  Badge,
+  Banner,
+  Pagination,
+  Select,
+  TextField,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  AUDIT_INTENT_LABELS,
+  AUDIT_PAGE_SIZE,
+  EMPTY_AUDIT_FILTERS,
+  auditFiltersToParams,
+  auditIntentLabel,
+  hasAuditFilters,
+  parseAuditFilters,
+  type AuditFilters,
+} from "../lib/audit";
+import { listAuditEvents, listAuditUsers } from "../lib/audit.server";
+
+/**
+ * =========================
+ * loader(): audit events for this shop, filtered by the URL search params
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const filters = parseAuditFilters(url.searchParams);
+  const page = Math.max(1, Number(url.searchParams.get("page") || "1") || 1);
+
+  const { events, hasNext } = await listAuditEvents(session.shop, filters, {
+    page,
+    pageSize: AUDIT_PAGE_SIZE,
+  });
+
+  return {
+    events,
+    filters,
+    page,
+    hasNext,
+    users: await listAuditUsers(session.shop),
+  };
+}
+
+function formatDate(iso: string) {
+  return iso.slice(0, 19).replace("T", " ");
+}
+
+/**
+ * =========================
+ * Filters (URL search params)
+ * =========================
+ */
+function AuditFiltersBar({
+  filters,
+  users,
+}: {
+  filters: AuditFilters;
+  users: Array<{ userId: string; label: string }>;
+}) {
+  const [, setSearchParams] = useSearchParams();
+  const [draft, setDraft] = useState<AuditFilters>(filters);
+
+  // Follow the URL (back / forward, shared links), not every revalidation
+  const filtersKey = JSON.stringify(filters);
+  const [draftKey, setDraftKey] = useState(filtersKey);
+  if (draftKey !== filtersKey) {
+    setDraftKey(filtersKey);
+    setDraft(filters);
+  }
+
+  const set = (patch: Partial<AuditFilters>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        setSearchParams(auditFiltersToParams(draft));
+      }}
+    >
+      <BlockStack gap="200">
+        <InlineStack gap="200" wrap>
+          <Select
+            label="Action"
+            options={[
+              { label: "Any", value: "" },
+              ...Object.entries(AUDIT_INTENT_LABELS).map(([value, label]) => ({
+                label,
+                value,
+              })),
+            ]}
+            value={draft.intent}
+            onChange={(v) => set({ intent: v })}
+          />
+          <Select
+            label="Staff member"
+            options={[
+              { label: "Anyone", value: "" },
+              ...users.map((u) => ({ label: u.label, value: u.userId })),
+            ]}
+            value={draft.user}
+            onChange={(v) => set({ user: v })}
+          />
+          <TextField
+            label="Order"
+            value={draft.order}
+            onChange={(v) => set({ order: v })}
+            placeholder="#1001"
+            autoComplete="off"
+          />
+          <Select
+            label="Outcome"
+            options={[
+              { label: "Any", value: "" },
+              { label: "Succeeded", value: "ok" },
+              { label: "Failed", value: "failed" },
+            ]}
+            value={draft.outcome}
+            onChange={(v) => set({ outcome: v })}
+          />
+          <TextField
+            label="From"
+            type="date"
+            value={draft.from}
+            onChange={(v) => set({ from: v })}
+            autoComplete="off"
+          />
+          <TextField
+            label="To"
+            type="date"
+            value={draft.to}
+            onChange={(v) => set({ to: v })}
+            autoComplete="off"
+          />
+        </InlineStack>
+
+        <InlineStack gap="200">
+          <Button submit>Apply filters</Button>
+          {hasAuditFilters(filters) ? (
+            <Button
+              variant="plain"
+              onClick={() =>
+                setSearchParams(auditFiltersToParams(EMPTY_AUDIT_FILTERS))
+              }
+            >
+              Clear filters
+            </Button>
+          ) : null}
+        </InlineStack>
+      </BlockStack>
+    </form>
+  );
+}
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function AuditLogPage() {
+  const { events, filters, page, hasNext, users } =
+    useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [downloading, setDownloading] = useState(false);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+  const open = events.find((e) => e.id === openId) || null;
+
+  const goToPage = (n: number) => {
+    const params = auditFiltersToParams(filters);
+    if (n > 1) params.set("page", String(n));
+    setSearchParams(params);
+  };
+
+  // fetch() is authenticated by App Bridge, a plain <a href> would not be.
+  const download = async () => {
+    setDownloading(true);
+    setDownloadError(null);
+    try {
+      const res = await fetch(
+        `/app/audit/csv?${auditFiltersToParams(filters).toString()}`,
+      );
+      if (!res.ok) throw new Error(`Download failed (${res.status})`);
+
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const filename =
+        /filename="([^"]+)"/.exec(disposition)?.[1] || "audit-log.csv";
+
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setDownloadError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  return (
+    <Page
+      title="Audit log"
+      backAction={{ url: "/app/fulfillment" }}
+      primaryAction={{
+        content: "Export CSV",
+        onAction: download,
+        loading: downloading,
+      }}
+    >
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="p" tone="subdued">
+                Every fulfillment action taken through the app: who did it, on
+                which orders, what was sent to Shopify and what came back. The
+                export follows the filters below.
+              </Text>
+
+              {downloadError ? (
+                <Banner
+                  tone="critical"
+                  title="Download error"
+                  onDismiss={() => setDownloadError(null)}
+                >
+                  <p>{downloadError}</p>
+                </Banner>
+              ) : null}
+
+              <AuditFiltersBar filters={filters} users={users} />
+
+              <IndexTable
+                resourceName={{ singular: "event", plural: "events" }}
+                itemCount={events.length}
+                headings={[
+                  { title: "When" },
+                  { title: "Staff member" },
+                  { title: "Action" },
+                  { title: "Orders" },
+                  { title: "Outcome" },
+                  { title: "" },
+                ]}
+                selectable={false}
+              >
+                {events.map((ev, idx) => (
+                  <IndexTable.Row id={ev.id} key={ev.id} position={idx}>
+                    <IndexTable.Cell>
+                      {formatDate(ev.createdAt)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {ev.userName || ev.userEmail || "—"}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {auditIntentLabel(ev.intent)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {ev.orderNames.length
+                        ? ev.orderNames.join(", ")
+                        : ev.orderIds.length
+                          ? `${ev.orderIds.length} order(s)`
+                          : "—"}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {ev.ok ? (
+                        <Badge tone="success">ok</Badge>
+                      ) : (
+                        <Badge tone="critical">failed</Badge>
+                      )}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Button
+                        size="slim"
+                        pressed={openId === ev.id}
+                        onClick={() =>
+                          setOpenId(openId === ev.id ? null : ev.id)
+                        }
+                      >
+                        Details
+                      </Button>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+
+              {!events.length ? (
+                <Banner tone="info" title="No audit events">
+                  <p>Nothing matches these filters yet.</p>
+                </Banner>
+              ) : null}
+
+              <Pagination
+                hasPrevious={page > 1}
+                onPrevious={() => goToPage(page - 1)}
+                hasNext={hasNext}
+                onNext={() => goToPage(page + 1)}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {open ? (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  {`${auditIntentLabel(open.intent)} · ${formatDate(open.createdAt)}`}
+                </Text>
+                <Text as="p" tone="subdued">
+                  {`${open.userName || "Unknown staff member"}${open.userEmail ? ` <${open.userEmail}>` : ""}${open.userId ? ` · user ${open.userId}` : ""}`}
+                </Text>
+                {open.orderIds.length ? (
+                  <Text as="p">{open.orderIds.join(", ")}</Text>
+                ) : null}
+                <Text as="h3" variant="headingSm">
+                  Sent to Shopify
+                </Text>
+                <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                  {open.payload}
+                </pre>
+                <Text as="h3" variant="headingSm">
+                  {open.ok ? "Result" : "Error"}
+                </Text>
+                <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                  {open.result}
+                </pre>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ) : null}
+      </Layout>
+    </Page>
+  );
+}
@@ -1,7 +1,23 @@
 // app/routes/app.fulfillment.tsx
-import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
-import { useFetcher, useLoaderData } from "react-router";
-import React, { useEffect, useMemo, useState } from "react";
+import type {
+  ActionFunctionArgs,
+  LoaderFunctionArgs,
+  ShouldRevalidateFunction,
+} from "react-router";
+import {
+  Link,
+  useFetcher,
+  useLoaderData,
+  useRevalidator,
+  useSearchParams,
+} from "react-router";
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
 import {
   Page,
   Layout,
@@ -18,8 +34,102 @@ import {
   Banner,
   Badge,
   Divider,
+  ProgressBar,
+  Select,
+  Pagination,
+  useIndexResourceState,
 } from "@shopify/polaris";
 import { authenticate } from "../shopify.server";
+import {
+  confirmCsvSyncJob,
+  createCsvSyncJob,
+  discardCsvSyncJob,
+  getCsvSyncJob,
+  type CsvSyncJobSummary,
+} from "../lib/csv-sync.server";
+import {
+  createFulfillment,
+  groupByTracking,
+  holdFulfillmentOrder,
+  listLocationsForMove,
+  moveFulfillmentOrder,
+  releaseFulfillmentOrderHold,
+  type FulfillmentOrderMoveLocation,
+  type PickedItem,
+} from "../lib/fulfillments.server";
+import {
+  FULFILLMENT_HOLD_REASONS,
+  holdReasonLabel,
+  isFulfillmentHoldReason,
+  type FulfillmentHoldReason,
+} from "../lib/fulfillment-holds";
+import {
+  getMappingProfile,
+  listMappingProfiles,
+} from "../lib/csv-mapping-profiles.server";
+import { readUploadedSheet } from "../lib/sheet-import.server";
+import {
+  FINANCIAL_STATUSES,
+  ORDER_PAGE_SIZE,
+  EMPTY_ORDER_FILTERS,
+  buildOrdersSearchQuery,
+  hasOrderFilters,
+  orderFiltersToParams,
+  parseOrderFilters,
+  type OrderFilters,
+} from "../lib/order-filters";
+import {
+  buildCarrierRegistry,
+  customCarrierDef,
+  resolveCarrier,
+} from "../lib/carriers";
+import {
+  listCustomCarriers,
+  loadCarrierRegistry,
+} from "../lib/carriers.server";
+import { getShopSettings } from "../lib/shop-settings.server";
+import {
+  validateTrackingNumber,
+  type InvalidTrackingMode,
+} from "../lib/tracking-validation";
+import { getStaffAccess } from "../lib/permissions.server";
+import { INTENT_PERMISSIONS, type Permission } from "../lib/permissions";
+import { recordAuditEvent, type AuditEventInput } from "../lib/audit.server";
+import { emitFulfillmentCreated } from "../lib/outbound-webhooks.server";
+import {
+  applyCancellation,
+  applyTrackingUpdate,
+  getFulfillment,
+  parseTrackingCorrections,
+  runTrackingCorrections,
+  type ExistingFulfillment,
+  type TrackingCorrectionResult,
+} from "../lib/fulfillment-corrections.server";
+import {
+  countOpenOrdersByLocation,
+  getQueueLocation,
+  setQueueLocation,
+} from "../lib/fulfillment-queues.server";
+import { AdminGraphqlError } from "../lib/admin-graphql.server";
+import {
+  getOrderDetails,
+  listOrders,
+  type OrderDetails,
+  type OrderListItem,
+} from "../lib/orders.server";
+import {
+  countCachedOpenOrdersByLocation,
+  getOrderCacheStatus,
+  kickOrderCacheReconcile,
+  listCachedOrders,
+  refreshCachedOrders,
+} from "../lib/order-cache.server";
+import {
+  BATCH_ORDER_ACTIONS,
+  runBatchOrderAction,
+  type BatchOrderAction,
+  type BatchOrderResult,
+} from "../lib/batch-fulfillment.server";
 
 /**
  * =========================
@@ -27,18 +137,34 @@ import { authenticate } from "../shopify.server";
  * =========================
  */
 
-type OrderListItem = {
-  id: string;
-  name: string;
-  createdAt?: string | null;
-  financialStatus: string | null;
-  fulfillmentStatus: string | null;
-};
-
 type LoaderData =
   | {
       ok: true;
       orders: OrderListItem[];
+      filters: OrderFilters;
+      pageInfo: {
+        hasNextPage: boolean;
+        hasPreviousPage: boolean;
+        startCursor: string | null;
+        endCursor: string | null;
+      };
+      locations: Array<{ id: string; name: string }>;
+      // open orders per location for the queue picker
+      queueCounts: { all: number; byLocation: Record<string, number> };
+      // list served from the local order cache (null: live from Shopify)
+      cachedAt: string | null;
+      mappingProfiles: Array<{ id: string; name: string }>;
+      // Enough to validate tracking numbers in the browser
+      trackingValidation: {
+        mode: InvalidTrackingMode;
+        customCarriers: Array<{
+          name: string;
+          aliases: string[];
+          trackingPattern: string | null;
+        }>;
+      };
+      // what this staff member may do (controls for the rest are hidden)
+      permissions: Permission[];
     }
   | {
       ok: false;
@@ -46,41 +172,18 @@ type LoaderData =
       details?: string;
     };
 
-type OrderDetailsOk = {
-  ok: true;
-  intent: "order_details";
-  order: {
-    id: string;
-    name: string;
-    financialStatus: string | null;
-    fulfillmentStatus: string | null;
-  };
-  fulfillmentOrders: Array<{
-    id: string;
-    status: string | null;
-    requestStatus: string | null;
-    assignedLocationName: string | null;
-    lineItems: Array<{
-      id: string; // fulfillmentOrderLineItem id
-      remainingQuantity: number;
-      totalQuantity: number;
-      title: string;
-      sku: string | null;
-      variantTitle: string | null;
-      lineItemId?: string;
-    }>;
-  }>;
-};
+type OrderDetailsOk = { ok: true; intent: "order_details" } & OrderDetails;
 
 type CsvSyncOk = {
   ok: true;
   intent: "csv_sync";
-  filename: string;
-  totalRows: number;
-  processed: number;
-  createdFulfillments: number;
-  failed: number;
-  errorsSample: Array<{ row: number; order_name?: string; error: string }>;
+  job: CsvSyncJobSummary;
+};
+
+type CsvSyncStatusOk = {
+  ok: true;
+  intent: "csv_sync_status" | "csv_sync_confirm" | "csv_sync_discard";
+  job: CsvSyncJobSummary;
 };
 
 type CreateGroupedOk = {
@@ -93,6 +196,57 @@ type CreateGroupedOk = {
     status: string | null;
     key: string;
   }>;
+  // Tracking numbers that don't match their carrier's known formats
+  warnings: string[];
+};
+
+type FulfillmentOrderHoldOk = {
+  ok: true;
+  intent: "hold_fulfillment_order" | "release_fulfillment_order";
+  fulfillmentOrderId: string;
+  status: string | null;
+};
+
+type MoveLocationsOk = {
+  ok: true;
+  intent: "fulfillment_order_locations";
+  fulfillmentOrderId: string;
+  locations: FulfillmentOrderMoveLocation[];
+};
+
+type MoveFulfillmentOrderOk = {
+  ok: true;
+  intent: "move_fulfillment_order";
+  fulfillmentOrderId: string;
+  locationName: string | null;
+};
+
+type FulfillmentChangeOk = {
+  ok: true;
+  intent: "update_tracking" | "cancel_fulfillment";
+  fulfillmentId: string;
+  status: string | null;
+  warning: string | null;
+};
+
+type TrackingCorrectionsOk = {
+  ok: true;
+  intent: "tracking_corrections";
+  results: TrackingCorrectionResult[];
+};
+
+type QueueLocationOk = {
+  ok: true;
+  intent: "save_queue_location";
+  locationId: string | null;
+};
+
+type BatchOrdersOk = {
+  ok: true;
+  intent: "batch_orders";
+  action: BatchOrderAction;
+  results: BatchOrderResult[];
+  warnings: string[];
 };
 
 type ActionErr = {
@@ -105,7 +259,15 @@ type ActionErr = {
 type AnyFetcherData =
   | OrderDetailsOk
   | CsvSyncOk
+  | CsvSyncStatusOk
   | CreateGroupedOk
+  | BatchOrdersOk
+  | FulfillmentOrderHoldOk
+  | MoveLocationsOk
+  | MoveFulfillmentOrderOk
+  | QueueLocationOk
+  | FulfillmentChangeOk
+  | TrackingCorrectionsOk
   | ActionErr
   | undefined;
 
@@ -122,76 +284,6 @@ function jsonResponse(body: any, status = 200) {
   });
 }
 
-function normalizeOrderName(raw: string): string {
-  const s = String(raw || "").trim();
-  if (!s) return "";
-  if (/^\d+$/.test(s)) return `#${s}`;
-  if (s.startsWith("#")) return s;
-  return s;
-}
-
-function parseCsvText(csvText: string): {
-  headers: string[];
-  rows: string[][];
-} {
-  const text = csvText.replace(/\r\n/g, "\n").replace(/\r/g, "\n");
-  const lines = text.split("\n").filter((l) => l.trim().length > 0);
-  const rows: string[][] = [];
-  for (const line of lines) rows.push(parseCsvLine(line));
-  if (rows.length === 0) return { headers: [], rows: [] };
-  const headers = rows[0].map((h) => h.trim());
-  const data = rows.slice(1);
-  return { headers, rows: data };
-}
-
-function parseCsvLine(line: string): string[] {
-  const out: string[] = [];
-  let cur = "";
-  let inQuotes = false;
-
-  for (let i = 0; i < line.length; i++) {
-    const ch = line[i];
-
-    if (ch === '"') {
-      const next = line[i + 1];
-      if (inQuotes && next === '"') {
-        cur += '"';
-        i++;
-        continue;
-      }
-      inQuotes = !inQuotes;
-      continue;
-    }
-
-    if (ch === "," && !inQuotes) {
-      out.push(cur);
-      cur = "";
-      continue;
-    }
-    cur += ch;
-  }
-  out.push(cur);
-  return out.map((v) => v.trim());
-}
-
-function csvRowToObj(headers: string[], row: string[]): Record<string, string> {
-  const obj: Record<string, string> = {};
-  for (let c = 0; c < headers.length; c++)
-    obj[headers[c] || `col_${c + 1}`] = String(row[c] ?? "");
-  return obj;
-}
-
-function pickHeader(obj: Record<string, string>, names: string[]) {
-  const keys = Object.keys(obj);
-  const map: Record<string, string> = {};
-  for (const k of keys) map[k.toLowerCase()] = k;
-  for (const n of names) {
-    const hit = map[n.toLowerCase()];
-    if (hit) return obj[hit];
-  }
-  return "";
-}
-
 function statusTone(
   fulfillmentStatus?: string | null,
 ): "success" | "attention" | "warning" | "info" {
@@ -210,47 +302,88 @@ function isFulfillableFOStatus(s?: string | null) {
   return true; // OPEN / IN_PROGRESS / SCHEDULED...
 }
 
+function readHoldInput(
+  form: FormData,
+): { reason: FulfillmentHoldReason; reasonNotes: string } | null {
+  const reason = String(form.get("hold_reason") || "");
+  if (!isFulfillmentHoldReason(reason)) return null;
+  return {
+    reason,
+    reasonNotes: String(form.get("hold_notes") || "").trim(),
+  };
+}
+
 /**
  * =========================
  * loader(): list unfulfilled/partial orders
+ * filters + cursor come from the URL search params (see order-filters.ts)
  * =========================
  */
 export async function loader({ request }: LoaderFunctionArgs) {
   try {
-    const { admin } = await authenticate.admin(request);
-
-    const q = `fulfillment_status:unfulfilled OR fulfillment_status:partial`;
-
-    const res = await admin.graphql(
-      `#graphql
-      query ListOrders($q: String!) {
-        orders(first: 50, query: $q, sortKey: CREATED_AT, reverse: true) {
-          nodes {
-            id
-            name
-            createdAt
-            displayFinancialStatus
-            displayFulfillmentStatus
-          }
-        }
-      }`,
-      { variables: { q } },
-    );
+    const { admin, session, sessionToken, redirect } =
+      await authenticate.admin(request);
+
+    const access = await getStaffAccess(session, sessionToken);
+
+    // No location in the URL -> reopen the staff member's last queue
+    const params = new URL(request.url).searchParams;
+    if (!params.has("location")) {
+      const saved = await getQueueLocation(session.shop, access.staff.userId);
+      if (saved) {
+        params.set("location", saved);
+        return redirect(`/app/fulfillment?${params.toString()}`);
+      }
+    }
+
+    const { filters, cursor } = parseOrderFilters(params);
+    const q = buildOrdersSearchQuery(filters);
+
+    // Filter and count from the local cache once it has been filled;
+    // until then (and as a fallback) ask Shopify directly
+    const cache = await getOrderCacheStatus(session.shop);
+    await kickOrderCacheReconcile(session.shop);
+
+    const { orders, pageInfo, locations } = await listOrders(admin, {
+      q,
+      cursor,
+      fromCache: cache.ready,
+    });
 
-    const json: any = await res.json();
-    console.log("ListOrders response:", JSON.stringify(json, null, 2));
+    const mappingProfiles = (await listMappingProfiles(session.shop)).map(
+      (p) => ({ id: p.id, name: p.name }),
+    );
 
-    const orders: OrderListItem[] = (json?.data?.orders?.nodes || []).map(
-      (o: any) => ({
-        id: String(o.id),
-        name: String(o.name || ""),
-        createdAt: o.createdAt ?? null,
-        financialStatus: o.displayFinancialStatus ?? null,
-        fulfillmentStatus: o.displayFulfillmentStatus ?? null,
+    const { invalidTracking } = await getShopSettings(session.shop);
+    const customCarriers = (await listCustomCarriers(session.shop)).map(
+      (c) => ({
+        name: c.name,
+        aliases: c.aliases,
+        trackingPattern: c.trackingPattern,
       }),
     );
 
-    return jsonResponse({ ok: true, orders } satisfies LoaderData);
+    const locationIds = locations.map((l) => l.id);
+
+    const cached = cache.ready
+      ? await listCachedOrders(session.shop, filters, cursor)
+      : null;
+    const queueCounts = cache.ready
+      ? await countCachedOpenOrdersByLocation(session.shop, locationIds)
+      : await countOpenOrdersByLocation(admin, locationIds);
+
+    return jsonResponse({
+      ok: true,
+      orders: cached?.orders || orders || [],
+      filters,
+      pageInfo: cached?.pageInfo || pageInfo,
+      locations,
+      queueCounts,
+      cachedAt: cached ? cache.lastReconciledAt : null,
+      mappingProfiles,
+      trackingValidation: { mode: invalidTracking, customCarriers },
+      permissions: access.permissions,
+    } satisfies LoaderData);
   } catch (e: any) {
     if (e instanceof Response) return e;
     return jsonResponse(
@@ -264,6 +397,29 @@ export async function loader({ request }: LoaderFunctionArgs) {
   }
 }
 
+/**
+ * These intents don't change orders, so skip re-running ListOrders after
+ * them (the CSV job status is polled every few seconds).
+ */
+const READ_ONLY_INTENTS = new Set([
+  "order_details",
+  "fulfillment_order_locations",
+  "csv_sync",
+  "csv_sync_status",
+  "csv_sync_confirm",
+  "csv_sync_discard",
+  "save_queue_location", // the page navigates to the new queue right after
+]);
+
+export const shouldRevalidate: ShouldRevalidateFunction = ({
+  formData,
+  defaultShouldRevalidate,
+}) => {
+  const intent = String(formData?.get("intent") || "");
+  if (READ_ONLY_INTENTS.has(intent)) return false;
+  return defaultShouldRevalidate;
+};
+
 /**
  * =========================
  * action()
@@ -274,7 +430,30 @@ export async function action({ request }: ActionFunctionArgs) {
   const intent = String(form.get("intent") || "").trim();
 
   try {
-    const { admin } = await authenticate.admin(request);
+    const { admin, session, sessionToken } = await authenticate.admin(request);
+
+    // Staff roles (Settings → Staff permissions) decide who may run what
+    const access = await getStaffAccess(session, sessionToken);
+    const required = INTENT_PERMISSIONS[intent];
+    if (required && !access.permissions.includes(required))
+      return jsonResponse(
+        {
+          ok: false,
+          intent,
+          error: "You don't have permission to do this.",
+          details: `Requires the "${required}" permission. Ask the store owner to change your role.`,
+        } satisfies ActionErr,
+        403,
+      );
+
+    // Every mutating intent below records who did it and what came back
+    const audit = (entry: Omit<AuditEventInput, "shop" | "staff" | "intent">) =>
+      recordAuditEvent({
+        ...entry,
+        shop: session.shop,
+        staff: access.staff,
+        intent,
+      });
 
     // =========================
     // ORDER DETAILS
@@ -287,56 +466,27 @@ export async function action({ request }: ActionFunctionArgs) {
           400,
         );
 
-      const res = await admin.graphql(
-        `#graphql
-        query f($id: ID!) {
-          order(id: $id) {
-            id
-            name
-            displayFinancialStatus
-            displayFulfillmentStatus
-            fulfillmentOrders(first: 50) {
-              nodes {
-                id
-                status
-                requestStatus
-                lineItems(first: 100) {
-                  edges {
-                    node {
-                      id
-                      remainingQuantity
-                      totalQuantity
-                      lineItem {
-                        id
-                        title
-                        sku
-                        variantTitle
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }`,
-        { variables: { id: orderId } },
+      const details = await getOrderDetails(admin, orderId).catch(
+        (e: unknown) =>
+          e instanceof AdminGraphqlError ? e : Promise.reject(e),
       );
-
-      const json: any = await res.json();
-      if (json?.errors?.length) {
+      if (details instanceof AdminGraphqlError) {
         return jsonResponse(
           {
             ok: false,
             intent,
             error: "Shopify GraphQL error while loading order details.",
-            details: JSON.stringify(json.errors, null, 2),
+            details: JSON.stringify(
+              details.errors.length ? details.errors : details.message,
+              null,
+              2,
+            ),
           } satisfies ActionErr,
           500,
         );
       }
 
-      const order = json?.data?.order;
-      if (!order?.id)
+      if (!details)
         return jsonResponse(
           {
             ok: false,
@@ -346,39 +496,18 @@ export async function action({ request }: ActionFunctionArgs) {
           404,
         );
 
-      const fulfillmentOrders = (order.fulfillmentOrders?.nodes || []).map(
-        (fo: any) => ({
-          id: String(fo.id),
-          status: fo.status ?? null,
-          requestStatus: fo.requestStatus ?? null,
-          lineItems: (fo.lineItems?.edges || [])
-            .map((e: any) => e?.node)
-            .filter(Boolean)
-            .map((li: any) => {
-              const vt = li?.lineItem?.variantTitle ?? null;
-              return {
-                id: String(li.id),
-                remainingQuantity: Number(li.remainingQuantity ?? 0),
-                totalQuantity: Number(li.totalQuantity ?? 0),
-                title: String(li?.lineItem?.title || ""),
-                sku: li?.lineItem?.sku ?? null,
-                variantTitle: vt ? vt : null, // hoặc vt?.trim() ? vt : null
-                lineItemId: String(li?.lineItem?.id || ""),
-              };
-            }),
-        }),
-      );
+      // Location queue: only the fulfillment orders assigned there
+      const locationId = String(form.get("location_id") || "");
 
       return jsonResponse({
         ok: true,
         intent,
-        order: {
-          id: String(order.id),
-          name: String(order.name),
-          financialStatus: order.displayFinancialStatus ?? null,
-          fulfillmentStatus: order.displayFulfillmentStatus ?? null,
-        },
-        fulfillmentOrders,
+        ...details,
+        fulfillmentOrders: locationId
+          ? details.fulfillmentOrders.filter(
+              (fo) => fo.assignedLocationId === locationId,
+            )
+          : details.fulfillmentOrders,
       } satisfies OrderDetailsOk);
     }
 
@@ -413,14 +542,6 @@ export async function action({ request }: ActionFunctionArgs) {
         );
       }
 
-      type PickedItem = {
-        foLineItemId: string;
-        fulfillmentOrderId: string;
-        quantity: number;
-        trackingNumber: string;
-        carrier: string;
-      };
-
       const items: PickedItem[] = pickedIds
         .map((foLineItemId) => {
           const fulfillmentOrderId = String(
@@ -455,325 +576,667 @@ export async function action({ request }: ActionFunctionArgs) {
         );
       }
 
-      // Group by tracking key
-      const groupMap = new Map<string, PickedItem[]>();
+      const carriers = await loadCarrierRegistry(session.shop);
+      const { invalidTracking } = await getShopSettings(session.shop);
+      const warnings = new Set<string>();
       for (const it of items) {
-        const key = it.trackingNumber
-          ? `${it.trackingNumber}|||${it.carrier || ""}`
-          : "NO_TRACK";
-        const arr = groupMap.get(key) || [];
-        arr.push(it);
-        groupMap.set(key, arr);
+        if (!it.trackingNumber) continue;
+        const { carrier } = resolveCarrier(it.carrier, carriers);
+        const problem = validateTrackingNumber(it.trackingNumber, carrier);
+        if (problem) warnings.add(problem);
       }
 
+      if (warnings.size && invalidTracking === "block")
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Fix the invalid tracking numbers before fulfilling.",
+            details: Array.from(warnings).join("\n"),
+          } satisfies ActionErr,
+          400,
+        );
+
       const results: Array<{
         fulfillmentId: string | null;
         status: string | null;
         key: string;
       }> = [];
 
-      for (const [key, groupItems] of groupMap.entries()) {
-        // Sub-group by fulfillmentOrderId (required by API)
-        const byFO = new Map<string, { id: string; quantity: number }[]>();
-        for (const it of groupItems) {
-          const arr = byFO.get(it.fulfillmentOrderId) || [];
-          arr.push({ id: it.foLineItemId, quantity: it.quantity });
-          byFO.set(it.fulfillmentOrderId, arr);
-        }
-
-        const [tn, cr] = key === "NO_TRACK" ? ["", ""] : key.split("|||");
-
-        const trackingInfo =
-          tn && tn.trim().length > 0
-            ? {
-                number: tn.trim(),
-                company: cr && cr.trim().length > 0 ? cr.trim() : undefined,
-              }
-            : undefined;
-
-        const lineItemsByFulfillmentOrder = Array.from(byFO.entries()).map(
-          ([fulfillmentOrderId, foLineItems]) => ({
-            fulfillmentOrderId,
-            fulfillmentOrderLineItems: foLineItems.map((x) => ({
-              id: x.id,
-              quantity: x.quantity,
-            })),
-          }),
-        );
-
-        const res = await admin.graphql(
-          `#graphql
-          mutation CreateFulfillment($fulfillment: FulfillmentV2Input!) {
-            fulfillmentCreateV2(fulfillment: $fulfillment) {
-              fulfillment { id status }
-              userErrors { field message }
-            }
-          }`,
-          {
-            variables: {
-              fulfillment: {
-                notifyCustomer,
-                trackingInfo,
-                lineItemsByFulfillmentOrder,
-              },
-            },
-          },
-        );
-
-        const json: any = await res.json();
-        if (json?.errors?.length) {
-          return jsonResponse(
-            {
-              ok: false,
-              error: "GraphQL error",
-              details: JSON.stringify(json.errors, null, 2),
+      const groups = groupByTracking(items, carriers).map((group) => ({
+        key: group.key,
+        input: {
+          notifyCustomer,
+          trackingInfo: group.trackingInfo,
+          lineItemsByFulfillmentOrder: group.lineItemsByFulfillmentOrder,
+        },
+      }));
+      const payload = groups.map((g) => g.input);
+
+      for (const group of groups) {
+        const out = await createFulfillment(admin, group.input);
+        if (!out.ok) {
+          await audit({
+            orderIds: [orderId],
+            payload,
+            ok: false,
+            result: {
+              error: out.error,
+              details: out.details,
+              created: results,
             },
-            500,
-          );
-        }
-
-        const out = json?.data?.fulfillmentCreateV2;
-        const errs = out?.userErrors || [];
-        if (errs.length) {
+          });
           return jsonResponse(
             {
               ok: false,
               intent,
-              error: errs[0]?.message || "Fulfillment failed",
-              details: JSON.stringify(errs, null, 2),
+              error: out.error,
+              details: out.details,
             } satisfies ActionErr,
             400,
           );
         }
 
         results.push({
-          fulfillmentId: out?.fulfillment?.id ?? null,
-          status: out?.fulfillment?.status ?? null,
-          key,
+          fulfillmentId: out.fulfillmentId,
+          status: out.status,
+          key: group.key,
         });
+        if (out.fulfillmentId)
+          await emitFulfillmentCreated(session.shop, {
+            source: intent,
+            orderId,
+            orderName: null,
+            fulfillmentId: out.fulfillmentId,
+            status: out.status,
+            input: group.input,
+          });
       }
 
+      await audit({ orderIds: [orderId], payload, ok: true, result: results });
+
+      // Update the cached order list now rather than when the webhook lands
+      await refreshCachedOrders(admin, session.shop, { orderIds: [orderId] });
+
       return jsonResponse({
         ok: true,
         intent,
         orderId,
         created: results.length,
         results,
+        warnings: Array.from(warnings),
       } satisfies CreateGroupedOk);
     }
 
     // =========================
-    // CSV SYNC (upload + sync immediately)
-    // columns:
-    // order_name (required), tracking_number (optional), carrier(optional), notify_customer(optional 1/0/true/false)
+    // HOLD / RELEASE ONE FULFILLMENT ORDER
     // =========================
-    if (intent === "csv_sync") {
-      const file = form.get("csv_file");
-      if (!(file instanceof File))
+    if (
+      intent === "hold_fulfillment_order" ||
+      intent === "release_fulfillment_order"
+    ) {
+      const fulfillmentOrderId = String(form.get("fulfillment_order_id") || "");
+      if (!fulfillmentOrderId)
         return jsonResponse(
           {
             ok: false,
             intent,
-            error: "Please upload a CSV file.",
+            error: "Missing fulfillment_order_id",
           } satisfies ActionErr,
           400,
         );
 
-      const filename = file.name || "upload.csv";
-      const text = await file.text();
-      const { headers, rows } = parseCsvText(text);
-      if (!headers.length)
+      let out;
+      if (intent === "hold_fulfillment_order") {
+        const hold = readHoldInput(form);
+        if (!hold)
+          return jsonResponse(
+            {
+              ok: false,
+              intent,
+              error: "Choose a hold reason.",
+            } satisfies ActionErr,
+            400,
+          );
+        out = await holdFulfillmentOrder(admin, fulfillmentOrderId, hold);
+      } else {
+        out = await releaseFulfillmentOrderHold(admin, fulfillmentOrderId);
+      }
+
+      await audit({
+        fulfillmentOrderIds: [fulfillmentOrderId],
+        payload: {
+          fulfillmentOrderId,
+          hold:
+            intent === "hold_fulfillment_order"
+              ? readHoldInput(form)
+              : undefined,
+        },
+        ok: out.ok,
+        result: out,
+      });
+
+      if (!out.ok)
         return jsonResponse(
           {
             ok: false,
             intent,
-            error: "CSV seems empty or invalid (no header row found).",
+            error: out.error,
+            details: out.details,
           } satisfies ActionErr,
           400,
         );
 
-      const errorsSample: Array<{
-        row: number;
-        order_name?: string;
-        error: string;
-      }> = [];
-      let processed = 0;
-      let createdFulfillments = 0;
-
-      for (let i = 0; i < rows.length; i++) {
-        const rowNum = i + 2;
-        const obj = csvRowToObj(headers, rows[i]);
-
-        const orderNameRaw = pickHeader(obj, ["order_name", "order", "name"]);
-        const trackingNumber = pickHeader(obj, [
-          "tracking_number",
-          "tracking",
-          "tn",
-        ]);
-        const carrier = pickHeader(obj, [
-          "carrier",
-          "company",
-          "shipping_company",
-        ]);
-        const notifyRaw = pickHeader(obj, ["notify_customer", "notify"]);
-
-        const normalized = normalizeOrderName(orderNameRaw);
-        if (!normalized) {
-          if (errorsSample.length < 20)
-            errorsSample.push({ row: rowNum, error: "Missing order_name" });
-          continue;
-        }
+      await refreshCachedOrders(admin, session.shop, {
+        fulfillmentOrderIds: [fulfillmentOrderId],
+      });
 
-        const notifyCustomer =
-          String(notifyRaw || "").toLowerCase() === "1" ||
-          String(notifyRaw || "").toLowerCase() === "true" ||
-          String(notifyRaw || "").toLowerCase() === "yes";
-
-        try {
-          // find order
-          const res1 = await admin.graphql(
-            `#graphql
-            query FindOrder($q: String!) {
-              orders(first: 5, query: $q) { nodes { id name } }
-            }`,
-            { variables: { q: `name:${normalized}` } },
-          );
-          const json1: any = await res1.json();
-          const order = json1?.data?.orders?.nodes?.[0];
-          if (!order?.id) {
-            if (errorsSample.length < 20)
-              errorsSample.push({
-                row: rowNum,
-                order_name: normalized,
-                error: "Order not found",
-              });
-            continue;
-          }
+      return jsonResponse({
+        ok: true,
+        intent,
+        fulfillmentOrderId,
+        status: out.status,
+      } satisfies FulfillmentOrderHoldOk);
+    }
 
-          // load FOs
-          const res2 = await admin.graphql(
-            `#graphql
-            query FOs($id: ID!) {
-              order(id: $id) {
-                fulfillmentOrders(first: 50) {
-                  nodes {
-                    id
-                    lineItems(first: 100) {
-                      nodes { id remainingQuantity }
-                    }
-                  }
-                }
-              }
-            }`,
-            { variables: { id: order.id } },
+    // =========================
+    // MOVE A FULFILLMENT ORDER TO ANOTHER LOCATION
+    // fulfillment_order_locations lists the candidates first
+    // =========================
+    if (
+      intent === "fulfillment_order_locations" ||
+      intent === "move_fulfillment_order"
+    ) {
+      const fulfillmentOrderId = String(form.get("fulfillment_order_id") || "");
+      if (!fulfillmentOrderId)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Missing fulfillment_order_id",
+          } satisfies ActionErr,
+          400,
+        );
+
+      if (intent === "fulfillment_order_locations") {
+        const locations = await listLocationsForMove(admin, fulfillmentOrderId);
+        if (!locations)
+          return jsonResponse(
+            {
+              ok: false,
+              intent,
+              error: "Fulfillment order not found.",
+            } satisfies ActionErr,
+            404,
           );
-          const json2: any = await res2.json();
-          const fos = json2?.data?.order?.fulfillmentOrders?.nodes || [];
-          if (!fos.length) {
-            if (errorsSample.length < 20)
-              errorsSample.push({
-                row: rowNum,
-                order_name: normalized,
-                error: "No fulfillmentOrders (not shippable / no location)",
-              });
-            continue;
-          }
+        return jsonResponse({
+          ok: true,
+          intent,
+          fulfillmentOrderId,
+          locations,
+        } satisfies MoveLocationsOk);
+      }
 
-          const trackingInfo =
-            String(trackingNumber || "").trim().length > 0
-              ? {
-                  number: String(trackingNumber).trim(),
-                  company: String(carrier || "").trim() || undefined,
-                }
-              : undefined;
-
-          for (const fo of fos) {
-            const liNodes = fo?.lineItems?.nodes || [];
-            const lineItems = liNodes
-              .map((li: any) => ({
-                id: String(li.id),
-                quantity: Number(li.remainingQuantity ?? 0),
-              }))
-              .filter((x: any) => x.quantity > 0);
-            if (!lineItems.length) continue;
-
-            const res3 = await admin.graphql(
-              `#graphql
-              mutation CreateFulfillment($fulfillment: FulfillmentV2Input!) {
-                fulfillmentCreateV2(fulfillment: $fulfillment) {
-                  fulfillment { id status }
-                  userErrors { field message }
-                }
-              }`,
-              {
-                variables: {
-                  fulfillment: {
-                    notifyCustomer,
-                    trackingInfo,
-                    lineItemsByFulfillmentOrder: [
-                      {
-                        fulfillmentOrderId: String(fo.id),
-                        fulfillmentOrderLineItems: lineItems.map((x: any) => ({
-                          id: x.id,
-                          quantity: x.quantity,
-                        })),
-                      },
-                    ],
-                  },
-                },
-              },
-            );
-
-            const json3: any = await res3.json();
-            const out = json3?.data?.fulfillmentCreateV2;
-            const errs = out?.userErrors || [];
-            if (json3?.errors?.length || errs.length) {
-              const msg = json3?.errors?.length
-                ? "GraphQL error"
-                : errs[0]?.message || "Fulfillment failed";
-              if (errorsSample.length < 20)
-                errorsSample.push({
-                  row: rowNum,
-                  order_name: normalized,
-                  error: msg,
-                });
-              continue;
-            }
+      const locationId = String(form.get("location_id") || "");
+      if (!locationId)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Choose a location.",
+          } satisfies ActionErr,
+          400,
+        );
 
-            createdFulfillments += 1;
-          }
+      const out = await moveFulfillmentOrder(
+        admin,
+        fulfillmentOrderId,
+        locationId,
+      );
+      await audit({
+        fulfillmentOrderIds: [fulfillmentOrderId],
+        payload: { fulfillmentOrderId, newLocationId: locationId },
+        ok: out.ok,
+        result: out,
+      });
+      if (!out.ok)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: out.error,
+            details: out.details,
+          } satisfies ActionErr,
+          400,
+        );
 
-          processed += 1;
-        } catch (e: any) {
-          if (errorsSample.length < 20)
-            errorsSample.push({
-              row: rowNum,
-              order_name: normalized,
-              error: e?.message ? String(e.message) : String(e),
-            });
-        }
-      }
+      await refreshCachedOrders(admin, session.shop, {
+        fulfillmentOrderIds: [fulfillmentOrderId, out.fulfillmentOrderId],
+      });
 
       return jsonResponse({
         ok: true,
         intent,
-        filename,
-        totalRows: rows.length,
-        processed,
-        createdFulfillments,
-        failed: rows.length - processed,
-        errorsSample,
-      } satisfies CsvSyncOk);
+        fulfillmentOrderId: out.fulfillmentOrderId,
+        locationName: out.locationName,
+      } satisfies MoveFulfillmentOrderOk);
     }
 
-    return jsonResponse(
-      {
-        ok: false,
+    // =========================
+    // FIX AN EXISTING FULFILLMENT
+    // update_tracking: fulfillment_id, tracking_number, carrier, notify_customer
+    // cancel_fulfillment: fulfillment_id
+    // =========================
+    if (intent === "update_tracking" || intent === "cancel_fulfillment") {
+      const fulfillmentId = String(form.get("fulfillment_id") || "");
+      const found = fulfillmentId
+        ? await getFulfillment(admin, fulfillmentId)
+        : null;
+      if (!found)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Fulfillment not found.",
+          } satisfies ActionErr,
+          404,
+        );
+
+      let warning: string | null = null;
+      let payload: Record<string, unknown> = { fulfillmentId };
+      let out;
+      if (intent === "cancel_fulfillment") {
+        out = await applyCancellation(admin, session.shop, found);
+      } else {
+        const trackingNumber = String(form.get("tracking_number") || "").trim();
+        const carrier = String(form.get("carrier") || "").trim();
+        if (!trackingNumber)
+          return jsonResponse(
+            {
+              ok: false,
+              intent,
+              error: "Enter a tracking number.",
+            } satisfies ActionErr,
+            400,
+          );
+
+        const carriers = await loadCarrierRegistry(session.shop);
+        const { invalidTracking } = await getShopSettings(session.shop);
+        warning = validateTrackingNumber(
+          trackingNumber,
+          resolveCarrier(carrier, carriers).carrier,
+        );
+        if (warning && invalidTracking === "block")
+          return jsonResponse(
+            {
+              ok: false,
+              intent,
+              error: "Fix the invalid tracking number first.",
+              details: warning,
+            } satisfies ActionErr,
+            400,
+          );
+
+        const notifyCustomer =
+          String(form.get("notify_customer") || "") === "1";
+        payload = { fulfillmentId, trackingNumber, carrier, notifyCustomer };
+        out = await applyTrackingUpdate(admin, session.shop, {
+          ...found,
+          trackingNumber,
+          carrier,
+          notifyCustomer,
+          carriers,
+        });
+      }
+
+      await audit({
+        orderIds: [found.orderId],
+        payload,
+        ok: out.ok,
+        result: out,
+      });
+
+      if (!out.ok)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: out.error,
+            details: out.details,
+          } satisfies ActionErr,
+          400,
+        );
+
+      await refreshCachedOrders(admin, session.shop, {
+        orderIds: [found.orderId],
+      });
+
+      return jsonResponse({
+        ok: true,
         intent,
-        error: "Unknown action intent.",
-      } satisfies ActionErr,
-      400,
-    );
+        fulfillmentId,
+        status: out.status,
+        warning,
+      } satisfies FulfillmentChangeOk);
+    }
+
+    // =========================
+    // TRACKING CORRECTIONS FILE
+    // order_name + new tracking_number (and/or action=cancel), optional
+    // current_tracking_number to pick one of several fulfillments
+    // =========================
+    if (intent === "tracking_corrections") {
+      const file = form.get("corrections_file");
+      if (!(file instanceof File))
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Please upload a CSV, TSV or XLSX file.",
+          } satisfies ActionErr,
+          400,
+        );
+
+      const sheet = await readUploadedSheet(file);
+      const parsed = sheet.ok ? parseTrackingCorrections(sheet.table) : sheet;
+      if (!parsed.ok)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: parsed.error,
+          } satisfies ActionErr,
+          400,
+        );
+
+      const { invalidTracking } = await getShopSettings(session.shop);
+      const results = await runTrackingCorrections(
+        admin,
+        session.shop,
+        parsed.rows,
+        {
+          carriers: await loadCarrierRegistry(session.shop),
+          invalidTracking,
+        },
+      );
+      await audit({
+        orderNames: Array.from(new Set(parsed.rows.map((r) => r.orderName))),
+        payload: { filename: file.name, rows: parsed.rows },
+        ok: results.every((r) => r.ok),
+        result: results,
+      });
+
+      return jsonResponse({
+        ok: true,
+        intent,
+        results,
+      } satisfies TrackingCorrectionsOk);
+    }
+
+    // =========================
+    // LOCATION QUEUE (remembered per staff member)
+    // =========================
+    if (intent === "save_queue_location") {
+      const locationId = String(form.get("location_id") || "") || null;
+      await setQueueLocation(session.shop, access.staff.userId, locationId);
+      return jsonResponse({
+        ok: true,
+        intent,
+        locationId,
+      } satisfies QueueLocationOk);
+    }
+
+    // =========================
+    // BATCH ACTIONS ON SELECTED ORDERS
+    // fulfill: everything remaining, no tracking
+    // fulfill_tracking: everything remaining under one tracking number
+    // hold: hold every open fulfillment order (hold_reason, hold_notes)
+    // release: release every held fulfillment order
+    // =========================
+    if (intent === "batch_orders") {
+      const batchAction = String(form.get("batch_action") || "");
+      const orderIds = form
+        .getAll("order_id")
+        .map((v) => String(v))
+        .filter(Boolean);
+      const trackingNumber = String(form.get("tracking_number") || "").trim();
+      const carrier = String(form.get("carrier") || "").trim();
+      const notifyCustomer = String(form.get("notify_customer") || "") === "1";
+      const locationId = String(form.get("location_id") || "") || null;
+
+      if (!(BATCH_ORDER_ACTIONS as string[]).includes(batchAction))
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: `Unknown batch action: ${batchAction}`,
+          } satisfies ActionErr,
+          400,
+        );
+      if (!orderIds.length || orderIds.length > ORDER_PAGE_SIZE)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: `Select between 1 and ${ORDER_PAGE_SIZE} orders.`,
+          } satisfies ActionErr,
+          400,
+        );
+      const hold = readHoldInput(form);
+      if (batchAction === "hold" && !hold)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Choose a hold reason.",
+          } satisfies ActionErr,
+          400,
+        );
+      if (batchAction === "fulfill_tracking" && !trackingNumber)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Enter a tracking number.",
+          } satisfies ActionErr,
+          400,
+        );
+
+      const carriers = await loadCarrierRegistry(session.shop);
+      const warnings: string[] = [];
+      if (batchAction === "fulfill_tracking") {
+        const { invalidTracking } = await getShopSettings(session.shop);
+        const problem = validateTrackingNumber(
+          trackingNumber,
+          resolveCarrier(carrier, carriers).carrier,
+        );
+        if (problem && invalidTracking === "block")
+          return jsonResponse(
+            {
+              ok: false,
+              intent,
+              error: "Fix the invalid tracking number before fulfilling.",
+              details: problem,
+            } satisfies ActionErr,
+            400,
+          );
+        if (problem) warnings.push(problem);
+      }
+
+      const results = await runBatchOrderAction(admin, {
+        shop: session.shop,
+        action: batchAction as BatchOrderAction,
+        orderIds,
+        trackingNumber,
+        carrier,
+        notifyCustomer,
+        carriers,
+        hold: hold || { reason: "OTHER" },
+        locationId,
+      });
+      await audit({
+        orderIds,
+        orderNames: results.flatMap((r) => (r.orderName ? [r.orderName] : [])),
+        payload: {
+          action: batchAction,
+          orderIds,
+          trackingNumber,
+          carrier,
+          notifyCustomer,
+          hold,
+          locationId,
+        },
+        ok: results.every((r) => r.ok),
+        result: results,
+      });
+      await refreshCachedOrders(admin, session.shop, { orderIds });
+
+      return jsonResponse({
+        ok: true,
+        intent,
+        action: batchAction as BatchOrderAction,
+        results,
+        warnings,
+      } satisfies BatchOrdersOk);
+    }
+
+    // =========================
+    // CSV SYNC (upload -> dry-run job, fulfilled after csv_sync_confirm)
+    // columns:
+    // order_name (required), tracking_number (optional), carrier(optional), notify_customer(optional 1/0/true/false)
+    // =========================
+    if (intent === "csv_sync") {
+      const file = form.get("csv_file");
+      if (!(file instanceof File))
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Please upload a CSV, TSV or XLSX file.",
+          } satisfies ActionErr,
+          400,
+        );
+
+      // Empty = auto-detect the columns from the header row
+      const profileId = String(form.get("mapping_profile_id") || "");
+      const profile = profileId
+        ? await getMappingProfile(session.shop, profileId)
+        : null;
+      if (profileId && !profile)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Mapping profile not found.",
+          } satisfies ActionErr,
+          404,
+        );
+
+      const sheet = await readUploadedSheet(file);
+      if (!sheet.ok)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: sheet.error,
+          } satisfies ActionErr,
+          400,
+        );
+
+      const created = await createCsvSyncJob({
+        shop: session.shop,
+        filename: file.name || "upload.csv",
+        table: sheet.table,
+        uploader: access.staff,
+        preview: true,
+        profile,
+      });
+      await audit({
+        payload: {
+          filename: file.name,
+          mappingProfile: profile?.name ?? null,
+          rows: sheet.table.rows.length,
+        },
+        ok: created.ok,
+        result: created.ok ? { jobId: created.job.id } : created,
+      });
+      if (!created.ok)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: created.error,
+          } satisfies ActionErr,
+          400,
+        );
+
+      return jsonResponse({
+        ok: true,
+        intent,
+        job: created.job,
+      } satisfies CsvSyncOk);
+    }
+
+    // =========================
+    // CSV SYNC STATUS / CONFIRM / DISCARD
+    // status is polled by the page while a job runs;
+    // confirm / discard act on a job whose dry run is ready
+    // =========================
+    if (
+      intent === "csv_sync_status" ||
+      intent === "csv_sync_confirm" ||
+      intent === "csv_sync_discard"
+    ) {
+      const jobId = String(form.get("job_id") || "");
+      if (!jobId)
+        return jsonResponse(
+          { ok: false, intent, error: "Missing job_id" } satisfies ActionErr,
+          400,
+        );
+
+      if (intent !== "csv_sync_status") {
+        const changed =
+          intent === "csv_sync_confirm"
+            ? await confirmCsvSyncJob(session.shop, jobId)
+            : await discardCsvSyncJob(session.shop, jobId);
+        await audit({ payload: { jobId }, ok: changed, result: null });
+        if (!changed)
+          return jsonResponse(
+            {
+              ok: false,
+              intent,
+              error: "This sync job is no longer awaiting confirmation.",
+            } satisfies ActionErr,
+            409,
+          );
+      }
+
+      const job = await getCsvSyncJob(session.shop, jobId);
+      if (!job)
+        return jsonResponse(
+          {
+            ok: false,
+            intent,
+            error: "Sync job not found.",
+          } satisfies ActionErr,
+          404,
+        );
+
+      return jsonResponse({
+        ok: true,
+        intent,
+        job,
+      } satisfies CsvSyncStatusOk);
+    }
+
+    return jsonResponse(
+      {
+        ok: false,
+        intent,
+        error: "Unknown action intent.",
+      } satisfies ActionErr,
+      400,
+    );
   } catch (e: any) {
     if (e instanceof Response) return e;
     return jsonResponse(
@@ -790,35 +1253,931 @@ export async function action({ request }: ActionFunctionArgs) {
 
 /**
  * =========================
- * UI state for per-item tracking
+ * UI state for per-item tracking
+ * =========================
+ */
+type ItemState = {
+  picked: boolean;
+  qty: string; // keep string to avoid Polaris TextField issues
+  tn: string;
+  cr: string;
+  foId: string; // fulfillmentOrderId
+  max: number;
+};
+
+function buildInitialItemState(
+  details: OrderDetailsOk,
+): Record<string, ItemState> {
+  const map: Record<string, ItemState> = {};
+  for (const fo of details.fulfillmentOrders) {
+    for (const li of fo.lineItems) {
+      map[li.id] = {
+        picked: false,
+        qty: "0",
+        tn: "",
+        cr: "",
+        foId: fo.id,
+        max: li.remainingQuantity,
+      };
+    }
+  }
+  return map;
+}
+
+/**
+ * =========================
+ * CSV dry-run preview
+ * =========================
+ */
+function CsvPreview({
+  job,
+  busy,
+  onConfirm,
+  onDiscard,
+}: {
+  job: CsvSyncJobSummary;
+  busy: boolean;
+  onConfirm: () => void;
+  onDiscard: () => void;
+}) {
+  const rows = job.preview || [];
+  const cellStyle = {
+    padding: "8px 10px",
+    borderBottom: "1px solid rgba(0,0,0,.08)",
+    verticalAlign: "top" as const,
+  };
+
+  return (
+    <Banner
+      tone={job.previewFailedRows ? "warning" : "info"}
+      title="Review CSV before fulfilling"
+    >
+      <BlockStack gap="300">
+        <p>
+          <code>{job.filename}</code>: <b>{job.totalRows}</b> rows would create{" "}
+          <b>{job.plannedFulfillments}</b> fulfillment(s) ·{" "}
+          <b>{job.previewFailedRows}</b> row(s) will fail ·{" "}
+          <b>{job.previewSkippedRows}</b> already-synced row(s) will be skipped.
+          Nothing has been fulfilled yet.
+        </p>
+
+        <Text as="p" tone="subdued">
+          {job.mappingProfileName
+            ? `Profile "${job.mappingProfileName}": `
+            : "Auto-detected columns: "}
+          {job.mapping.map((m) => `${m.header} → ${m.field}`).join(" · ")}
+        </Text>
+
+        <div style={{ overflowX: "auto", maxHeight: 420, overflowY: "auto" }}>
+          <table
+            style={{ width: "100%", borderCollapse: "collapse", minWidth: 860 }}
+          >
+            <thead>
+              <tr>
+                {[
+                  "Row",
+                  "Order",
+                  "Items to fulfill",
+                  "Tracking #",
+                  "Carrier",
+                  "Notify",
+                  "Result",
+                ].map((h) => (
+                  <th
+                    key={h}
+                    style={{
+                      ...cellStyle,
+                      textAlign: "left",
+                      whiteSpace: "nowrap",
+                    }}
+                  >
+                    <Text as="span" fontWeight="semibold">
+                      {h}
+                    </Text>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((r) => (
+                <tr key={r.row}>
+                  <td style={cellStyle}>{r.row}</td>
+                  <td style={cellStyle}>{r.orderName || "—"}</td>
+                  <td style={cellStyle}>
+                    {r.lines.map((li, i) => (
+                      <div key={i}>
+                        {li.quantity} × {li.title}
+                        {li.sku ? ` (${li.sku})` : ""}
+                      </div>
+                    ))}
+                  </td>
+                  <td style={cellStyle}>{r.trackingNumber || "—"}</td>
+                  <td style={cellStyle}>{r.carrier || "—"}</td>
+                  <td style={cellStyle}>{r.notifyCustomer ? "yes" : "no"}</td>
+                  <td style={cellStyle}>
+                    {r.skipped ? (
+                      <Badge tone="info">{`skip: ${r.error}`}</Badge>
+                    ) : r.error ? (
+                      <Badge tone="critical">{r.error}</Badge>
+                    ) : r.warning ? (
+                      <Badge tone="warning">{`will fulfill: ${r.warning}`}</Badge>
+                    ) : (
+                      <Badge tone="success">will fulfill</Badge>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {rows.length < job.totalRows ? (
+          <Text as="p" tone="subdued">
+            Showing {rows.length} of {job.totalRows} rows (failing rows first).
+          </Text>
+        ) : null}
+
+        <InlineStack gap="200">
+          <Button
+            variant="primary"
+            onClick={onConfirm}
+            loading={busy}
+            disabled={busy || job.plannedFulfillments === 0}
+          >
+            {`Confirm & fulfill ${job.plannedFulfillments}`}
+          </Button>
+          <Button onClick={onDiscard} disabled={busy}>
+            Discard
+          </Button>
+        </InlineStack>
+      </BlockStack>
+    </Banner>
+  );
+}
+
+/**
+ * =========================
+ * Fulfillment orders of the expanded order: location, holds, moves
+ * =========================
+ */
+function FulfillmentOrderActions({
+  fulfillmentOrders,
+  canChange,
+  onChanged,
+}: {
+  fulfillmentOrders: OrderDetailsOk["fulfillmentOrders"];
+  // false: list them without the hold / release / move buttons
+  canChange: boolean;
+  onChanged: () => void;
+}) {
+  const fetcher = useFetcher<AnyFetcherData>();
+  const [holdingId, setHoldingId] = useState<string | null>(null);
+  const [reason, setReason] = useState<FulfillmentHoldReason>(
+    "INVENTORY_OUT_OF_STOCK",
+  );
+  const [notes, setNotes] = useState("");
+
+  // Move: candidate locations are loaded when the operator asks to move
+  const locationsFetcher = useFetcher<AnyFetcherData>();
+  const [movingId, setMovingId] = useState<string | null>(null);
+  const [moveLocationId, setMoveLocationId] = useState("");
+  const moveLocations =
+    locationsFetcher.data?.ok === true &&
+    locationsFetcher.data.intent === "fulfillment_order_locations" &&
+    locationsFetcher.data.fulfillmentOrderId === movingId
+      ? locationsFetcher.data.locations
+      : null;
+  const locationsErr =
+    locationsFetcher.data?.ok === false ? locationsFetcher.data : null;
+
+  const result =
+    fetcher.data &&
+    (fetcher.data.intent === "hold_fulfillment_order" ||
+      fetcher.data.intent === "release_fulfillment_order" ||
+      fetcher.data.intent === "move_fulfillment_order")
+      ? fetcher.data
+      : null;
+  const busy = fetcher.state !== "idle";
+
+  // The parent passes a new onChanged every render; only a new result reloads
+  const onChangedRef = useRef(onChanged);
+  useEffect(() => {
+    onChangedRef.current = onChanged;
+  });
+
+  // Reload the order once a hold / release / move went through
+  useEffect(() => {
+    if (fetcher.state === "idle" && result?.ok) {
+      setHoldingId(null);
+      setNotes("");
+      setMovingId(null);
+      setMoveLocationId("");
+      onChangedRef.current();
+    }
+  }, [fetcher.state, result]);
+
+  const submit = (fields: Record<string, string>) =>
+    fetcher.submit(fields, { method: "post" });
+
+  const startMove = (foId: string) => {
+    setHoldingId(null);
+    setMovingId(foId);
+    setMoveLocationId("");
+    locationsFetcher.submit(
+      { intent: "fulfillment_order_locations", fulfillment_order_id: foId },
+      { method: "post" },
+    );
+  };
+
+  const rows = fulfillmentOrders.filter(
+    (fo) => String(fo.status || "").toUpperCase() !== "CLOSED",
+  );
+  if (!rows.length) return null;
+
+  return (
+    <BlockStack gap="200">
+      {result && !result.ok ? (
+        <Banner tone="critical" title="Fulfillment order update failed">
+          <p>{result.error}</p>
+        </Banner>
+      ) : null}
+      {locationsErr ? (
+        <Banner tone="critical" title="Could not load locations">
+          <p>{locationsErr.error}</p>
+        </Banner>
+      ) : null}
+
+      {rows.map((fo) => {
+        const status = String(fo.status || "").toUpperCase();
+        const onHold = status === "ON_HOLD";
+        const canHold = status === "OPEN" || status === "IN_PROGRESS";
+
+        return (
+          <Box
+            key={fo.id}
+            padding="200"
+            borderWidth="025"
+            borderColor="border"
+            borderRadius="200"
+          >
+            <BlockStack gap="200">
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="span" fontWeight="semibold">
+                    FO #{fo.id.split("/").pop()}
+                  </Text>
+                  <Badge tone={onHold ? "warning" : "info"}>{status}</Badge>
+                  <Text as="span">
+                    {fo.assignedLocationName || "No assigned location"}
+                  </Text>
+                  {fo.holds.map((h, i) => (
+                    <Text as="span" tone="subdued" key={i}>
+                      {holdReasonLabel(h.reason)}
+                      {h.reasonNotes ? ` — ${h.reasonNotes}` : ""}
+                    </Text>
+                  ))}
+                </InlineStack>
+
+                {!canChange ? null : onHold ? (
+                  <Button
+                    size="slim"
+                    loading={busy}
+                    disabled={busy}
+                    onClick={() =>
+                      submit({
+                        intent: "release_fulfillment_order",
+                        fulfillment_order_id: fo.id,
+                      })
+                    }
+                  >
+                    Release hold
+                  </Button>
+                ) : (
+                  <InlineStack gap="200">
+                    {fo.canMove && movingId !== fo.id ? (
+                      <Button
+                        size="slim"
+                        disabled={busy}
+                        onClick={() => startMove(fo.id)}
+                      >
+                        Move
+                      </Button>
+                    ) : null}
+                    {canHold && holdingId !== fo.id ? (
+                      <Button
+                        size="slim"
+                        disabled={busy}
+                        onClick={() => {
+                          setMovingId(null);
+                          setHoldingId(fo.id);
+                        }}
+                      >
+                        Hold
+                      </Button>
+                    ) : null}
+                  </InlineStack>
+                )}
+              </InlineStack>
+
+              {movingId === fo.id ? (
+                locationsFetcher.state !== "idle" || !moveLocations ? (
+                  locationsErr ? null : (
+                    <InlineStack gap="200">
+                      <Spinner size="small" />
+                      <Text as="span">Loading locations...</Text>
+                    </InlineStack>
+                  )
+                ) : (
+                  <InlineStack gap="300" align="start" blockAlign="end">
+                    <div style={{ minWidth: 320 }}>
+                      <Select
+                        label="Move to location"
+                        options={[
+                          { label: "Choose a location", value: "" },
+                          ...moveLocations
+                            .filter((l) => l.id !== fo.assignedLocationId)
+                            .map((l) => ({
+                              label: l.movable
+                                ? `${l.name} · ${l.availableCount}/${
+                                    l.availableCount + l.unavailableCount
+                                  } items in stock`
+                                : `${l.name} · ${l.message || "not available"}`,
+                              value: l.id,
+                              disabled: !l.movable,
+                            })),
+                        ]}
+                        value={moveLocationId}
+                        onChange={setMoveLocationId}
+                      />
+                    </div>
+                    <Button
+                      variant="primary"
+                      loading={busy}
+                      disabled={busy || !moveLocationId}
+                      onClick={() =>
+                        submit({
+                          intent: "move_fulfillment_order",
+                          fulfillment_order_id: fo.id,
+                          location_id: moveLocationId,
+                        })
+                      }
+                    >
+                      Move
+                    </Button>
+                    <Button onClick={() => setMovingId(null)} disabled={busy}>
+                      Cancel
+                    </Button>
+                  </InlineStack>
+                )
+              ) : null}
+
+              {holdingId === fo.id ? (
+                <InlineStack gap="300" align="start" blockAlign="end">
+                  <div style={{ minWidth: 220 }}>
+                    <Select
+                      label="Reason"
+                      options={FULFILLMENT_HOLD_REASONS.map((r) => ({
+                        label: r.label,
+                        value: r.value,
+                      }))}
+                      value={reason}
+                      onChange={(v) => setReason(v as FulfillmentHoldReason)}
+                    />
+                  </div>
+                  <div style={{ minWidth: 260 }}>
+                    <TextField
+                      label="Notes"
+                      value={notes}
+                      onChange={setNotes}
+                      autoComplete="off"
+                    />
+                  </div>
+                  <Button
+                    variant="primary"
+                    tone="critical"
+                    loading={busy}
+                    disabled={busy}
+                    onClick={() =>
+                      submit({
+                        intent: "hold_fulfillment_order",
+                        fulfillment_order_id: fo.id,
+                        hold_reason: reason,
+                        hold_notes: notes,
+                      })
+                    }
+                  >
+                    Place on hold
+                  </Button>
+                  <Button onClick={() => setHoldingId(null)} disabled={busy}>
+                    Cancel
+                  </Button>
+                </InlineStack>
+              ) : null}
+            </BlockStack>
+          </Box>
+        );
+      })}
+    </BlockStack>
+  );
+}
+
+/**
+ * =========================
+ * Fulfillments already created for the expanded order:
+ * fix the tracking number or cancel
+ * =========================
+ */
+function ExistingFulfillments({
+  fulfillments,
+  trackingProblem,
+  canChange,
+  onChanged,
+}: {
+  fulfillments: ExistingFulfillment[];
+  trackingProblem: (tn: string, cr: string) => string | null;
+  // false: list them without the edit / cancel buttons
+  canChange: boolean;
+  onChanged: () => void;
+}) {
+  const fetcher = useFetcher<AnyFetcherData>();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [cancellingId, setCancellingId] = useState<string | null>(null);
+  const [tn, setTn] = useState("");
+  const [cr, setCr] = useState("");
+  const [notify, setNotify] = useState(true);
+
+  const result =
+    fetcher.data &&
+    (fetcher.data.intent === "update_tracking" ||
+      fetcher.data.intent === "cancel_fulfillment")
+      ? fetcher.data
+      : null;
+  const busy = fetcher.state !== "idle";
+
+  const onChangedRef = useRef(onChanged);
+  useEffect(() => {
+    onChangedRef.current = onChanged;
+  });
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && result?.ok) {
+      setEditingId(null);
+      setCancellingId(null);
+      onChangedRef.current();
+    }
+  }, [fetcher.state, result]);
+
+  const startEdit = (f: ExistingFulfillment) => {
+    setCancellingId(null);
+    setEditingId(f.id);
+    setTn(f.trackingInfo[0]?.number || "");
+    setCr(f.trackingInfo[0]?.company || "");
+  };
+
+  if (!fulfillments.length) return null;
+
+  return (
+    <BlockStack gap="200">
+      <Text as="h3" variant="headingSm">
+        Fulfillments
+      </Text>
+
+      {result && !result.ok ? (
+        <Banner tone="critical" title="Fulfillment update failed">
+          <p>{result.error}</p>
+          {result.details ? (
+            <pre style={{ whiteSpace: "pre-wrap" }}>{result.details}</pre>
+          ) : null}
+        </Banner>
+      ) : null}
+      {result?.ok && result.intent === "update_tracking" && result.warning ? (
+        <Banner tone="warning" title="Tracking updated">
+          <p>Check this tracking number: {result.warning}</p>
+        </Banner>
+      ) : null}
+
+      {fulfillments.map((f) => {
+        const active = f.status === "SUCCESS";
+        return (
+          <Box
+            key={f.id}
+            padding="200"
+            borderWidth="025"
+            borderColor="border"
+            borderRadius="200"
+          >
+            <BlockStack gap="200">
+              <InlineStack align="space-between" blockAlign="center">
+                <InlineStack gap="200" blockAlign="center">
+                  <Text as="span" fontWeight="semibold">
+                    {f.name}
+                  </Text>
+                  <Badge tone={active ? "success" : undefined}>
+                    {f.status}
+                  </Badge>
+                  <Text as="span" tone="subdued">
+                    {f.trackingInfo.length
+                      ? f.trackingInfo
+                          .map((t) =>
+                            t.company ? `${t.number} (${t.company})` : t.number,
+                          )
+                          .join(", ")
+                      : "No tracking"}
+                  </Text>
+                </InlineStack>
+
+                {canChange && active && editingId !== f.id ? (
+                  <InlineStack gap="200">
+                    <Button
+                      size="slim"
+                      disabled={busy}
+                      onClick={() => startEdit(f)}
+                    >
+                      Edit tracking
+                    </Button>
+                    {cancellingId === f.id ? (
+                      <>
+                        <Button
+                          size="slim"
+                          variant="primary"
+                          tone="critical"
+                          loading={busy}
+                          disabled={busy}
+                          onClick={() =>
+                            fetcher.submit(
+                              {
+                                intent: "cancel_fulfillment",
+                                fulfillment_id: f.id,
+                              },
+                              { method: "post" },
+                            )
+                          }
+                        >
+                          Confirm cancel
+                        </Button>
+                        <Button
+                          size="slim"
+                          disabled={busy}
+                          onClick={() => setCancellingId(null)}
+                        >
+                          Keep
+                        </Button>
+                      </>
+                    ) : (
+                      <Button
+                        size="slim"
+                        tone="critical"
+                        disabled={busy}
+                        onClick={() => setCancellingId(f.id)}
+                      >
+                        Cancel fulfillment
+                      </Button>
+                    )}
+                  </InlineStack>
+                ) : null}
+              </InlineStack>
+
+              {editingId === f.id ? (
+                <InlineStack gap="300" align="start" blockAlign="end">
+                  <div style={{ minWidth: 260 }}>
+                    <TextField
+                      label="Tracking number"
+                      value={tn}
+                      onChange={setTn}
+                      error={trackingProblem(tn, cr) || undefined}
+                      autoComplete="off"
+                    />
+                  </div>
+                  <div style={{ minWidth: 200 }}>
+                    <TextField
+                      label="Carrier"
+                      value={cr}
+                      onChange={setCr}
+                      autoComplete="off"
+                    />
+                  </div>
+                  <Checkbox
+                    label="Notify customer"
+                    checked={notify}
+                    onChange={setNotify}
+                  />
+                  <Button
+                    variant="primary"
+                    loading={busy}
+                    disabled={busy || !tn.trim()}
+                    onClick={() =>
+                      fetcher.submit(
+                        {
+                          intent: "update_tracking",
+                          fulfillment_id: f.id,
+                          tracking_number: tn,
+                          carrier: cr,
+                          notify_customer: notify ? "1" : "0",
+                        },
+                        { method: "post" },
+                      )
+                    }
+                  >
+                    Save
+                  </Button>
+                  <Button onClick={() => setEditingId(null)} disabled={busy}>
+                    Cancel
+                  </Button>
+                </InlineStack>
+              ) : null}
+            </BlockStack>
+          </Box>
+        );
+      })}
+    </BlockStack>
+  );
+}
+
+/**
+ * =========================
+ * Tracking corrections file (bulk update / cancel)
+ * =========================
+ */
+function TrackingCorrectionsCard() {
+  const fetcher = useFetcher<AnyFetcherData>();
+  const result =
+    fetcher.data?.intent === "tracking_corrections" ? fetcher.data : null;
+  const okCount =
+    result?.ok === true ? result.results.filter((r) => r.ok).length : 0;
+
+  return (
+    <Card>
+      <BlockStack gap="300">
+        <Text as="h2" variant="headingMd">
+          Tracking corrections
+        </Text>
+        <Text as="p" tone="subdued">
+          Fix fulfillments that were already created. Columns:{" "}
+          <code>order_name</code>, <code>tracking_number</code> (the new one),{" "}
+          <code>carrier</code>, <code>notify_customer</code>. Add{" "}
+          <code>current_tracking_number</code> when an order has several
+          fulfillments, and <code>action</code> = <code>cancel</code> to cancel
+          a fulfillment instead of changing its tracking.
+        </Text>
+
+        {result && !result.ok ? (
+          <Banner tone="critical" title="Corrections failed">
+            <p>{result.error}</p>
+          </Banner>
+        ) : null}
+
+        {result?.ok === true ? (
+          <Banner
+            tone={
+              okCount === result.results.length
+                ? "success"
+                : okCount
+                  ? "warning"
+                  : "critical"
+            }
+            title={`${okCount} of ${result.results.length} correction(s) applied`}
+          >
+            <ul>
+              {result.results.map((r) => (
+                <li key={r.line}>
+                  Row {r.line} · <b>{r.orderName || "—"}</b>: {r.message}
+                </li>
+              ))}
+            </ul>
+          </Banner>
+        ) : null}
+
+        <fetcher.Form method="post" encType="multipart/form-data">
+          <input type="hidden" name="intent" value="tracking_corrections" />
+          <InlineStack gap="300" align="start" blockAlign="center">
+            <input
+              name="corrections_file"
+              type="file"
+              accept=".csv,.tsv,.tab,.txt,.xlsx,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            />
+            <Button submit loading={fetcher.state !== "idle"}>
+              Apply corrections
+            </Button>
+          </InlineStack>
+        </fetcher.Form>
+      </BlockStack>
+    </Card>
+  );
+}
+
+/**
+ * =========================
+ * Per-order results of a batch action
  * =========================
  */
-type ItemState = {
-  picked: boolean;
-  qty: string; // keep string to avoid Polaris TextField issues
-  tn: string;
-  cr: string;
-  foId: string; // fulfillmentOrderId
-  max: number;
-};
+function BatchResultsBanner({
+  results,
+  warnings,
+}: {
+  results: BatchOrderResult[];
+  warnings: string[];
+}) {
+  const okCount = results.filter((r) => r.ok).length;
+  const tone =
+    okCount === results.length
+      ? "success"
+      : okCount > 0
+        ? "warning"
+        : "critical";
 
-function buildInitialItemState(
-  details: OrderDetailsOk,
-): Record<string, ItemState> {
-  const map: Record<string, ItemState> = {};
-  for (const fo of details.fulfillmentOrders) {
-    for (const li of fo.lineItems) {
-      map[li.id] = {
-        picked: false,
-        qty: "0",
-        tn: "",
-        cr: "",
-        foId: fo.id,
-        max: li.remainingQuantity,
-      };
-    }
+  return (
+    <Banner tone={tone} title={`${okCount} of ${results.length} order(s) done`}>
+      <ul>
+        {results.map((r) => (
+          <li key={r.orderId}>
+            <b>{r.orderName || r.orderId}</b>: {r.message}
+          </li>
+        ))}
+      </ul>
+      {warnings.length ? (
+        <>
+          <p>Check these tracking numbers:</p>
+          <ul>
+            {warnings.map((w) => (
+              <li key={w}>{w}</li>
+            ))}
+          </ul>
+        </>
+      ) : null}
+    </Banner>
+  );
+}
+
+/**
+ * =========================
+ * Location queue picker
+ * the choice is saved for the staff member, then becomes the URL location
+ * so the queue can be bookmarked (/app/fulfillment?location=...)
+ * =========================
+ */
+function QueuePicker({
+  filters,
+  locations,
+  counts,
+}: {
+  filters: OrderFilters;
+  locations: Array<{ id: string; name: string }>;
+  counts: { all: number; byLocation: Record<string, number> };
+}) {
+  const [, setSearchParams] = useSearchParams();
+  const fetcher = useFetcher<AnyFetcherData>();
+  const saved =
+    fetcher.data?.ok === true && fetcher.data.intent === "save_queue_location"
+      ? fetcher.data
+      : null;
+
+  // Read when a save comes back, so later URL / filter changes don't
+  // re-open the saved queue
+  const latest = useRef({ filters, setSearchParams });
+  useEffect(() => {
+    latest.current = { filters, setSearchParams };
+  });
+
+  // Saved -> open the queue (back to the first page, other filters kept).
+  // An explicit empty location keeps "all locations" from being redirected
+  // to the previously saved queue.
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !saved) return;
+    const params = orderFiltersToParams({
+      ...latest.current.filters,
+      location: saved.locationId || "",
+    });
+    if (!saved.locationId) params.set("location", "");
+    latest.current.setSearchParams(params);
+  }, [fetcher.state, saved]);
+
+  return (
+    <InlineStack gap="200" blockAlign="end">
+      <div style={{ minWidth: 280 }}>
+        <Select
+          label="Queue"
+          options={[
+            { label: `All locations (${counts.all})`, value: "" },
+            ...locations.map((l) => ({
+              label: `${l.name} (${counts.byLocation[l.id] ?? 0})`,
+              value: l.id,
+            })),
+          ]}
+          value={filters.location}
+          disabled={fetcher.state !== "idle"}
+          onChange={(v) =>
+            fetcher.submit(
+              { intent: "save_queue_location", location_id: v },
+              { method: "post" },
+            )
+          }
+        />
+      </div>
+      {fetcher.state !== "idle" ? <Spinner size="small" /> : null}
+    </InlineStack>
+  );
+}
+
+/**
+ * =========================
+ * Order list filters (URL search params)
+ * =========================
+ */
+function OrderFiltersBar({ filters }: { filters: OrderFilters }) {
+  const [, setSearchParams] = useSearchParams();
+  const [draft, setDraft] = useState<OrderFilters>(filters);
+
+  // Follow the URL (back / forward, shared links), not every revalidation
+  const filtersKey = JSON.stringify(filters);
+  const [draftKey, setDraftKey] = useState(filtersKey);
+  if (draftKey !== filtersKey) {
+    setDraftKey(filtersKey);
+    setDraft(filters);
   }
-  return map;
+
+  const set = (patch: Partial<OrderFilters>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        // new filters -> back to the first page
+        setSearchParams(orderFiltersToParams(draft));
+      }}
+    >
+      <BlockStack gap="200">
+        <InlineStack gap="200" wrap>
+          <TextField
+            label="Order"
+            value={draft.q}
+            onChange={(v) => set({ q: v })}
+            placeholder="#1001"
+            autoComplete="off"
+          />
+          <TextField
+            label="Created from"
+            type="date"
+            value={draft.from}
+            onChange={(v) => set({ from: v })}
+            autoComplete="off"
+          />
+          <TextField
+            label="Created to"
+            type="date"
+            value={draft.to}
+            onChange={(v) => set({ to: v })}
+            autoComplete="off"
+          />
+          <Select
+            label="Financial status"
+            options={[
+              { label: "Any", value: "" },
+              ...FINANCIAL_STATUSES.map((st) => ({
+                label: st.replace(/_/g, " "),
+                value: st,
+              })),
+            ]}
+            value={draft.financial}
+            onChange={(v) => set({ financial: v })}
+          />
+          <TextField
+            label="Tag"
+            value={draft.tag}
+            onChange={(v) => set({ tag: v })}
+            autoComplete="off"
+          />
+          <TextField
+            label="Sales channel"
+            value={draft.channel}
+            onChange={(v) => set({ channel: v })}
+            placeholder="online_store / pos"
+            autoComplete="off"
+          />
+        </InlineStack>
+
+        <InlineStack gap="200">
+          <Button submit>Apply filters</Button>
+          {/* the location queue is picked separately and stays */}
+          {hasOrderFilters({ ...filters, location: "" }) ? (
+            <Button
+              variant="plain"
+              onClick={() =>
+                setSearchParams(
+                  orderFiltersToParams({
+                    ...EMPTY_ORDER_FILTERS,
+                    location: filters.location,
+                  }),
+                )
+              }
+            >
+              Clear filters
+            </Button>
+          ) : null}
+        </InlineStack>
+      </BlockStack>
+    </form>
+  );
 }
 
 /**
@@ -831,6 +2190,32 @@ export default function FulfillmentCenterPage() {
 
   const orders: OrderListItem[] =
     loader && (loader as any).ok ? (loader as any).orders : [];
+  const mappingProfiles = loader.ok ? loader.mappingProfiles : [];
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Location queue = the location filter
+  const queueLocationId = loader.ok ? loader.filters.location : "";
+  const trackingValidation = loader.ok ? loader.trackingValidation : null;
+  // Staff roles: controls the staff member may not use are left out
+  const can = (p: Permission) => loader.ok && loader.permissions.includes(p);
+  const blockInvalidTracking = trackingValidation?.mode === "block";
+  const carrierRegistry = useMemo(
+    () =>
+      buildCarrierRegistry(
+        (trackingValidation?.customCarriers || []).map(customCarrierDef),
+      ),
+    [trackingValidation],
+  );
+  const trackingProblem = useCallback(
+    (tn: string, cr: string) =>
+      tn.trim()
+        ? validateTrackingNumber(
+            tn,
+            resolveCarrier(cr, carrierRegistry).carrier,
+          )
+        : null,
+    [carrierRegistry],
+  );
+  const [mappingProfileId, setMappingProfileId] = useState("");
 
   // Bulk CSV sync fetcher
   const bulkFetcher = useFetcher<AnyFetcherData>();
@@ -847,6 +2232,56 @@ export default function FulfillmentCenterPage() {
       ? (bulkFetcher.data as ActionErr)
       : null;
 
+  // Poll the queued CSV job until the worker finishes it
+  const jobFetcher = useFetcher<AnyFetcherData>();
+  const { submit: submitJobFetcher } = jobFetcher;
+  const { revalidate } = useRevalidator();
+  const polledJob =
+    jobFetcher.data &&
+    jobFetcher.data.ok === true &&
+    (jobFetcher.data.intent === "csv_sync_status" ||
+      jobFetcher.data.intent === "csv_sync_confirm" ||
+      jobFetcher.data.intent === "csv_sync_discard")
+      ? jobFetcher.data.job
+      : null;
+  const jobErr =
+    jobFetcher.data && jobFetcher.data.ok === false ? jobFetcher.data : null;
+  const csvJob =
+    bulkOk && polledJob && polledJob.id === bulkOk.job.id
+      ? polledJob
+      : (bulkOk?.job ?? null);
+  const isCsvJobPreviewing =
+    csvJob?.status === "preview_queued" || csvJob?.status === "previewing";
+  const isCsvJobActive =
+    isCsvJobPreviewing ||
+    csvJob?.status === "queued" ||
+    csvJob?.status === "running";
+
+  useEffect(() => {
+    if (!csvJob || !isCsvJobActive) return;
+    const t = setTimeout(() => {
+      const fd = new FormData();
+      fd.set("intent", "csv_sync_status");
+      fd.set("job_id", csvJob.id);
+      submitJobFetcher(fd, { method: "post" });
+    }, 2000);
+    return () => clearTimeout(t);
+  }, [csvJob, isCsvJobActive, submitJobFetcher]);
+
+  // Refresh the order list once the job has fulfilled orders
+  const finishedJobId = csvJob?.status === "completed" ? csvJob.id : null;
+  useEffect(() => {
+    if (finishedJobId) revalidate();
+  }, [finishedJobId, revalidate]);
+
+  const submitJobIntent = (intent: "csv_sync_confirm" | "csv_sync_discard") => {
+    if (!csvJob) return;
+    const fd = new FormData();
+    fd.set("intent", intent);
+    fd.set("job_id", csvJob.id);
+    jobFetcher.submit(fd, { method: "post" });
+  };
+
   // Details fetcher (lazy load when expand)
   const detailsFetcher = useFetcher<AnyFetcherData>();
   const [expandedId, setExpandedId] = useState<string | null>(null);
@@ -872,6 +2307,79 @@ export default function FulfillmentCenterPage() {
       ? (createFetcher.data as ActionErr)
       : null;
 
+  // Selected orders + batch actions on them
+  const {
+    selectedResources,
+    allResourcesSelected,
+    handleSelectionChange,
+    clearSelection,
+  } = useIndexResourceState(orders);
+  const batchFetcher = useFetcher<AnyFetcherData>();
+  const batchOk =
+    batchFetcher.data &&
+    batchFetcher.data.ok === true &&
+    batchFetcher.data.intent === "batch_orders"
+      ? batchFetcher.data
+      : null;
+  const batchErr =
+    batchFetcher.data &&
+    batchFetcher.data.ok === false &&
+    batchFetcher.data.intent === "batch_orders"
+      ? batchFetcher.data
+      : null;
+  const batchBusy = batchFetcher.state !== "idle";
+  const [batchAction, setBatchAction] = useState<BatchOrderAction | null>(null);
+  const [batchTN, setBatchTN] = useState("");
+  const [batchCR, setBatchCR] = useState("");
+  const [batchNotify, setBatchNotify] = useState(true);
+  const [batchHoldReason, setBatchHoldReason] = useState<FulfillmentHoldReason>(
+    "INVENTORY_OUT_OF_STOCK",
+  );
+  const [batchHoldNotes, setBatchHoldNotes] = useState("");
+
+  const submitBatch = () => {
+    if (!batchAction || !selectedResources.length) return;
+    const fd = new FormData();
+    fd.set("intent", "batch_orders");
+    fd.set("batch_action", batchAction);
+    for (const id of selectedResources) fd.append("order_id", id);
+    if (batchAction === "fulfill_tracking") {
+      fd.set("tracking_number", batchTN);
+      fd.set("carrier", batchCR);
+    }
+    if (batchAction === "hold") {
+      fd.set("hold_reason", batchHoldReason);
+      fd.set("hold_notes", batchHoldNotes);
+    }
+    fd.set("notify_customer", batchNotify ? "1" : "0");
+    if (queueLocationId) fd.set("location_id", queueLocationId);
+    batchFetcher.submit(fd, { method: "post" });
+  };
+
+  // Done -> drop the selection and close the confirm panel
+  useEffect(() => {
+    if (batchFetcher.state === "idle" && batchOk) {
+      clearSelection();
+      setBatchAction(null);
+      setBatchTN("");
+      setBatchCR("");
+      setBatchHoldNotes("");
+    }
+  }, [batchFetcher.state, batchOk, clearSelection]);
+
+  // A new page / filter shows other orders: start a new selection
+  const search = searchParams.toString();
+  useEffect(() => {
+    clearSelection();
+    setBatchAction(null);
+  }, [search, clearSelection]);
+
+  // Details are scoped to the queue location; reload them for a new queue
+  useEffect(() => {
+    setExpandedId(null);
+    setDetailsById({});
+  }, [queueLocationId]);
+
   // Apply-to-all tracking controls (per expanded order)
   const [applyAllTN, setApplyAllTN] = useState("");
   const [applyAllCR, setApplyAllCR] = useState("");
@@ -894,18 +2402,21 @@ export default function FulfillmentCenterPage() {
   const expandedDetails = expandedId ? detailsById[expandedId] : null;
   const expandedItems = expandedId ? itemsByOrderId[expandedId] : null;
 
+  const loadDetails = (orderId: string) => {
+    const fd = new FormData();
+    fd.set("intent", "order_details");
+    fd.set("order_id", orderId);
+    if (queueLocationId) fd.set("location_id", queueLocationId);
+    detailsFetcher.submit(fd, { method: "post" });
+  };
+
   // open/close row
   const toggleOrder = (orderId: string) => {
     setExpandedId((cur) => (cur === orderId ? null : orderId));
     // reset apply-to-all inputs when switching
     setApplyAllTN("");
     setApplyAllCR("");
-    if (!detailsById[orderId]) {
-      const fd = new FormData();
-      fd.set("intent", "order_details");
-      fd.set("order_id", orderId);
-      detailsFetcher.submit(fd, { method: "post" });
-    }
+    if (!detailsById[orderId]) loadDetails(orderId);
   };
 
   const setItem = (
@@ -997,88 +2508,216 @@ export default function FulfillmentCenterPage() {
       return st?.picked && Number(st.qty || 0) > 0;
     }).length;
   }, [expandedId, expandedItems, mergedItems]);
+
+  // Picked items whose tracking number fails validation
+  const invalidTrackingCount = useMemo(() => {
+    if (!expandedId || !expandedItems) return 0;
+
+    return mergedItems.filter((li) => {
+      const st = expandedItems[li.id];
+      if (!st?.picked || !isFulfillableFOStatus(li._foStatus)) return false;
+      return Boolean(trackingProblem(st.tn, st.cr));
+    }).length;
+  }, [expandedId, expandedItems, mergedItems, trackingProblem]);
   return (
     <Page title="Fulfillment Center">
       <Layout>
         {/* =========================
               BULK CSV
             ========================= */}
-        <Layout.Section>
-          <Card>
-            <BlockStack gap="300">
-              <Text as="h2" variant="headingMd">
-                Bulk Fulfill (CSV Sync)
-              </Text>
-
-              <Text as="p" tone="subdued">
-                Upload CSV and click Sync. Suggested columns:{" "}
-                <code>order_name</code>, <code>tracking_number</code>,{" "}
-                <code>carrier</code>, <code>notify_customer</code>.
-              </Text>
-
-              <bulkFetcher.Form method="post" encType="multipart/form-data">
-                <input type="hidden" name="intent" value="csv_sync" />
-                <BlockStack gap="300">
-                  <div>
-                    <Text as="p" fontWeight="semibold">
-                      CSV file
-                    </Text>
-                    <input name="csv_file" type="file" accept=".csv,text/csv" />
-                  </div>
-
-                  <InlineStack gap="200" align="start">
-                    <Button
-                      submit
-                      variant="primary"
-                      loading={bulkFetcher.state !== "idle"}
-                    >
-                      Sync CSV
-                    </Button>
-                  </InlineStack>
-                </BlockStack>
-              </bulkFetcher.Form>
-
-              {bulkErr ? (
-                <Banner tone="critical" title="CSV Sync Error">
-                  <p>{bulkErr.error}</p>
-                  {bulkErr.details ? (
-                    <pre style={{ whiteSpace: "pre-wrap" }}>
-                      {bulkErr.details}
-                    </pre>
-                  ) : null}
-                </Banner>
-              ) : null}
+        {can("bulk_import") ? (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  Bulk Fulfill (CSV Sync)
+                </Text>
 
-              {bulkOk ? (
-                <Banner tone="success" title="CSV Synced">
-                  <p>
-                    Processed <b>{bulkOk.processed}</b> / {bulkOk.totalRows}{" "}
-                    rows · created fulfillments:{" "}
-                    <b>{bulkOk.createdFulfillments}</b> · failed:{" "}
-                    <b>{bulkOk.failed}</b>
-                  </p>
+                <Text as="p" tone="subdued">
+                  Upload a CSV (comma, semicolon or tab separated), TSV or Excel
+                  (.xlsx, first sheet) file and click Sync. The file is
+                  previewed first (nothing is fulfilled until you confirm), then
+                  processed in the background. Suggested columns:{" "}
+                  <code>order_name</code>, <code>tracking_number</code>,{" "}
+                  <code>carrier</code>, <code>notify_customer</code>. For split
+                  parcels add <code>sku</code> or <code>line_item_id</code> and{" "}
+                  <code>quantity</code>: only those items are fulfilled, and
+                  rows of one order sharing a tracking number become one
+                  fulfillment.
+                </Text>
 
-                  {bulkOk.errorsSample?.length ? (
-                    <>
-                      <Divider />
-                      <p style={{ marginTop: 8 }}>
-                        <b>Error sample</b> (first {bulkOk.errorsSample.length})
+                <bulkFetcher.Form method="post" encType="multipart/form-data">
+                  <input type="hidden" name="intent" value="csv_sync" />
+                  <BlockStack gap="300">
+                    <div>
+                      <Text as="p" fontWeight="semibold">
+                        File (CSV, TSV or XLSX)
+                      </Text>
+                      <input
+                        name="csv_file"
+                        type="file"
+                        accept=".csv,.tsv,.tab,.txt,.xlsx,text/csv,text/tab-separated-values,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                      />
+                    </div>
+
+                    <Select
+                      label="Column mapping"
+                      name="mapping_profile_id"
+                      options={[
+                        { label: "Auto-detect from header row", value: "" },
+                        ...mappingProfiles.map((p) => ({
+                          label: p.name,
+                          value: p.id,
+                        })),
+                      ]}
+                      value={mappingProfileId}
+                      onChange={setMappingProfileId}
+                      helpText={
+                        <>
+                          Auto-detect recognises common names like{" "}
+                          <code>Order #</code> or <code>Tracking No.</code>;
+                          other headers need a profile.{" "}
+                          <Link to="/app/settings/csv-mapping">
+                            Manage mapping profiles
+                          </Link>
+                        </>
+                      }
+                    />
+
+                    <InlineStack gap="200" align="start">
+                      <Button
+                        submit
+                        variant="primary"
+                        loading={bulkFetcher.state !== "idle"}
+                      >
+                        Sync CSV
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+                </bulkFetcher.Form>
+
+                {bulkErr ? (
+                  <Banner tone="critical" title="CSV Sync Error">
+                    <p>{bulkErr.error}</p>
+                    {bulkErr.details ? (
+                      <pre style={{ whiteSpace: "pre-wrap" }}>
+                        {bulkErr.details}
+                      </pre>
+                    ) : null}
+                  </Banner>
+                ) : null}
+
+                {csvJob && isCsvJobActive ? (
+                  <Banner tone="info" title="CSV Sync in progress">
+                    <BlockStack gap="200">
+                      <p>
+                        <code>{csvJob.filename}</code> ·{" "}
+                        {isCsvJobPreviewing
+                          ? "previewing (nothing is fulfilled yet)"
+                          : csvJob.status === "queued"
+                            ? "queued"
+                            : "processing"}{" "}
+                        <b>
+                          {isCsvJobPreviewing
+                            ? csvJob.previewedRows
+                            : csvJob.processedRows}
+                        </b>{" "}
+                        / {csvJob.totalRows} rows
                       </p>
-                      <ul>
-                        {bulkOk.errorsSample.map((e, idx) => (
-                          <li key={idx}>
-                            Row {e.row}{" "}
-                            {e.order_name ? `(${e.order_name})` : ""}: {e.error}
-                          </li>
-                        ))}
-                      </ul>
-                    </>
-                  ) : null}
-                </Banner>
-              ) : null}
-            </BlockStack>
-          </Card>
-        </Layout.Section>
+                      <ProgressBar
+                        progress={
+                          csvJob.totalRows
+                            ? ((isCsvJobPreviewing
+                                ? csvJob.previewedRows
+                                : csvJob.processedRows) /
+                                csvJob.totalRows) *
+                              100
+                            : 0
+                        }
+                        size="small"
+                      />
+                    </BlockStack>
+                  </Banner>
+                ) : null}
+
+                {jobErr ? (
+                  <Banner tone="critical" title="CSV Sync Error">
+                    <p>{jobErr.error}</p>
+                  </Banner>
+                ) : null}
+
+                {csvJob && csvJob.status === "preview_ready" ? (
+                  <CsvPreview
+                    job={csvJob}
+                    busy={jobFetcher.state !== "idle"}
+                    onConfirm={() => submitJobIntent("csv_sync_confirm")}
+                    onDiscard={() => submitJobIntent("csv_sync_discard")}
+                  />
+                ) : null}
+
+                {csvJob && csvJob.status === "cancelled" ? (
+                  <Banner tone="info" title="CSV Sync discarded">
+                    <p>
+                      Nothing was fulfilled from <code>{csvJob.filename}</code>.
+                    </p>
+                  </Banner>
+                ) : null}
+
+                {csvJob && csvJob.status === "failed" ? (
+                  <Banner tone="critical" title="CSV Sync failed">
+                    <p>
+                      {csvJob.error || "The sync job stopped unexpectedly."}
+                    </p>
+                  </Banner>
+                ) : null}
+
+                {csvJob && csvJob.status === "completed" ? (
+                  <Banner tone="success" title="CSV Synced">
+                    <p>
+                      Processed <b>{csvJob.succeededRows}</b> /{" "}
+                      {csvJob.totalRows} rows · created fulfillments:{" "}
+                      <b>{csvJob.createdFulfillments}</b> · failed:{" "}
+                      <b>{csvJob.failedRows}</b> · skipped (already synced):{" "}
+                      <b>{csvJob.skippedRows}</b>
+                    </p>
+
+                    {csvJob.errorsSample?.length ? (
+                      <>
+                        <Divider />
+                        <p style={{ marginTop: 8 }}>
+                          <b>Error sample</b> (first{" "}
+                          {csvJob.errorsSample.length})
+                        </p>
+                        <ul>
+                          {csvJob.errorsSample.map((e, idx) => (
+                            <li key={idx}>
+                              Row {e.row}{" "}
+                              {e.order_name ? `(${e.order_name})` : ""}:{" "}
+                              {e.error}
+                            </li>
+                          ))}
+                        </ul>
+                      </>
+                    ) : null}
+                    <p>
+                      Per-row results and the annotated CSV are in{" "}
+                      <Link to="/app/sync-history">Sync history</Link>.
+                    </p>
+                  </Banner>
+                ) : null}
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ) : null}
+
+        {/* =========================
+              TRACKING CORRECTIONS
+            ========================= */}
+        {can("bulk_import") ? (
+          <Layout.Section>
+            <TrackingCorrectionsCard />
+          </Layout.Section>
+        ) : null}
 
         {/* =========================
               MANUAL (inline expand)
@@ -1101,9 +2740,26 @@ export default function FulfillmentCenterPage() {
                 Danh sách bên dưới là các order <b>Unfulfilled / Partial</b>.
                 Bấm Open để xổ ngay dưới dòng đó và nhập tracking theo từng
                 item. (Nếu tracking khác nhau, Shopify sẽ tạo nhiều fulfillment
-                theo nhóm tracking.)
+                theo nhóm tracking.) Tick nhiều order để fulfill hoặc hold cùng
+                lúc.
               </Text>
 
+              {loader.ok && loader.cachedAt ? (
+                <Text as="p" variant="bodySm" tone="subdued">
+                  {`Served from the local order cache, kept current by webhooks (last full check ${new Date(loader.cachedAt).toLocaleString()}).`}
+                </Text>
+              ) : null}
+
+              {loader.ok ? (
+                <QueuePicker
+                  filters={loader.filters}
+                  locations={loader.locations}
+                  counts={loader.queueCounts}
+                />
+              ) : null}
+
+              {loader.ok ? <OrderFiltersBar filters={loader.filters} /> : null}
+
               {createErr ? (
                 <Banner tone="critical" title="Create fulfillment error">
                   <p>{createErr.error}</p>
@@ -1129,9 +2785,147 @@ export default function FulfillmentCenterPage() {
                       </li>
                     ))}
                   </ul>
+                  {createOk.warnings.length ? (
+                    <>
+                      <p>Check these tracking numbers:</p>
+                      <ul>
+                        {createOk.warnings.map((w) => (
+                          <li key={w}>{w}</li>
+                        ))}
+                      </ul>
+                    </>
+                  ) : null}
+                </Banner>
+              ) : null}
+
+              {batchErr ? (
+                <Banner tone="critical" title="Batch action failed">
+                  <p>{batchErr.error}</p>
+                  {batchErr.details ? (
+                    <pre style={{ whiteSpace: "pre-wrap" }}>
+                      {batchErr.details}
+                    </pre>
+                  ) : null}
                 </Banner>
               ) : null}
 
+              {batchOk ? (
+                <BatchResultsBanner
+                  results={batchOk.results}
+                  warnings={batchOk.warnings}
+                />
+              ) : null}
+
+              {batchAction && selectedResources.length ? (
+                <Box
+                  padding="300"
+                  background="bg-surface-secondary"
+                  borderRadius="200"
+                >
+                  <BlockStack gap="300">
+                    <Text as="h3" variant="headingSm">
+                      {batchAction === "hold"
+                        ? `Place ${selectedResources.length} order(s) on hold`
+                        : batchAction === "release"
+                          ? `Release holds on ${selectedResources.length} order(s)`
+                          : batchAction === "fulfill_tracking"
+                            ? `Fulfill ${selectedResources.length} order(s) with one tracking number`
+                            : `Fulfill ${selectedResources.length} order(s) in full`}
+                    </Text>
+                    <Text as="p" tone="subdued">
+                      {batchAction === "hold"
+                        ? "Every open fulfillment order of the selected orders is put on hold."
+                        : batchAction === "release"
+                          ? "Every held fulfillment order of the selected orders is released."
+                          : "Every remaining item of the selected orders is fulfilled."}
+                    </Text>
+
+                    {batchAction === "hold" ? (
+                      <InlineStack gap="300" align="start">
+                        <div style={{ minWidth: 220 }}>
+                          <Select
+                            label="Reason"
+                            options={FULFILLMENT_HOLD_REASONS.map((r) => ({
+                              label: r.label,
+                              value: r.value,
+                            }))}
+                            value={batchHoldReason}
+                            onChange={(v) =>
+                              setBatchHoldReason(v as FulfillmentHoldReason)
+                            }
+                          />
+                        </div>
+                        <div style={{ minWidth: 300 }}>
+                          <TextField
+                            label="Notes"
+                            value={batchHoldNotes}
+                            onChange={setBatchHoldNotes}
+                            autoComplete="off"
+                          />
+                        </div>
+                      </InlineStack>
+                    ) : null}
+
+                    {batchAction === "fulfill_tracking" ? (
+                      <InlineStack gap="300" align="start">
+                        <div style={{ minWidth: 260 }}>
+                          <TextField
+                            label="Tracking number"
+                            value={batchTN}
+                            onChange={setBatchTN}
+                            error={
+                              trackingProblem(batchTN, batchCR) || undefined
+                            }
+                            autoComplete="off"
+                          />
+                        </div>
+                        <div style={{ minWidth: 220 }}>
+                          <TextField
+                            label="Carrier"
+                            value={batchCR}
+                            onChange={setBatchCR}
+                            autoComplete="off"
+                          />
+                        </div>
+                      </InlineStack>
+                    ) : null}
+
+                    {batchAction === "fulfill" ||
+                    batchAction === "fulfill_tracking" ? (
+                      <Checkbox
+                        label="Notify customers"
+                        checked={batchNotify}
+                        onChange={setBatchNotify}
+                      />
+                    ) : null}
+
+                    <InlineStack gap="200">
+                      <Button
+                        variant="primary"
+                        tone={batchAction === "hold" ? "critical" : undefined}
+                        onClick={submitBatch}
+                        loading={batchBusy}
+                        disabled={
+                          batchBusy ||
+                          (batchAction === "fulfill_tracking" &&
+                            (!batchTN.trim() ||
+                              (blockInvalidTracking &&
+                                Boolean(trackingProblem(batchTN, batchCR)))))
+                        }
+                      >
+                        Confirm
+                      </Button>
+                      <Button
+                        onClick={() => setBatchAction(null)}
+                        disabled={batchBusy}
+                      >
+                        Cancel
+                      </Button>
+                    </InlineStack>
+                  </BlockStack>
+                </Box>
+              ) : null}
+
               <IndexTable
                 resourceName={{ singular: "order", plural: "orders" }}
                 itemCount={orders.length}
@@ -1140,9 +2934,34 @@ export default function FulfillmentCenterPage() {
                   { title: "Order" },
                   { title: "Financial" },
                   { title: "Fulfillment" },
+                  { title: "Location" },
                   { title: "Created" },
                 ]}
-                selectable={false}
+                selectedItemsCount={
+                  allResourcesSelected ? "All" : selectedResources.length
+                }
+                onSelectionChange={handleSelectionChange}
+                selectable={can("fulfill")}
+                promotedBulkActions={[
+                  {
+                    content: "Fulfill in full",
+                    onAction: () => setBatchAction("fulfill"),
+                  },
+                  {
+                    content: "Fulfill with tracking",
+                    onAction: () => setBatchAction("fulfill_tracking"),
+                  },
+                ]}
+                bulkActions={[
+                  {
+                    content: "Place on hold",
+                    onAction: () => setBatchAction("hold"),
+                  },
+                  {
+                    content: "Release hold",
+                    onAction: () => setBatchAction("release"),
+                  },
+                ]}
               >
                 {orders.map((o, idx) => {
                   const isOpen = expandedId === o.id;
@@ -1162,9 +2981,15 @@ export default function FulfillmentCenterPage() {
 
                   return (
                     <React.Fragment key={o.id}>
-                      <IndexTable.Row id={o.id} position={idx}>
+                      {/* Clicking the row opens it; the checkbox selects it */}
+                      <IndexTable.Row
+                        id={o.id}
+                        position={idx}
+                        selected={selectedResources.includes(o.id)}
+                        onClick={() => toggleOrder(o.id)}
+                      >
                         <IndexTable.Cell>
-                          <Button size="slim" onClick={() => toggleOrder(o.id)}>
+                          <Button size="slim">
                             {isOpen ? "Close" : "Open"}
                           </Button>
                         </IndexTable.Cell>
@@ -1185,6 +3010,9 @@ export default function FulfillmentCenterPage() {
                             {String(o.fulfillmentStatus || "")}
                           </Badge>
                         </IndexTable.Cell>
+                        <IndexTable.Cell>
+                          {o.locationNames.join(", ")}
+                        </IndexTable.Cell>
                         <IndexTable.Cell>
                           {o.createdAt ? String(o.createdAt).slice(0, 10) : ""}
                         </IndexTable.Cell>
@@ -1195,8 +3023,9 @@ export default function FulfillmentCenterPage() {
                         <IndexTable.Row
                           id={`${o.id}-details`}
                           position={idx + 0.1}
+                          hideSelectable
                         >
-                          <IndexTable.Cell colSpan={5}>
+                          <IndexTable.Cell colSpan={6}>
                             <Box
                               padding="300"
                               background="bg-surface-secondary"
@@ -1264,386 +3093,439 @@ export default function FulfillmentCenterPage() {
                                         </InlineStack>
                                       </InlineStack>
 
-                                      {/* Apply-to-all tracking */}
-                                      <Divider />
-
-                                      <InlineStack gap="300" align="start">
-                                        <div style={{ minWidth: 260 }}>
-                                          <TextField
-                                            label="Tracking number (apply to all items)"
-                                            value={applyAllTN}
-                                            onChange={setApplyAllTN}
-                                            autoComplete="off"
-                                          />
-                                        </div>
-                                        <div style={{ minWidth: 220 }}>
-                                          <TextField
-                                            label="Carrier (apply to all items)"
-                                            value={applyAllCR}
-                                            onChange={setApplyAllCR}
-                                            autoComplete="off"
-                                          />
-                                        </div>
-                                        <div style={{ paddingTop: 22 }}>
-                                          <Button
-                                            onClick={applyToAll}
-                                            disabled={
-                                              !expandedId || !expandedItems
-                                            }
-                                          >
-                                            Apply
-                                          </Button>
-                                        </div>
-                                      </InlineStack>
+                                      <ExistingFulfillments
+                                        fulfillments={details.fulfillments}
+                                        trackingProblem={trackingProblem}
+                                        canChange={can("fulfill")}
+                                        onChanged={() =>
+                                          loadDetails(details.order.id)
+                                        }
+                                      />
+
+                                      <FulfillmentOrderActions
+                                        fulfillmentOrders={
+                                          details.fulfillmentOrders
+                                        }
+                                        canChange={can("fulfill")}
+                                        onChanged={() =>
+                                          loadDetails(details.order.id)
+                                        }
+                                      />
+
+                                      {can("fulfill") ? (
+                                        <>
+                                          {/* Apply-to-all tracking */}
+                                          <Divider />
+
+                                          <InlineStack gap="300" align="start">
+                                            <div style={{ minWidth: 260 }}>
+                                              <TextField
+                                                label="Tracking number (apply to all items)"
+                                                value={applyAllTN}
+                                                onChange={setApplyAllTN}
+                                                error={
+                                                  trackingProblem(
+                                                    applyAllTN,
+                                                    applyAllCR,
+                                                  ) || undefined
+                                                }
+                                                autoComplete="off"
+                                              />
+                                            </div>
+                                            <div style={{ minWidth: 220 }}>
+                                              <TextField
+                                                label="Carrier (apply to all items)"
+                                                value={applyAllCR}
+                                                onChange={setApplyAllCR}
+                                                autoComplete="off"
+                                              />
+                                            </div>
+                                            <div style={{ paddingTop: 22 }}>
+                                              <Button
+                                                onClick={applyToAll}
+                                                disabled={
+                                                  !expandedId || !expandedItems
+                                                }
+                                              >
+                                                Apply
+                                              </Button>
+                                            </div>
+                                          </InlineStack>
 
-                                      <Text as="p" tone="subdued">
-                                        Tip: Tick item + set Qty &gt; 0.
-                                        Tracking có thể khác nhau theo item (app
-                                        sẽ tự group).
-                                      </Text>
+                                          <Text as="p" tone="subdued">
+                                            Tip: Tick item + set Qty &gt; 0.
+                                            Tracking có thể khác nhau theo item
+                                            (app sẽ tự group).
+                                          </Text>
+                                        </>
+                                      ) : null}
                                     </BlockStack>
                                   </Card>
 
                                   {/* Create form */}
-                                  <createFetcher.Form method="post">
-                                    <input
-                                      type="hidden"
-                                      name="intent"
-                                      value="create_fulfillments_grouped"
-                                    />
-                                    <input
-                                      type="hidden"
-                                      name="order_id"
-                                      value={details.order.id}
-                                    />
-
-                                    <Card>
-                                      <BlockStack gap="300">
-                                        <InlineStack
-                                          align="space-between"
-                                          gap="200"
-                                        >
-                                          <Checkbox
-                                            label="Notify customer"
-                                            checked={true}
-                                            onChange={() => {
-                                              /* we keep default on for UX; hidden input controls actual submit */
-                                            }}
-                                          />
-                                          {/* Real submit value */}
-                                          <input
-                                            type="hidden"
-                                            name="notify_customer"
-                                            value="1"
-                                          />
-
-                                          <InlineStack gap="200" align="end">
-                                            <Badge tone="info">{`Picked: ${anyPickedCount}`}</Badge>
-                                            <Button
-                                              submit
-                                              variant="primary"
-                                              loading={
-                                                createFetcher.state !== "idle"
-                                              }
-                                              disabled={
-                                                createFetcher.state !==
-                                                  "idle" || anyPickedCount === 0
-                                              }
-                                            >
-                                              Create fulfillment(s)
-                                            </Button>
-                                          </InlineStack>
-                                        </InlineStack>
-
-                                        {/* Hidden inputs mirror current state so submit works */}
-                                        {expandedId && expandedItems
-                                          ? mergedItems.map((li) => {
-                                              const st = expandedItems[li.id];
-                                              if (!st) return null;
-                                              const liId = li.id;
-                                              return (
-                                                <React.Fragment key={liId}>
-                                                  <input
-                                                    type="hidden"
-                                                    name={`fo_${liId}`}
-                                                    value={li._foId}
-                                                  />
-                                                  <input
-                                                    type="hidden"
-                                                    name={`pick_${liId}`}
-                                                    value={
-                                                      st.picked ? "1" : "0"
-                                                    }
-                                                  />
-                                                  <input
-                                                    type="hidden"
-                                                    name={`qty_${liId}`}
-                                                    value={st.qty}
-                                                  />
-                                                  <input
-                                                    type="hidden"
-                                                    name={`tn_${liId}`}
-                                                    value={st.tn}
-                                                  />
-                                                  <input
-                                                    type="hidden"
-                                                    name={`cr_${liId}`}
-                                                    value={st.cr}
-                                                  />
-                                                </React.Fragment>
-                                              );
-                                            })
-                                          : null}
-
-                                        {/* Items table */}
-                                        <div style={{ overflowX: "auto" }}>
-                                          <table
-                                            style={{
-                                              width: "100%",
-                                              borderCollapse: "collapse",
-                                              minWidth: 980,
-                                            }}
+                                  {can("fulfill") ? (
+                                    <createFetcher.Form method="post">
+                                      <input
+                                        type="hidden"
+                                        name="intent"
+                                        value="create_fulfillments_grouped"
+                                      />
+                                      <input
+                                        type="hidden"
+                                        name="order_id"
+                                        value={details.order.id}
+                                      />
+
+                                      <Card>
+                                        <BlockStack gap="300">
+                                          <InlineStack
+                                            align="space-between"
+                                            gap="200"
                                           >
-                                            <thead>
-                                              <tr>
-                                                {[
-                                                  "Pick",
-                                                  "Title",
-                                                  "SKU",
-                                                  "Variant",
-                                                  "Remaining",
-                                                  "Qty",
-                                                  "Tracking #",
-                                                  "Carrier",
-                                                ].map((h) => (
-                                                  <th
-                                                    key={h}
-                                                    style={{
-                                                      textAlign: "left",
-                                                      padding: "10px 10px",
-                                                      borderBottom:
-                                                        "1px solid rgba(0,0,0,.12)",
-                                                      whiteSpace: "nowrap",
-                                                    }}
-                                                  >
-                                                    <Text
-                                                      as="span"
-                                                      fontWeight="semibold"
-                                                    >
-                                                      {h}
-                                                    </Text>
-                                                  </th>
-                                                ))}
-                                              </tr>
-                                            </thead>
-
-                                            <tbody>
-                                              {mergedItems.map((li) => {
-                                                // ⚠️ st đang key theo fulfillmentOrderLineItemId (li.id)
-                                                // mà mergedItems đã dedupe => st có thể undefined nếu bạn chọn "bản khác"
-                                                // nên mình lấy st theo li.id hiện tại (bản đầu tiên sau dedupe)
-                                                const st0 =
-                                                  expandedId && expandedItems
-                                                    ? expandedItems[li.id]
-                                                    : undefined;
-                                                if (!st0) return null;
-
-                                                // ép state dùng FO đang render (để create_fulfillments_grouped submit đúng fulfillmentOrderId)
-                                                const st =
-                                                  st0.foId === li._foId
-                                                    ? st0
-                                                    : {
-                                                        ...st0,
-                                                        foId: li._foId,
-                                                      };
-
-                                                const canFulfill =
-                                                  isFulfillableFOStatus(
-                                                    li._foStatus,
-                                                  );
-
-                                                const max = st.max;
+                                            <Checkbox
+                                              label="Notify customer"
+                                              checked={true}
+                                              onChange={() => {
+                                                /* we keep default on for UX; hidden input controls actual submit */
+                                              }}
+                                            />
+                                            {/* Real submit value */}
+                                            <input
+                                              type="hidden"
+                                              name="notify_customer"
+                                              value="1"
+                                            />
+
+                                            <InlineStack gap="200" align="end">
+                                              <Badge tone="info">{`Picked: ${anyPickedCount}`}</Badge>
+                                              {invalidTrackingCount ? (
+                                                <Badge
+                                                  tone={
+                                                    blockInvalidTracking
+                                                      ? "critical"
+                                                      : "warning"
+                                                  }
+                                                >{`Invalid tracking: ${invalidTrackingCount}`}</Badge>
+                                              ) : null}
+                                              <Button
+                                                submit
+                                                variant="primary"
+                                                loading={
+                                                  createFetcher.state !== "idle"
+                                                }
+                                                disabled={
+                                                  createFetcher.state !==
+                                                    "idle" ||
+                                                  anyPickedCount === 0 ||
+                                                  (blockInvalidTracking &&
+                                                    invalidTrackingCount > 0)
+                                                }
+                                              >
+                                                Create fulfillment(s)
+                                              </Button>
+                                            </InlineStack>
+                                          </InlineStack>
 
+                                          {/* Hidden inputs mirror current state so submit works */}
+                                          {expandedId && expandedItems
+                                            ? mergedItems.map((li) => {
+                                                const st = expandedItems[li.id];
+                                                if (!st) return null;
+                                                const liId = li.id;
                                                 return (
-                                                  <tr key={li._key}>
-                                                    <td
-                                                      style={{
-                                                        padding: "10px 10px",
-                                                        borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
-                                                      }}
-                                                    >
-                                                      <Checkbox
-                                                        label=""
-                                                        checked={st.picked}
-                                                        disabled={!canFulfill}
-                                                        onChange={(val) =>
-                                                          setItem(
-                                                            expandedId!,
-                                                            li.id,
-                                                            { picked: val },
-                                                          )
-                                                        }
-                                                      />
-                                                    </td>
-
-                                                    <td
-                                                      style={{
-                                                        padding: "10px 10px",
-                                                        borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
-                                                      }}
-                                                    >
-                                                      <BlockStack gap="050">
-                                                        <Text
-                                                          as="p"
-                                                          fontWeight="semibold"
-                                                        >
-                                                          {li.title}
-                                                        </Text>
-                                                      </BlockStack>
-                                                    </td>
-
-                                                    <td
-                                                      style={{
-                                                        padding: "10px 10px",
-                                                        borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
-                                                      }}
-                                                    >
-                                                      <Text as="span">
-                                                        {li.sku || ""}
-                                                      </Text>
-                                                    </td>
-
-                                                    <td
+                                                  <React.Fragment key={liId}>
+                                                    <input
+                                                      type="hidden"
+                                                      name={`fo_${liId}`}
+                                                      value={li._foId}
+                                                    />
+                                                    <input
+                                                      type="hidden"
+                                                      name={`pick_${liId}`}
+                                                      value={
+                                                        st.picked ? "1" : "0"
+                                                      }
+                                                    />
+                                                    <input
+                                                      type="hidden"
+                                                      name={`qty_${liId}`}
+                                                      value={st.qty}
+                                                    />
+                                                    <input
+                                                      type="hidden"
+                                                      name={`tn_${liId}`}
+                                                      value={st.tn}
+                                                    />
+                                                    <input
+                                                      type="hidden"
+                                                      name={`cr_${liId}`}
+                                                      value={st.cr}
+                                                    />
+                                                  </React.Fragment>
+                                                );
+                                              })
+                                            : null}
+
+                                          {/* Items table */}
+                                          <div style={{ overflowX: "auto" }}>
+                                            <table
+                                              style={{
+                                                width: "100%",
+                                                borderCollapse: "collapse",
+                                                minWidth: 980,
+                                              }}
+                                            >
+                                              <thead>
+                                                <tr>
+                                                  {[
+                                                    "Pick",
+                                                    "Title",
+                                                    "SKU",
+                                                    "Variant",
+                                                    "Remaining",
+                                                    "Qty",
+                                                    "Tracking #",
+                                                    "Carrier",
+                                                  ].map((h) => (
+                                                    <th
+                                                      key={h}
                                                       style={{
+                                                        textAlign: "left",
                                                         padding: "10px 10px",
                                                         borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
+                                                          "1px solid rgba(0,0,0,.12)",
+                                                        whiteSpace: "nowrap",
                                                       }}
                                                     >
-                                                      <Text as="span">
-                                                        {li.variantTitle || "—"}
+                                                      <Text
+                                                        as="span"
+                                                        fontWeight="semibold"
+                                                      >
+                                                        {h}
                                                       </Text>
-                                                    </td>
-
-                                                    <td
-                                                      style={{
-                                                        padding: "10px 10px",
-                                                        borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
-                                                      }}
-                                                    >
-                                                      <Badge
-                                                        tone={
-                                                          max > 0
-                                                            ? "info"
-                                                            : "critical"
-                                                        }
+                                                    </th>
+                                                  ))}
+                                                </tr>
+                                              </thead>
+
+                                              <tbody>
+                                                {mergedItems.map((li) => {
+                                                  // ⚠️ st đang key theo fulfillmentOrderLineItemId (li.id)
+                                                  // mà mergedItems đã dedupe => st có thể undefined nếu bạn chọn "bản khác"
+                                                  // nên mình lấy st theo li.id hiện tại (bản đầu tiên sau dedupe)
+                                                  const st0 =
+                                                    expandedId && expandedItems
+                                                      ? expandedItems[li.id]
+                                                      : undefined;
+                                                  if (!st0) return null;
+
+                                                  // ép state dùng FO đang render (để create_fulfillments_grouped submit đúng fulfillmentOrderId)
+                                                  const st =
+                                                    st0.foId === li._foId
+                                                      ? st0
+                                                      : {
+                                                          ...st0,
+                                                          foId: li._foId,
+                                                        };
+
+                                                  const canFulfill =
+                                                    isFulfillableFOStatus(
+                                                      li._foStatus,
+                                                    );
+
+                                                  const max = st.max;
+
+                                                  return (
+                                                    <tr key={li._key}>
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
+                                                        }}
                                                       >
-                                                        {String(max)}
-                                                      </Badge>
-                                                    </td>
-
-                                                    <td
-                                                      style={{
-                                                        padding: "10px 10px",
-                                                        borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
-                                                        width: 120,
-                                                      }}
-                                                    >
-                                                      <TextField
-                                                        label=""
-                                                        type="number"
-                                                        value={st.qty}
-                                                        disabled={!canFulfill}
-                                                        onChange={(val) => {
-                                                          const n = Math.max(
-                                                            0,
-                                                            Number(val || 0),
-                                                          );
-                                                          const clamped =
-                                                            isFinite(n)
-                                                              ? Math.min(n, max)
-                                                              : 0;
-                                                          setItem(
-                                                            expandedId!,
-                                                            li.id,
-                                                            {
-                                                              qty: String(
-                                                                clamped,
-                                                              ),
-                                                            },
-                                                          );
+                                                        <Checkbox
+                                                          label=""
+                                                          checked={st.picked}
+                                                          disabled={!canFulfill}
+                                                          onChange={(val) =>
+                                                            setItem(
+                                                              expandedId!,
+                                                              li.id,
+                                                              { picked: val },
+                                                            )
+                                                          }
+                                                        />
+                                                      </td>
+
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
+                                                        }}
+                                                      >
+                                                        <BlockStack gap="050">
+                                                          <Text
+                                                            as="p"
+                                                            fontWeight="semibold"
+                                                          >
+                                                            {li.title}
+                                                          </Text>
+                                                        </BlockStack>
+                                                      </td>
+
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
                                                         }}
-                                                        autoComplete="off"
-                                                      />
-                                                    </td>
+                                                      >
+                                                        <Text as="span">
+                                                          {li.sku || ""}
+                                                        </Text>
+                                                      </td>
 
-                                                    <td
-                                                      style={{
-                                                        padding: "10px 10px",
-                                                        borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
-                                                        width: 220,
-                                                      }}
-                                                    >
-                                                      <TextField
-                                                        label=""
-                                                        value={st.tn}
-                                                        disabled={!canFulfill}
-                                                        onChange={(val) =>
-                                                          setItem(
-                                                            expandedId!,
-                                                            li.id,
-                                                            { tn: val },
-                                                          )
-                                                        }
-                                                        placeholder="1Z... / YT..."
-                                                        autoComplete="off"
-                                                      />
-                                                    </td>
-
-                                                    <td
-                                                      style={{
-                                                        padding: "10px 10px",
-                                                        borderBottom:
-                                                          "1px solid rgba(0,0,0,.08)",
-                                                        width: 190,
-                                                      }}
-                                                    >
-                                                      <TextField
-                                                        label=""
-                                                        value={st.cr}
-                                                        disabled={!canFulfill}
-                                                        onChange={(val) =>
-                                                          setItem(
-                                                            expandedId!,
-                                                            li.id,
-                                                            { cr: val },
-                                                          )
-                                                        }
-                                                        placeholder="USPS / UPS..."
-                                                        autoComplete="off"
-                                                      />
-                                                    </td>
-                                                  </tr>
-                                                );
-                                              })}
-                                            </tbody>
-                                          </table>
-                                        </div>
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
+                                                        }}
+                                                      >
+                                                        <Text as="span">
+                                                          {li.variantTitle ||
+                                                            "—"}
+                                                        </Text>
+                                                      </td>
 
-                                        <Text as="p" tone="subdued">
-                                          Nếu bạn nhập tracking khác nhau cho
-                                          từng item, app sẽ tự group theo
-                                          tracking và tạo nhiều fulfillments.
-                                        </Text>
-                                      </BlockStack>
-                                    </Card>
-                                  </createFetcher.Form>
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
+                                                        }}
+                                                      >
+                                                        <Badge
+                                                          tone={
+                                                            max > 0
+                                                              ? "info"
+                                                              : "critical"
+                                                          }
+                                                        >
+                                                          {String(max)}
+                                                        </Badge>
+                                                      </td>
+
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
+                                                          width: 120,
+                                                        }}
+                                                      >
+                                                        <TextField
+                                                          label=""
+                                                          type="number"
+                                                          value={st.qty}
+                                                          disabled={!canFulfill}
+                                                          onChange={(val) => {
+                                                            const n = Math.max(
+                                                              0,
+                                                              Number(val || 0),
+                                                            );
+                                                            const clamped =
+                                                              isFinite(n)
+                                                                ? Math.min(
+                                                                    n,
+                                                                    max,
+                                                                  )
+                                                                : 0;
+                                                            setItem(
+                                                              expandedId!,
+                                                              li.id,
+                                                              {
+                                                                qty: String(
+                                                                  clamped,
+                                                                ),
+                                                              },
+                                                            );
+                                                          }}
+                                                          autoComplete="off"
+                                                        />
+                                                      </td>
+
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
+                                                          width: 220,
+                                                        }}
+                                                      >
+                                                        <TextField
+                                                          label=""
+                                                          value={st.tn}
+                                                          disabled={!canFulfill}
+                                                          error={
+                                                            trackingProblem(
+                                                              st.tn,
+                                                              st.cr,
+                                                            ) || undefined
+                                                          }
+                                                          onChange={(val) =>
+                                                            setItem(
+                                                              expandedId!,
+                                                              li.id,
+                                                              { tn: val },
+                                                            )
+                                                          }
+                                                          placeholder="1Z... / YT..."
+                                                          autoComplete="off"
+                                                        />
+                                                      </td>
+
+                                                      <td
+                                                        style={{
+                                                          padding: "10px 10px",
+                                                          borderBottom:
+                                                            "1px solid rgba(0,0,0,.08)",
+                                                          width: 190,
+                                                        }}
+                                                      >
+                                                        <TextField
+                                                          label=""
+                                                          value={st.cr}
+                                                          disabled={!canFulfill}
+                                                          onChange={(val) =>
+                                                            setItem(
+                                                              expandedId!,
+                                                              li.id,
+                                                              { cr: val },
+                                                            )
+                                                          }
+                                                          placeholder="USPS / UPS..."
+                                                          autoComplete="off"
+                                                        />
+                                                      </td>
+                                                    </tr>
+                                                  );
+                                                })}
+                                              </tbody>
+                                            </table>
+                                          </div>
+
+                                          <Text as="p" tone="subdued">
+                                            Nếu bạn nhập tracking khác nhau cho
+                                            từng item, app sẽ tự group theo
+                                            tracking và tạo nhiều fulfillments.
+                                          </Text>
+                                        </BlockStack>
+                                      </Card>
+                                    </createFetcher.Form>
+                                  ) : null}
                                 </BlockStack>
                               ) : null}
                             </Box>
@@ -1657,9 +3539,38 @@ export default function FulfillmentCenterPage() {
 
               {!orders.length ? (
                 <Banner tone="info" title="No orders">
-                  <p>Không có order nào đang Unfulfilled/Partial.</p>
+                  <p>
+                    {loader.ok && hasOrderFilters(loader.filters)
+                      ? "No open orders match these filters."
+                      : "Không có order nào đang Unfulfilled/Partial."}
+                  </p>
                 </Banner>
               ) : null}
+
+              {loader.ok &&
+              (loader.pageInfo.hasNextPage ||
+                loader.pageInfo.hasPreviousPage) ? (
+                <InlineStack align="center">
+                  <Pagination
+                    hasPrevious={loader.pageInfo.hasPreviousPage}
+                    onPrevious={() =>
+                      setSearchParams(
+                        orderFiltersToParams(loader.filters, {
+                          before: loader.pageInfo.startCursor || undefined,
+                        }),
+                      )
+                    }
+                    hasNext={loader.pageInfo.hasNextPage}
+                    onNext={() =>
+                      setSearchParams(
+                        orderFiltersToParams(loader.filters, {
+                          after: loader.pageInfo.endCursor || undefined,
+                        }),
+                      )
+                    }
+                  />
+                </InlineStack>
+              ) : null}
             </BlockStack>
           </Card>
         </Layout.Section>
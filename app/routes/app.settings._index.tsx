@@ -0,0 +1,183 @@
+// app/routes/app.settings._index.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { data, Link, useFetcher, useLoaderData } from "react-router";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  ChoiceList,
+  Banner,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  getShopSettings,
+  updateShopSettings,
+} from "../lib/shop-settings.server";
+import { getStaffAccess } from "../lib/permissions.server";
+
+/**
+ * =========================
+ * loader(): current settings for this shop
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+  return {
+    settings: await getShopSettings(session.shop),
+    canEdit: access.permissions.includes("manage_roles"),
+  };
+}
+
+/**
+ * =========================
+ * action(): save_settings
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  // Shop-wide: it changes what every staff member's fulfillments do
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("manage_roles"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "Only the store owner can change these settings.",
+      },
+      403,
+    );
+
+  if (intent === "save_settings") {
+    const invalidTracking = String(form.get("invalid_tracking") || "");
+    if (invalidTracking !== "warn" && invalidTracking !== "block")
+      return data({ ok: false, intent, error: "Choose warn or block." }, 400);
+
+    const settings = await updateShopSettings(session.shop, {
+      invalidTracking,
+    });
+    return { ok: true, intent, settings };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function SettingsPage() {
+  const { settings, canEdit } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [invalidTracking, setInvalidTracking] = useState(
+    settings.invalidTracking,
+  );
+
+  const result = fetcher.data;
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <Page title="Settings">
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Tracking number validation
+              </Text>
+              <Text as="p" tone="subdued">
+                Tracking numbers are checked against the carrier&apos;s formats
+                and check digits (UPS 1Z, USPS, FedEx, DHL Express and
+                international postal S10 numbers) in the Fulfillment Center and
+                in CSV syncs.
+              </Text>
+
+              {!canEdit ? (
+                <Banner tone="info" title="Read only">
+                  <p>Only the store owner can change these settings.</p>
+                </Banner>
+              ) : null}
+
+              {result && !result.ok && "error" in result ? (
+                <Banner tone="critical" title="Could not save settings">
+                  <p>{result.error}</p>
+                </Banner>
+              ) : null}
+              {result?.ok && !busy ? (
+                <Banner tone="success" title="Settings saved" />
+              ) : null}
+
+              <ChoiceList
+                title="When a tracking number looks invalid"
+                choices={[
+                  {
+                    label: "Warn, but create the fulfillment",
+                    value: "warn",
+                  },
+                  {
+                    label: "Block the fulfillment",
+                    value: "block",
+                    helpText:
+                      "Manual fulfillments are refused and CSV rows fail until the number is fixed.",
+                  },
+                ]}
+                selected={[invalidTracking]}
+                onChange={(v) =>
+                  setInvalidTracking(v[0] === "block" ? "block" : "warn")
+                }
+                disabled={!canEdit}
+              />
+
+              <InlineStack gap="200">
+                <Button
+                  variant="primary"
+                  loading={busy}
+                  disabled={busy || !canEdit}
+                  onClick={() =>
+                    fetcher.submit(
+                      {
+                        intent: "save_settings",
+                        invalid_tracking: invalidTracking,
+                      },
+                      { method: "post" },
+                    )
+                  }
+                >
+                  Save
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                More settings
+              </Text>
+              <Link to="/app/settings/csv-mapping">CSV column mapping</Link>
+              <Link to="/app/settings/carriers">Carriers</Link>
+              <Link to="/app/settings/order-cache">
+                Order cache &amp; backfill
+              </Link>
+              <Link to="/app/settings/ingestion">File ingestion (SFTP)</Link>
+              <Link to="/app/settings/api-keys">API keys</Link>
+              <Link to="/app/settings/webhooks">Outbound webhooks</Link>
+              <Link to="/app/settings/permissions">Staff permissions</Link>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,318 @@
+// app/routes/app.settings.api-keys.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  TextField,
+  Banner,
+  Badge,
+  IndexTable,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+} from "../lib/api-keys.server";
+import { recordAuditEvent } from "../lib/audit.server";
+import { getStaffAccess } from "../lib/permissions.server";
+
+/**
+ * =========================
+ * loader(): API keys for this shop (never the keys themselves)
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+  return {
+    keys: await listApiKeys(session.shop),
+    endpoint: `${new URL(request.url).origin}/api/v1/fulfillments`,
+    canEdit: access.permissions.includes("bulk_import"),
+  };
+}
+
+/**
+ * =========================
+ * action(): create_key / revoke_key
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  // A key fulfills orders unattended, so it takes the bulk import role
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("bulk_import"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "You don't have permission to manage API keys.",
+      },
+      403,
+    );
+
+  if (intent === "create_key") {
+    const res = await createApiKey(session.shop, {
+      name: String(form.get("name") || ""),
+      createdBy: access.staff.userId,
+    });
+    if (!res.ok) return data({ ok: false, intent, error: res.error }, 400);
+
+    await recordAuditEvent({
+      shop: session.shop,
+      staff: access.staff,
+      intent: "create_api_key",
+      payload: { name: res.apiKey.name, prefix: res.apiKey.prefix },
+      ok: true,
+      result: { id: res.apiKey.id },
+    });
+    // Shown once; only the hash is stored
+    return { ok: true, intent, key: res.key, apiKey: res.apiKey };
+  }
+
+  if (intent === "revoke_key") {
+    const revoked = await revokeApiKey(
+      session.shop,
+      String(form.get("id") || ""),
+    );
+    if (!revoked)
+      return data({ ok: false, intent, error: "Key not found." }, 404);
+
+    await recordAuditEvent({
+      shop: session.shop,
+      staff: access.staff,
+      intent: "revoke_api_key",
+      payload: { name: revoked.name, prefix: revoked.prefix },
+      ok: true,
+      result: { id: revoked.id },
+    });
+    return { ok: true, intent };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+function formatDate(iso: string | null) {
+  return iso ? iso.slice(0, 16).replace("T", " ") : "—";
+}
+
+const EXAMPLE_BODY = `{
+  "orders": [
+    {
+      "order_name": "#1001",
+      "notify_customer": true,
+      "tracking_number": "1Z999AA10123456784",
+      "carrier": "UPS",
+      "line_items": [{ "sku": "TSHIRT-M", "quantity": 1 }]
+    }
+  ]
+}`;
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function ApiKeysPage() {
+  const { keys, endpoint, canEdit } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [name, setName] = useState("");
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const result = fetcher.data;
+  const error = result && !result.ok && "error" in result ? result.error : null;
+  const created =
+    result?.ok && "key" in result && result.key && result.apiKey
+      ? { key: result.key, name: result.apiKey.name }
+      : null;
+
+  useEffect(() => {
+    if (fetcher.state === "idle" && result?.ok) {
+      setName("");
+      setRevokingId(null);
+    }
+  }, [fetcher.state, result]);
+
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <Page title="API keys" backAction={{ url: "/app/settings" }}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Create API key
+              </Text>
+              <Text as="p" tone="subdued">
+                External systems such as a WMS can push tracking numbers to{" "}
+                <code>POST {endpoint}</code> with the header{" "}
+                <code>Authorization: Bearer &lt;key&gt;</code>. Orders are
+                fulfilled like a CSV sync: carriers, tracking validation and
+                duplicate checks apply, and every fulfillment shows up in the
+                audit log.
+              </Text>
+
+              {!canEdit ? (
+                <Banner tone="info" title="Read only">
+                  <p>Managing API keys takes the bulk importer role.</p>
+                </Banner>
+              ) : null}
+
+              {error ? (
+                <Banner tone="critical" title="API key error">
+                  <p>{error}</p>
+                </Banner>
+              ) : null}
+
+              {created ? (
+                <Banner tone="success" title={`Key "${created.name}" created`}>
+                  <BlockStack gap="200">
+                    <p>
+                      Copy it now. Only a hash is stored, so it can&apos;t be
+                      shown again.
+                    </p>
+                    <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                      {created.key}
+                    </pre>
+                  </BlockStack>
+                </Banner>
+              ) : null}
+
+              <InlineStack gap="200" align="start" blockAlign="end">
+                <div style={{ minWidth: 300 }}>
+                  <TextField
+                    label="Name"
+                    value={name}
+                    onChange={setName}
+                    placeholder="Warehouse WMS"
+                    disabled={!canEdit}
+                    autoComplete="off"
+                  />
+                </div>
+                <Button
+                  variant="primary"
+                  loading={busy}
+                  disabled={busy || !canEdit || !name.trim()}
+                  onClick={() =>
+                    fetcher.submit(
+                      { intent: "create_key", name },
+                      { method: "post" },
+                    )
+                  }
+                >
+                  Create key
+                </Button>
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Keys
+              </Text>
+              <IndexTable
+                resourceName={{ singular: "key", plural: "keys" }}
+                itemCount={keys.length}
+                headings={[
+                  { title: "Name" },
+                  { title: "Key" },
+                  { title: "Created" },
+                  { title: "Last used" },
+                  { title: "" },
+                ]}
+                selectable={false}
+              >
+                {keys.map((k, idx) => (
+                  <IndexTable.Row id={k.id} key={k.id} position={idx}>
+                    <IndexTable.Cell>{k.name}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <code>{k.prefix}…</code>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{formatDate(k.createdAt)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {formatDate(k.lastUsedAt)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {k.revokedAt ? (
+                        <Badge>{`revoked ${formatDate(k.revokedAt)}`}</Badge>
+                      ) : !canEdit ? (
+                        <Badge tone="success">active</Badge>
+                      ) : revokingId === k.id ? (
+                        <InlineStack gap="200">
+                          <Button
+                            size="slim"
+                            variant="primary"
+                            tone="critical"
+                            loading={busy}
+                            disabled={busy}
+                            onClick={() =>
+                              fetcher.submit(
+                                { intent: "revoke_key", id: k.id },
+                                { method: "post" },
+                              )
+                            }
+                          >
+                            Confirm revoke
+                          </Button>
+                          <Button
+                            size="slim"
+                            disabled={busy}
+                            onClick={() => setRevokingId(null)}
+                          >
+                            Keep
+                          </Button>
+                        </InlineStack>
+                      ) : (
+                        <Button
+                          size="slim"
+                          tone="critical"
+                          disabled={busy}
+                          onClick={() => setRevokingId(k.id)}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                Request body
+              </Text>
+              <Text as="p" tone="subdued">
+                Leave out <code>line_items</code> to fulfill everything
+                remaining. Line items take a <code>sku</code> or{" "}
+                <code>line_item_id</code>, and may carry their own tracking. The
+                response lists a result per line item.
+              </Text>
+              <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                {EXAMPLE_BODY}
+              </pre>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,308 @@
+// app/routes/app.settings.carriers.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  TextField,
+  Banner,
+  Box,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  deleteCustomCarrier,
+  listCustomCarriers,
+  saveCustomCarrier,
+} from "../lib/carriers.server";
+import { SHOPIFY_CARRIERS } from "../lib/carriers";
+import { getStaffAccess } from "../lib/permissions.server";
+
+/**
+ * =========================
+ * loader(): custom carriers for this shop
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+  return {
+    carriers: await listCustomCarriers(session.shop),
+    builtIn: SHOPIFY_CARRIERS.map((c) => c.company),
+    canEdit: access.permissions.includes("manage_roles"),
+  };
+}
+
+/**
+ * =========================
+ * action(): save_carrier / delete_carrier
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  // Shop-wide: the templates become the tracking links customers get
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("manage_roles"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "Only the store owner can change carriers.",
+      },
+      403,
+    );
+
+  if (intent === "save_carrier") {
+    const res = await saveCustomCarrier(session.shop, {
+      id: String(form.get("id") || "") || undefined,
+      name: String(form.get("name") || ""),
+      aliases: String(form.get("aliases") || ""),
+      urlTemplate: String(form.get("url_template") || ""),
+      trackingPattern: String(form.get("tracking_pattern") || ""),
+    });
+    if (!res.ok) return data({ ok: false, intent, error: res.error }, 400);
+    return { ok: true, intent, carrier: res.carrier };
+  }
+
+  if (intent === "delete_carrier") {
+    const deleted = await deleteCustomCarrier(
+      session.shop,
+      String(form.get("id") || ""),
+    );
+    if (!deleted)
+      return data({ ok: false, intent, error: "Carrier not found." }, 404);
+    return { ok: true, intent };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+type CarrierDraft = {
+  id: string | null;
+  name: string;
+  aliases: string;
+  urlTemplate: string;
+  trackingPattern: string;
+};
+
+const EMPTY_DRAFT: CarrierDraft = {
+  id: null,
+  name: "",
+  aliases: "",
+  urlTemplate: "",
+  trackingPattern: "",
+};
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function CarrierSettingsPage() {
+  const { carriers, builtIn, canEdit } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [draft, setDraft] = useState<CarrierDraft>(EMPTY_DRAFT);
+
+  const result = fetcher.data;
+  const error = result && !result.ok && "error" in result ? result.error : null;
+
+  // Reset the editor once a save or delete went through
+  useEffect(() => {
+    if (fetcher.state === "idle" && result?.ok) setDraft(EMPTY_DRAFT);
+  }, [fetcher.state, result]);
+
+  const set = (patch: Partial<CarrierDraft>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  const save = () =>
+    fetcher.submit(
+      {
+        intent: "save_carrier",
+        id: draft.id || "",
+        name: draft.name,
+        aliases: draft.aliases,
+        url_template: draft.urlTemplate,
+        tracking_pattern: draft.trackingPattern,
+      },
+      { method: "post" },
+    );
+
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <Page title="Carriers" backAction={{ url: "/app/settings" }}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                {draft.id ? `Edit "${draft.name}"` : "Add custom carrier"}
+              </Text>
+              <Text as="p" tone="subdued">
+                Carrier names typed in the Fulfillment Center or a CSV are
+                matched to Shopify&apos;s carriers (e.g. <code>U.S.P.S</code> →
+                USPS), which get tracking links automatically. For any other
+                carrier, add it here with a tracking URL template.
+              </Text>
+
+              {!canEdit ? (
+                <Banner tone="info" title="Read only">
+                  <p>Only the store owner can change carriers.</p>
+                </Banner>
+              ) : null}
+
+              {error ? (
+                <Banner tone="critical" title="Could not save carrier">
+                  <p>{error}</p>
+                </Banner>
+              ) : null}
+
+              <TextField
+                label="Carrier name"
+                value={draft.name}
+                onChange={(v) => set({ name: v })}
+                helpText="Sent to Shopify as the tracking company."
+                disabled={!canEdit}
+                autoComplete="off"
+              />
+              <TextField
+                label="Other spellings"
+                value={draft.aliases}
+                onChange={(v) => set({ aliases: v })}
+                placeholder="local courier, lc express"
+                helpText="Comma separated. Case, spaces and punctuation are ignored."
+                disabled={!canEdit}
+                autoComplete="off"
+              />
+              <TextField
+                label="Tracking URL template"
+                value={draft.urlTemplate}
+                onChange={(v) => set({ urlTemplate: v })}
+                placeholder="https://track.example.com/?id={number}"
+                helpText="{number} is replaced by the tracking number."
+                disabled={!canEdit}
+                autoComplete="off"
+              />
+              <TextField
+                label="Tracking number pattern (optional)"
+                value={draft.trackingPattern}
+                onChange={(v) => set({ trackingPattern: v })}
+                placeholder="^LC\d{10}$"
+                helpText="Regular expression; numbers that don't match are flagged."
+                disabled={!canEdit}
+                autoComplete="off"
+              />
+
+              <InlineStack gap="200">
+                <Button
+                  variant="primary"
+                  onClick={save}
+                  loading={busy}
+                  disabled={busy || !canEdit}
+                >
+                  Save carrier
+                </Button>
+                {draft.id ? (
+                  <Button onClick={() => setDraft(EMPTY_DRAFT)} disabled={busy}>
+                    Cancel
+                  </Button>
+                ) : null}
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Custom carriers
+              </Text>
+
+              {!carriers.length ? (
+                <Text as="p" tone="subdued">
+                  No custom carriers yet.
+                </Text>
+              ) : null}
+
+              {carriers.map((c) => (
+                <Box
+                  key={c.id}
+                  padding="300"
+                  borderWidth="025"
+                  borderColor="border"
+                  borderRadius="200"
+                >
+                  <InlineStack align="space-between" blockAlign="center">
+                    <BlockStack gap="100">
+                      <Text as="span" fontWeight="semibold">
+                        {c.name}
+                      </Text>
+                      <Text as="span" tone="subdued">
+                        {c.urlTemplate}
+                        {c.aliases.length ? ` · ${c.aliases.join(", ")}` : ""}
+                      </Text>
+                    </BlockStack>
+                    {canEdit ? (
+                      <InlineStack gap="200">
+                        <Button
+                          size="slim"
+                          onClick={() =>
+                            setDraft({
+                              id: c.id,
+                              name: c.name,
+                              aliases: c.aliases.join(", "),
+                              urlTemplate: c.urlTemplate,
+                              trackingPattern: c.trackingPattern || "",
+                            })
+                          }
+                          disabled={busy}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="slim"
+                          tone="critical"
+                          onClick={() =>
+                            fetcher.submit(
+                              { intent: "delete_carrier", id: c.id },
+                              { method: "post" },
+                            )
+                          }
+                          disabled={busy}
+                        >
+                          Delete
+                        </Button>
+                      </InlineStack>
+                    ) : null}
+                  </InlineStack>
+                </Box>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                Recognised by Shopify
+              </Text>
+              <Text as="p" tone="subdued">
+                {builtIn.join(", ")}
+              </Text>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
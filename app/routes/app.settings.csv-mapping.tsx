@@ -0,0 +1,391 @@
+// app/routes/app.settings.csv-mapping.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  TextField,
+  Checkbox,
+  Banner,
+  Divider,
+  Box,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  deleteMappingProfile,
+  listMappingProfiles,
+  saveMappingProfile,
+} from "../lib/csv-mapping-profiles.server";
+import {
+  CSV_FIELDS,
+  autoDetectMapping,
+  type CsvColumnMapping,
+  type CsvField,
+} from "../lib/csv-mapping";
+import { parseCsvText } from "../lib/csv";
+import { getStaffAccess } from "../lib/permissions.server";
+
+/**
+ * =========================
+ * loader(): saved mapping profiles for this shop
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+  return {
+    profiles: await listMappingProfiles(session.shop),
+    canEdit: access.permissions.includes("bulk_import"),
+  };
+}
+
+/**
+ * =========================
+ * action(): save_profile / delete_profile
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("bulk_import"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "You don't have permission to manage mapping profiles.",
+      },
+      403,
+    );
+
+  if (intent === "save_profile") {
+    const res = await saveMappingProfile(session.shop, {
+      id: String(form.get("id") || "") || undefined,
+      name: String(form.get("name") || ""),
+      mapping: String(form.get("mapping") || "[]"),
+    });
+    if (!res.ok) return data({ ok: false, intent, error: res.error }, 400);
+    return { ok: true, intent, profile: res.profile };
+  }
+
+  if (intent === "delete_profile") {
+    const deleted = await deleteMappingProfile(
+      session.shop,
+      String(form.get("id") || ""),
+    );
+    if (!deleted)
+      return data({ ok: false, intent, error: "Profile not found." }, 404);
+    return { ok: true, intent };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+/**
+ * =========================
+ * Editor state
+ * =========================
+ */
+
+type ColumnDraft = {
+  header: string;
+  stripPrefix: string;
+  stripSuffix: string;
+  uppercase: boolean;
+};
+
+type ProfileDraft = {
+  id: string | null;
+  name: string;
+  columns: Record<CsvField, ColumnDraft>;
+};
+
+function emptyColumn(): ColumnDraft {
+  return { header: "", stripPrefix: "", stripSuffix: "", uppercase: false };
+}
+
+function toDraft(
+  id: string | null,
+  name: string,
+  mapping: CsvColumnMapping,
+): ProfileDraft {
+  const columns = {} as Record<CsvField, ColumnDraft>;
+  for (const f of CSV_FIELDS) {
+    const m = mapping.find((x) => x.field === f.field);
+    columns[f.field] = m
+      ? {
+          header: m.header,
+          stripPrefix: m.transform?.stripPrefix || "",
+          stripSuffix: m.transform?.stripSuffix || "",
+          uppercase: Boolean(m.transform?.uppercase),
+        }
+      : emptyColumn();
+  }
+  return { id, name, columns };
+}
+
+function fromDraft(draft: ProfileDraft): CsvColumnMapping {
+  const mapping: CsvColumnMapping = [];
+  for (const f of CSV_FIELDS) {
+    const c = draft.columns[f.field];
+    if (!c.header.trim()) continue;
+    const transform = {
+      ...(c.stripPrefix ? { stripPrefix: c.stripPrefix } : {}),
+      ...(c.stripSuffix ? { stripSuffix: c.stripSuffix } : {}),
+      ...(c.uppercase ? { uppercase: true } : {}),
+    };
+    mapping.push({
+      field: f.field,
+      header: c.header.trim(),
+      ...(Object.keys(transform).length ? { transform } : {}),
+    });
+  }
+  return mapping;
+}
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function CsvMappingSettingsPage() {
+  const { profiles, canEdit } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+
+  const [draft, setDraft] = useState<ProfileDraft>(() => toDraft(null, "", []));
+  const [sampleHeader, setSampleHeader] = useState("");
+
+  const result = fetcher.data;
+  const error = result && !result.ok && "error" in result ? result.error : null;
+
+  // Reset the editor once a save or delete went through
+  useEffect(() => {
+    if (fetcher.state === "idle" && result?.ok) setDraft(toDraft(null, "", []));
+  }, [fetcher.state, result]);
+
+  const setColumn = (field: CsvField, patch: Partial<ColumnDraft>) =>
+    setDraft((d) => ({
+      ...d,
+      columns: { ...d.columns, [field]: { ...d.columns[field], ...patch } },
+    }));
+
+  const detectFromSample = () => {
+    const detected = autoDetectMapping(parseCsvText(sampleHeader).headers);
+    setDraft((d) => {
+      const next = toDraft(d.id, d.name, detected);
+      // Keep anything already typed for fields the sample did not cover
+      for (const f of CSV_FIELDS)
+        if (!next.columns[f.field].header)
+          next.columns[f.field] = d.columns[f.field];
+      return next;
+    });
+  };
+
+  const save = () =>
+    fetcher.submit(
+      {
+        intent: "save_profile",
+        id: draft.id || "",
+        name: draft.name,
+        mapping: JSON.stringify(fromDraft(draft)),
+      },
+      { method: "post" },
+    );
+
+  const remove = (id: string) =>
+    fetcher.submit({ intent: "delete_profile", id }, { method: "post" });
+
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <Page title="CSV column mapping" backAction={{ url: "/app/settings" }}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                {draft.id ? `Edit "${draft.name}"` : "New mapping profile"}
+              </Text>
+              <Text as="p" tone="subdued">
+                Tell the CSV sync which column of your carrier or 3PL file holds
+                each field. Header names are matched case-insensitively,
+                ignoring spaces and punctuation.
+              </Text>
+
+              {!canEdit ? (
+                <Banner tone="info" title="Read only">
+                  <p>Managing mapping profiles takes the bulk importer role.</p>
+                </Banner>
+              ) : null}
+
+              {error ? (
+                <Banner tone="critical" title="Could not save profile">
+                  <p>{error}</p>
+                </Banner>
+              ) : null}
+
+              <TextField
+                label="Profile name"
+                value={draft.name}
+                onChange={(v) => setDraft((d) => ({ ...d, name: v }))}
+                disabled={!canEdit}
+                autoComplete="off"
+              />
+
+              <InlineStack gap="200" blockAlign="end" wrap={false}>
+                <Box minWidth="420px">
+                  <TextField
+                    label="Sample header row (optional)"
+                    value={sampleHeader}
+                    onChange={setSampleHeader}
+                    placeholder="Order #,Tracking No.,Shipping Method"
+                    autoComplete="off"
+                  />
+                </Box>
+                <Button
+                  onClick={detectFromSample}
+                  disabled={!sampleHeader.trim()}
+                >
+                  Auto-fill
+                </Button>
+              </InlineStack>
+
+              <Divider />
+
+              {CSV_FIELDS.map((f) => {
+                const c = draft.columns[f.field];
+                return (
+                  <InlineStack
+                    key={f.field}
+                    gap="200"
+                    blockAlign="end"
+                    wrap={false}
+                  >
+                    <Box minWidth="180px">
+                      <TextField
+                        label={`${f.label}${f.required ? " *" : ""}`}
+                        value={c.header}
+                        onChange={(v) => setColumn(f.field, { header: v })}
+                        disabled={!canEdit}
+                        placeholder={f.aliases[0]}
+                        autoComplete="off"
+                      />
+                    </Box>
+                    <TextField
+                      label="Strip prefix"
+                      value={c.stripPrefix}
+                      onChange={(v) => setColumn(f.field, { stripPrefix: v })}
+                      disabled={!canEdit}
+                      autoComplete="off"
+                    />
+                    <TextField
+                      label="Strip suffix"
+                      value={c.stripSuffix}
+                      onChange={(v) => setColumn(f.field, { stripSuffix: v })}
+                      disabled={!canEdit}
+                      autoComplete="off"
+                    />
+                    <Checkbox
+                      label="Uppercase"
+                      checked={c.uppercase}
+                      onChange={(v) => setColumn(f.field, { uppercase: v })}
+                      disabled={!canEdit}
+                    />
+                  </InlineStack>
+                );
+              })}
+
+              <InlineStack gap="200">
+                <Button
+                  variant="primary"
+                  onClick={save}
+                  loading={busy}
+                  disabled={busy || !canEdit}
+                >
+                  Save profile
+                </Button>
+                {draft.id ? (
+                  <Button
+                    onClick={() => setDraft(toDraft(null, "", []))}
+                    disabled={busy}
+                  >
+                    Cancel
+                  </Button>
+                ) : null}
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Saved profiles
+              </Text>
+
+              {!profiles.length ? (
+                <Text as="p" tone="subdued">
+                  No profiles yet. Without one, columns are auto-detected from
+                  the header row of each upload.
+                </Text>
+              ) : null}
+
+              {profiles.map((p) => (
+                <Box
+                  key={p.id}
+                  padding="300"
+                  borderWidth="025"
+                  borderColor="border"
+                  borderRadius="200"
+                >
+                  <InlineStack align="space-between" blockAlign="center">
+                    <BlockStack gap="100">
+                      <Text as="span" fontWeight="semibold">
+                        {p.name}
+                      </Text>
+                      <Text as="span" tone="subdued">
+                        {p.mapping
+                          .map((m) => `${m.header} → ${m.field}`)
+                          .join(" · ")}
+                      </Text>
+                    </BlockStack>
+                    {canEdit ? (
+                      <InlineStack gap="200">
+                        <Button
+                          size="slim"
+                          onClick={() =>
+                            setDraft(toDraft(p.id, p.name, p.mapping))
+                          }
+                          disabled={busy}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="slim"
+                          tone="critical"
+                          onClick={() => remove(p.id)}
+                          disabled={busy}
+                        >
+                          Delete
+                        </Button>
+                      </InlineStack>
+                    ) : null}
+                  </InlineStack>
+                </Box>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,277 @@
+// app/routes/app.settings.order-cache.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { data, useFetcher, useLoaderData, useRevalidator } from "react-router";
+import { useEffect } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  IndexTable,
+  Badge,
+  Banner,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  countCachedOrders,
+  getOrderCacheStatus,
+  kickOrderCacheReconcile,
+} from "../lib/order-cache.server";
+import {
+  kickOrderBackfillImport,
+  listOrderBackfills,
+  startOrderBackfill,
+  type OrderBackfillStatus,
+} from "../lib/order-backfill.server";
+import { getStaffAccess } from "../lib/permissions.server";
+
+// Refresh interval while a backfill or reconcile is in progress
+const POLL_MS = 5000;
+
+/**
+ * =========================
+ * loader(): cache state and recent backfills
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+
+  const backfills = await listOrderBackfills(session.shop);
+  // Covers a missed bulk_operations/finish webhook
+  if (backfills[0]?.status === "RUNNING")
+    kickOrderBackfillImport(session.shop, backfills[0].id);
+
+  return {
+    cache: await getOrderCacheStatus(session.shop),
+    cachedOrders: await countCachedOrders(session.shop),
+    backfills,
+    canEdit: access.permissions.includes("bulk_import"),
+  };
+}
+
+/**
+ * =========================
+ * action(): start_backfill / reconcile
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { admin, session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  // A backfill is a shop-wide bulk operation, so it takes the bulk import role
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("bulk_import"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "You don't have permission to refresh the order cache.",
+      },
+      403,
+    );
+
+  if (intent === "start_backfill") {
+    const res = await startOrderBackfill(admin, session.shop);
+    if (!res.ok) return data({ ok: false, intent, error: res.error }, 400);
+    return { ok: true, intent };
+  }
+
+  if (intent === "reconcile") {
+    await kickOrderCacheReconcile(session.shop, { force: true });
+    return { ok: true, intent };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+function backfillTone(
+  status: OrderBackfillStatus,
+): "success" | "critical" | "attention" {
+  if (status === "COMPLETED") return "success";
+  if (status === "FAILED") return "critical";
+  return "attention";
+}
+
+function formatDate(iso: string | null) {
+  return iso ? iso.slice(0, 16).replace("T", " ") : "—";
+}
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function OrderCacheSettingsPage() {
+  const { cache, cachedOrders, backfills, canEdit } =
+    useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const { revalidate } = useRevalidator();
+
+  const result = fetcher.data;
+  const error = result && !result.ok && "error" in result ? result.error : null;
+  const busy = fetcher.state !== "idle";
+
+  const inProgress =
+    cache.reconciling ||
+    backfills.some((b) => b.status === "RUNNING" || b.status === "IMPORTING");
+
+  useEffect(() => {
+    if (!inProgress) return;
+    const t = setInterval(() => revalidate(), POLL_MS);
+    return () => clearInterval(t);
+  }, [inProgress, revalidate]);
+
+  return (
+    <Page title="Order cache" backAction={{ url: "/app/settings" }}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between" blockAlign="center">
+                <Text as="h2" variant="headingMd">
+                  Local order cache
+                </Text>
+                {cache.ready ? (
+                  <Badge tone="success">In use</Badge>
+                ) : (
+                  <Badge tone="attention">Not filled yet</Badge>
+                )}
+              </InlineStack>
+              <Text as="p" tone="subdued">
+                The Fulfillment Center lists, filters and counts orders from a
+                copy kept current by order and fulfillment webhooks. Every few
+                minutes the orders updated since the last check are re-read from
+                Shopify. Until the cache has been filled once, orders are read
+                live from Shopify.
+              </Text>
+
+              <Text as="p">
+                {`${cachedOrders} orders cached · last check ${formatDate(cache.lastReconciledAt)}${cache.reconciling ? " · checking now…" : ""}`}
+              </Text>
+
+              {cache.error ? (
+                <Banner tone="warning" title="Last check failed">
+                  <p>{cache.error}</p>
+                </Banner>
+              ) : null}
+
+              {!canEdit ? (
+                <Banner tone="info" title="Read only">
+                  <p>
+                    Refreshing the order cache takes the bulk importer role.
+                  </p>
+                </Banner>
+              ) : null}
+
+              {canEdit ? (
+                <InlineStack gap="200">
+                  <Button
+                    onClick={() =>
+                      fetcher.submit(
+                        { intent: "reconcile" },
+                        { method: "post" },
+                      )
+                    }
+                    loading={
+                      busy && fetcher.formData?.get("intent") === "reconcile"
+                    }
+                    disabled={busy || cache.reconciling}
+                  >
+                    Check for changes now
+                  </Button>
+                </InlineStack>
+              ) : null}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Backfill
+              </Text>
+              <Text as="p" tone="subdued">
+                For large shops: Shopify exports every open order with its
+                fulfillment orders in one bulk operation, which is then imported
+                into the cache. This can take several minutes; you can leave the
+                page meanwhile.
+              </Text>
+
+              {error ? (
+                <Banner tone="critical" title="Could not start the backfill">
+                  <p>{error}</p>
+                </Banner>
+              ) : null}
+
+              {canEdit ? (
+                <InlineStack gap="200">
+                  <Button
+                    variant="primary"
+                    onClick={() =>
+                      fetcher.submit(
+                        { intent: "start_backfill" },
+                        { method: "post" },
+                      )
+                    }
+                    loading={
+                      busy &&
+                      fetcher.formData?.get("intent") === "start_backfill"
+                    }
+                    disabled={busy || inProgress}
+                  >
+                    {backfills.length ? "Run backfill again" : "Run backfill"}
+                  </Button>
+                </InlineStack>
+              ) : null}
+
+              {backfills.length ? (
+                <IndexTable
+                  resourceName={{ singular: "backfill", plural: "backfills" }}
+                  itemCount={backfills.length}
+                  headings={[
+                    { title: "Status" },
+                    { title: "Orders imported" },
+                    { title: "Started" },
+                    { title: "Finished" },
+                    { title: "Error" },
+                  ]}
+                  selectable={false}
+                >
+                  {backfills.map((b, idx) => (
+                    <IndexTable.Row id={b.id} key={b.id} position={idx}>
+                      <IndexTable.Cell>
+                        <Badge tone={backfillTone(b.status)}>{b.status}</Badge>
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        {b.objectCount
+                          ? `${b.ordersSaved} (${b.objectCount} records exported)`
+                          : b.ordersSaved}
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        {formatDate(b.startedAt)}
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>
+                        {formatDate(b.finishedAt)}
+                      </IndexTable.Cell>
+                      <IndexTable.Cell>{b.error || "—"}</IndexTable.Cell>
+                    </IndexTable.Row>
+                  ))}
+                </IndexTable>
+              ) : (
+                <Text as="p" tone="subdued">
+                  No backfill has been run yet.
+                </Text>
+              )}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
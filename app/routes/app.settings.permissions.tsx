@@ -0,0 +1,291 @@
+// app/routes/app.settings.permissions.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { data, useFetcher, useLoaderData } from "react-router";
+import { useEffect, useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  TextField,
+  Banner,
+  Badge,
+  Box,
+  ChoiceList,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  getStaffAccess,
+  listStaffRoleAssignments,
+  setStaffRoles,
+} from "../lib/permissions.server";
+import {
+  STAFF_ROLES,
+  isStaffRole,
+  staffRoleLabel,
+  type StaffRoleValue,
+} from "../lib/permissions";
+import { recordAuditEvent } from "../lib/audit.server";
+
+/**
+ * =========================
+ * loader(): staff members and their roles
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+  const staff = await listStaffRoleAssignments(session.shop);
+  return {
+    staff,
+    canManage: access.permissions.includes("manage_roles"),
+    // roles only apply once at least one is assigned
+    rolesInUse: staff.some((s) => s.roles.length > 0),
+  };
+}
+
+/**
+ * =========================
+ * action(): set_staff_roles (account owner only)
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("manage_roles"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "Only the store owner can change staff roles.",
+      },
+      403,
+    );
+
+  if (intent === "set_staff_roles") {
+    const userId = String(form.get("user_id") || "").trim();
+    if (!/^\d+$/.test(userId))
+      return data(
+        { ok: false, intent, error: "Enter the staff member's user id." },
+        400,
+      );
+
+    const requested = form.getAll("role").map(String);
+    const roles = requested.filter(isStaffRole);
+    if (roles.length !== requested.length)
+      return data({ ok: false, intent, error: "Unknown role." }, 400);
+
+    await setStaffRoles(
+      session.shop,
+      BigInt(userId),
+      roles,
+      access.staff.userId,
+    );
+    await recordAuditEvent({
+      shop: session.shop,
+      staff: access.staff,
+      intent,
+      payload: { userId, roles },
+      ok: true,
+      result: null,
+    });
+    return { ok: true, intent, userId, roles };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+type RolesDraft = {
+  userId: string;
+  roles: StaffRoleValue[];
+  // set when editing someone from the list
+  label: string | null;
+};
+
+const EMPTY_DRAFT: RolesDraft = { userId: "", roles: [], label: null };
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function StaffPermissionsPage() {
+  const { staff, canManage, rolesInUse } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const [draft, setDraft] = useState<RolesDraft>(EMPTY_DRAFT);
+
+  const result = fetcher.data;
+  const error = result && !result.ok && "error" in result ? result.error : null;
+
+  // Reset the editor once a save went through
+  useEffect(() => {
+    if (fetcher.state === "idle" && result?.ok) setDraft(EMPTY_DRAFT);
+  }, [fetcher.state, result]);
+
+  const save = () => {
+    const fd = new FormData();
+    fd.set("intent", "set_staff_roles");
+    fd.set("user_id", draft.userId);
+    for (const role of draft.roles) fd.append("role", role);
+    fetcher.submit(fd, { method: "post" });
+  };
+
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <Page title="Staff permissions" backAction={{ url: "/app/settings" }}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                {draft.label ? `Roles of ${draft.label}` : "Assign roles"}
+              </Text>
+              <Text as="p" tone="subdued">
+                Roles decide what a staff member can do in the Fulfillment
+                Center. Until the first role is assigned every staff member can
+                do everything except change roles, shop settings and carriers,
+                including bulk imports, API keys and webhooks; after that, staff
+                without a role can only view orders. The store owner always has
+                full access.
+              </Text>
+
+              {!canManage ? (
+                <Banner tone="info" title="Read only">
+                  <p>Only the store owner can change staff roles.</p>
+                </Banner>
+              ) : null}
+
+              {error ? (
+                <Banner tone="critical" title="Could not save roles">
+                  <p>{error}</p>
+                </Banner>
+              ) : null}
+
+              <TextField
+                label="Staff user id"
+                value={draft.userId}
+                onChange={(v) =>
+                  setDraft((d) => ({ ...d, userId: v.trim(), label: null }))
+                }
+                helpText="The number at the end of the staff member's page in Settings → Users."
+                disabled={!canManage}
+                autoComplete="off"
+              />
+              <ChoiceList
+                title="Roles"
+                allowMultiple
+                choices={STAFF_ROLES.map((r) => ({
+                  label: r.label,
+                  value: r.value,
+                  helpText: r.description,
+                }))}
+                selected={draft.roles}
+                onChange={(v) =>
+                  setDraft((d) => ({ ...d, roles: v.filter(isStaffRole) }))
+                }
+                disabled={!canManage}
+              />
+
+              <InlineStack gap="200">
+                <Button
+                  variant="primary"
+                  onClick={save}
+                  loading={busy}
+                  disabled={busy || !canManage || !draft.userId}
+                >
+                  Save roles
+                </Button>
+                {draft.userId ? (
+                  <Button onClick={() => setDraft(EMPTY_DRAFT)} disabled={busy}>
+                    Cancel
+                  </Button>
+                ) : null}
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <InlineStack align="space-between">
+                <Text as="h2" variant="headingMd">
+                  Staff members
+                </Text>
+                <Badge tone={rolesInUse ? "success" : undefined}>
+                  {rolesInUse ? "Roles enforced" : "Roles not in use"}
+                </Badge>
+              </InlineStack>
+
+              {!staff.length ? (
+                <Text as="p" tone="subdued">
+                  No staff members have used the app yet. Add one by user id
+                  above.
+                </Text>
+              ) : null}
+
+              {staff.map((s) => {
+                const label = s.name || s.email || `User ${s.userId}`;
+                return (
+                  <Box
+                    key={s.userId}
+                    padding="300"
+                    borderWidth="025"
+                    borderColor="border"
+                    borderRadius="200"
+                  >
+                    <InlineStack align="space-between" blockAlign="center">
+                      <BlockStack gap="100">
+                        <InlineStack gap="200" blockAlign="center">
+                          <Text as="span" fontWeight="semibold">
+                            {label}
+                          </Text>
+                          {s.accountOwner ? (
+                            <Badge tone="info">Store owner</Badge>
+                          ) : null}
+                        </InlineStack>
+                        <Text as="span" tone="subdued">
+                          {`User ${s.userId}${s.email ? ` · ${s.email}` : ""} · ${
+                            s.accountOwner
+                              ? "full access"
+                              : s.roles.length
+                                ? s.roles.map(staffRoleLabel).join(", ")
+                                : rolesInUse
+                                  ? "no role (viewer)"
+                                  : "no role"
+                          }`}
+                        </Text>
+                      </BlockStack>
+                      {canManage && !s.accountOwner ? (
+                        <Button
+                          size="slim"
+                          onClick={() =>
+                            setDraft({
+                              userId: s.userId,
+                              roles: s.roles,
+                              label,
+                            })
+                          }
+                          disabled={busy}
+                        >
+                          Edit roles
+                        </Button>
+                      ) : null}
+                    </InlineStack>
+                  </Box>
+                );
+              })}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,347 @@
+// app/routes/app.settings.webhook-deliveries.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { data, useFetcher, useLoaderData, useSearchParams } from "react-router";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  IndexTable,
+  Badge,
+  Banner,
+  Pagination,
+  Select,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  countDeadWebhookDeliveries,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  redeliverDeadWebhooks,
+  redeliverWebhook,
+} from "../lib/outbound-webhooks.server";
+import {
+  WEBHOOK_DELIVERIES_PAGE_SIZE,
+  isWebhookDeliveryStatus,
+  webhookEventLabel,
+  type WebhookDeliveryStatus,
+} from "../lib/outbound-webhooks";
+import { getStaffAccess } from "../lib/permissions.server";
+
+/**
+ * =========================
+ * loader(): deliveries for this shop, filtered by the URL search params
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+
+  const url = new URL(request.url);
+  const rawStatus = url.searchParams.get("status") || "";
+  const status = isWebhookDeliveryStatus(rawStatus) ? rawStatus : null;
+  const endpointId = url.searchParams.get("endpoint") || null;
+  const page = Math.max(1, Number(url.searchParams.get("page") || "1") || 1);
+
+  const { deliveries, hasNext } = await listWebhookDeliveries(
+    session.shop,
+    { status, endpointId },
+    { page, pageSize: WEBHOOK_DELIVERIES_PAGE_SIZE },
+  );
+
+  return {
+    deliveries,
+    status,
+    endpointId,
+    page,
+    hasNext,
+    endpoints: (await listWebhookEndpoints(session.shop)).map((e) => ({
+      id: e.id,
+      label: e.description || e.url,
+    })),
+    deadCount: await countDeadWebhookDeliveries(session.shop),
+    canEdit: access.permissions.includes("bulk_import"),
+  };
+}
+
+/**
+ * =========================
+ * action(): redeliver / redeliver_dead
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("bulk_import"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "You don't have permission to manage webhooks.",
+      },
+      403,
+    );
+
+  if (intent === "redeliver") {
+    const found = await redeliverWebhook(
+      session.shop,
+      String(form.get("id") || ""),
+    );
+    if (!found)
+      return data({ ok: false, intent, error: "Delivery not found." }, 404);
+    return { ok: true, intent, queued: 1 };
+  }
+
+  if (intent === "redeliver_dead") {
+    const queued = await redeliverDeadWebhooks(session.shop);
+    return { ok: true, intent, queued };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+function formatDate(iso: string | null) {
+  return iso ? iso.slice(0, 19).replace("T", " ") : "—";
+}
+
+const STATUS_TONE: Record<
+  WebhookDeliveryStatus,
+  "success" | "attention" | "critical"
+> = {
+  succeeded: "success",
+  pending: "attention",
+  dead: "critical",
+};
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function WebhookDeliveriesPage() {
+  const {
+    deliveries,
+    status,
+    endpointId,
+    page,
+    hasNext,
+    endpoints,
+    deadCount,
+    canEdit,
+  } = useLoaderData<typeof loader>();
+  const [, setSearchParams] = useSearchParams();
+  const fetcher = useFetcher<typeof action>();
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = deliveries.find((d) => d.id === openId) || null;
+
+  const result = fetcher.data;
+  const error = result && !result.ok && "error" in result ? result.error : null;
+  const queued =
+    result?.ok && "queued" in result && typeof result.queued === "number"
+      ? result.queued
+      : null;
+
+  const setFilters = (patch: {
+    status?: string;
+    endpoint?: string;
+    page?: number;
+  }) => {
+    const next = {
+      status: patch.status ?? status ?? "",
+      endpoint: patch.endpoint ?? endpointId ?? "",
+      // a new filter starts over at page 1
+      page: patch.page ?? 1,
+    };
+    const params = new URLSearchParams();
+    if (next.status) params.set("status", next.status);
+    if (next.endpoint) params.set("endpoint", next.endpoint);
+    if (next.page > 1) params.set("page", String(next.page));
+    setSearchParams(params);
+  };
+
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <Page
+      title="Webhook deliveries"
+      backAction={{ url: "/app/settings/webhooks" }}
+    >
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="p" tone="subdued">
+                One row per event and endpoint. Pending deliveries are retried
+                with exponential backoff; the ones that ran out of attempts are
+                dead and wait here until they are retried by hand.
+              </Text>
+
+              {error ? (
+                <Banner tone="critical" title="Retry error">
+                  <p>{error}</p>
+                </Banner>
+              ) : null}
+
+              {queued !== null ? (
+                <Banner tone="success" title="Queued for delivery">
+                  <p>{`${queued} deliver${queued === 1 ? "y" : "ies"} will be sent again shortly.`}</p>
+                </Banner>
+              ) : null}
+
+              <InlineStack gap="200" align="start" blockAlign="end">
+                <Select
+                  label="Status"
+                  options={[
+                    { label: "Any", value: "" },
+                    { label: "Pending", value: "pending" },
+                    { label: "Succeeded", value: "succeeded" },
+                    { label: `Dead (${deadCount})`, value: "dead" },
+                  ]}
+                  value={status || ""}
+                  onChange={(v) => setFilters({ status: v })}
+                />
+                <Select
+                  label="Endpoint"
+                  options={[
+                    { label: "Any", value: "" },
+                    ...endpoints.map((e) => ({ label: e.label, value: e.id })),
+                  ]}
+                  value={endpointId || ""}
+                  onChange={(v) => setFilters({ endpoint: v })}
+                />
+                {canEdit && deadCount ? (
+                  <Button
+                    onClick={() =>
+                      fetcher.submit(
+                        { intent: "redeliver_dead" },
+                        { method: "post" },
+                      )
+                    }
+                    loading={busy}
+                    disabled={busy}
+                  >
+                    {`Retry all dead (${deadCount})`}
+                  </Button>
+                ) : null}
+              </InlineStack>
+
+              <IndexTable
+                resourceName={{ singular: "delivery", plural: "deliveries" }}
+                itemCount={deliveries.length}
+                headings={[
+                  { title: "Created" },
+                  { title: "Event" },
+                  { title: "Endpoint" },
+                  { title: "Status" },
+                  { title: "Attempts" },
+                  { title: "Last response" },
+                  { title: "" },
+                ]}
+                selectable={false}
+              >
+                {deliveries.map((d, idx) => (
+                  <IndexTable.Row id={d.id} key={d.id} position={idx}>
+                    <IndexTable.Cell>{formatDate(d.createdAt)}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {webhookEventLabel(d.eventType)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{d.endpointUrl}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={STATUS_TONE[d.status]}>{d.status}</Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {d.status === "pending" && d.nextAttemptAt
+                        ? `${d.attempts} · next ${formatDate(d.nextAttemptAt)}`
+                        : String(d.attempts)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {d.error ||
+                        (d.responseStatus ? `HTTP ${d.responseStatus}` : "—")}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <InlineStack gap="200">
+                        <Button
+                          size="slim"
+                          pressed={openId === d.id}
+                          onClick={() =>
+                            setOpenId(openId === d.id ? null : d.id)
+                          }
+                        >
+                          Details
+                        </Button>
+                        {canEdit && d.status !== "pending" ? (
+                          <Button
+                            size="slim"
+                            disabled={busy}
+                            onClick={() =>
+                              fetcher.submit(
+                                { intent: "redeliver", id: d.id },
+                                { method: "post" },
+                              )
+                            }
+                          >
+                            Redeliver
+                          </Button>
+                        ) : null}
+                      </InlineStack>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+
+              {!deliveries.length ? (
+                <Banner tone="info" title="No deliveries">
+                  <p>Nothing matches these filters yet.</p>
+                </Banner>
+              ) : null}
+
+              <Pagination
+                hasPrevious={page > 1}
+                onPrevious={() => setFilters({ page: page - 1 })}
+                hasNext={hasNext}
+                onNext={() => setFilters({ page: page + 1 })}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        {open ? (
+          <Layout.Section>
+            <Card>
+              <BlockStack gap="300">
+                <Text as="h2" variant="headingMd">
+                  {`${webhookEventLabel(open.eventType)} · ${open.eventId}`}
+                </Text>
+                <Text as="p" tone="subdued">
+                  {`${open.endpointUrl} · last attempt ${formatDate(open.lastAttemptAt)}${open.durationMs !== null ? ` (${open.durationMs} ms)` : ""}${open.deliveredAt ? ` · delivered ${formatDate(open.deliveredAt)}` : ""}`}
+                </Text>
+                <Text as="h3" variant="headingSm">
+                  Payload
+                </Text>
+                <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                  {open.payload}
+                </pre>
+                <Text as="h3" variant="headingSm">
+                  Response
+                </Text>
+                <Text as="p">
+                  {open.error ||
+                    (open.responseStatus
+                      ? `HTTP ${open.responseStatus}`
+                      : "Not sent yet")}
+                </Text>
+              </BlockStack>
+            </Card>
+          </Layout.Section>
+        ) : null}
+      </Layout>
+    </Page>
+  );
+}
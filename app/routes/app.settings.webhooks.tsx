@@ -0,0 +1,520 @@
+// app/routes/app.settings.webhooks.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import {
+  data,
+  Link,
+  useFetcher,
+  useLoaderData,
+  useNavigate,
+} from "react-router";
+import { useEffect, useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  InlineStack,
+  Button,
+  TextField,
+  Checkbox,
+  Banner,
+  Badge,
+  Box,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import {
+  countDeadWebhookDeliveries,
+  deleteWebhookEndpoint,
+  listWebhookEndpoints,
+  rotateWebhookSecret,
+  saveWebhookEndpoint,
+  sendTestWebhook,
+  type WebhookEndpointView,
+} from "../lib/outbound-webhooks.server";
+import {
+  MAX_WEBHOOK_ATTEMPTS,
+  WEBHOOK_EVENT_TYPES,
+  WEBHOOK_HEADERS,
+  webhookEventLabel,
+  type WebhookEventType,
+} from "../lib/outbound-webhooks";
+import { recordAuditEvent } from "../lib/audit.server";
+import { getStaffAccess } from "../lib/permissions.server";
+
+/**
+ * =========================
+ * loader(): webhook endpoints (never their secrets)
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const access = await getStaffAccess(session, sessionToken);
+  return {
+    endpoints: await listWebhookEndpoints(session.shop),
+    deadCount: await countDeadWebhookDeliveries(session.shop),
+    canEdit: access.permissions.includes("bulk_import"),
+  };
+}
+
+/**
+ * =========================
+ * action(): save_endpoint / delete_endpoint / rotate_secret / send_test
+ * =========================
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  // Like API keys, endpoints are integrations: they take the bulk import role
+  const access = await getStaffAccess(session, sessionToken);
+  if (!access.permissions.includes("bulk_import"))
+    return data(
+      {
+        ok: false,
+        intent,
+        error: "You don't have permission to manage webhooks.",
+      },
+      403,
+    );
+
+  const id = String(form.get("id") || "");
+  const audit = (payload: unknown, result: unknown) =>
+    recordAuditEvent({
+      shop: session.shop,
+      staff: access.staff,
+      intent:
+        intent === "save_endpoint"
+          ? "save_webhook_endpoint"
+          : intent === "delete_endpoint"
+            ? "delete_webhook_endpoint"
+            : "rotate_webhook_secret",
+      payload,
+      ok: true,
+      result,
+    });
+
+  if (intent === "save_endpoint") {
+    const input = {
+      id: id || undefined,
+      url: String(form.get("url") || ""),
+      description: String(form.get("description") || ""),
+      events: form.getAll("events").map(String),
+      enabled: form.get("enabled") === "1",
+    };
+    const res = await saveWebhookEndpoint(session.shop, input);
+    if (!res.ok) return data({ ok: false, intent, error: res.error }, 400);
+
+    await audit(input, { id: res.endpoint.id });
+    // Shown once, like an API key
+    return { ok: true, intent, endpoint: res.endpoint, secret: res.secret };
+  }
+
+  if (intent === "delete_endpoint") {
+    if (!(await deleteWebhookEndpoint(session.shop, id)))
+      return data({ ok: false, intent, error: "Endpoint not found." }, 404);
+    await audit({ id }, null);
+    return { ok: true, intent };
+  }
+
+  if (intent === "rotate_secret") {
+    const secret = await rotateWebhookSecret(session.shop, id);
+    if (!secret)
+      return data({ ok: false, intent, error: "Endpoint not found." }, 404);
+    await audit({ id }, null);
+    return { ok: true, intent, secret };
+  }
+
+  if (intent === "send_test") {
+    if (!(await sendTestWebhook(session.shop, id)))
+      return data({ ok: false, intent, error: "Endpoint not found." }, 404);
+    return { ok: true, intent };
+  }
+
+  return data({ ok: false, intent, error: `Unknown intent: ${intent}` }, 400);
+}
+
+type EndpointDraft = {
+  id: string | null;
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+};
+
+const EMPTY_DRAFT: EndpointDraft = {
+  id: null,
+  url: "",
+  description: "",
+  events: [],
+  enabled: true,
+};
+
+const EVENT_TYPES = Object.keys(WEBHOOK_EVENT_TYPES) as WebhookEventType[];
+
+function toDraft(e: WebhookEndpointView): EndpointDraft {
+  return {
+    id: e.id,
+    url: e.url,
+    description: e.description || "",
+    events: e.events,
+    enabled: e.enabled,
+  };
+}
+
+const RECEIVER_EXAMPLE = `// receiver.mjs: node receiver.mjs <secret>
+import { createServer } from "node:http";
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (c) => (body += c));
+  req.on("end", () => {
+    const ts = req.headers["${WEBHOOK_HEADERS.timestamp.toLowerCase()}"];
+    const expected = "sha256=" + createHmac("sha256", process.argv[2])
+      .update(\`\${ts}.\${body}\`).digest("hex");
+    const got = String(req.headers["${WEBHOOK_HEADERS.signature.toLowerCase()}"]);
+    const valid = got.length === expected.length &&
+      timingSafeEqual(Buffer.from(got), Buffer.from(expected));
+    console.log(valid ? "valid" : "INVALID", body);
+    res.writeHead(valid ? 200 : 401).end();
+  });
+}).listen(4000);`;
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function WebhooksSettingsPage() {
+  const { endpoints, deadCount, canEdit } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<typeof action>();
+  const navigate = useNavigate();
+  const [draft, setDraft] = useState<EndpointDraft>(EMPTY_DRAFT);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const result = fetcher.data;
+  const error = result && !result.ok && "error" in result ? result.error : null;
+  const secret =
+    result?.ok && "secret" in result && result.secret ? result.secret : null;
+  const tested = result?.ok && result.intent === "send_test";
+
+  // Reset the editor once a save or delete went through
+  useEffect(() => {
+    if (
+      fetcher.state === "idle" &&
+      result?.ok &&
+      (result.intent === "save_endpoint" || result.intent === "delete_endpoint")
+    ) {
+      setDraft(EMPTY_DRAFT);
+      setDeletingId(null);
+    }
+  }, [fetcher.state, result]);
+
+  const set = (patch: Partial<EndpointDraft>) =>
+    setDraft((d) => ({ ...d, ...patch }));
+
+  const toggleEvent = (type: WebhookEventType, on: boolean) =>
+    set({
+      events: on
+        ? [...draft.events, type]
+        : draft.events.filter((e) => e !== type),
+    });
+
+  const save = () => {
+    const form = new FormData();
+    form.set("intent", "save_endpoint");
+    form.set("id", draft.id || "");
+    form.set("url", draft.url);
+    form.set("description", draft.description);
+    form.set("enabled", draft.enabled ? "1" : "0");
+    for (const e of draft.events) form.append("events", e);
+    fetcher.submit(form, { method: "post" });
+  };
+
+  const busy = fetcher.state !== "idle";
+
+  return (
+    <Page
+      title="Outbound webhooks"
+      backAction={{ url: "/app/settings" }}
+      secondaryActions={[
+        {
+          content: "Delivery log",
+          onAction: () => navigate("/app/settings/webhook-deliveries"),
+        },
+      ]}
+    >
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                {draft.id ? "Edit endpoint" : "Add endpoint"}
+              </Text>
+              <Text as="p" tone="subdued">
+                {`Every fulfillment the app creates (Fulfillment Center, batch actions, CSV syncs, the API) and every CSV sync that completes or fails is POSTed to your endpoints as JSON, signed with the endpoint's secret. Failed deliveries are retried with exponential backoff, up to ${MAX_WEBHOOK_ATTEMPTS} attempts.`}
+              </Text>
+
+              {!canEdit ? (
+                <Banner tone="info" title="Read only">
+                  <p>Managing webhooks takes the bulk importer role.</p>
+                </Banner>
+              ) : null}
+
+              {deadCount ? (
+                <Banner tone="warning" title="Failed deliveries">
+                  <p>
+                    {`${deadCount} deliver${deadCount === 1 ? "y" : "ies"} gave up after ${MAX_WEBHOOK_ATTEMPTS} attempts. `}
+                    <Link to="/app/settings/webhook-deliveries?status=dead">
+                      Review the dead-letter list
+                    </Link>
+                  </p>
+                </Banner>
+              ) : null}
+
+              {error ? (
+                <Banner tone="critical" title="Webhook error">
+                  <p>{error}</p>
+                </Banner>
+              ) : null}
+
+              {secret ? (
+                <Banner tone="success" title="Signing secret">
+                  <BlockStack gap="200">
+                    <p>
+                      Copy it into your receiver now; it can&apos;t be shown
+                      again. Rotate it to get a new one.
+                    </p>
+                    <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                      {secret}
+                    </pre>
+                  </BlockStack>
+                </Banner>
+              ) : null}
+
+              {tested ? (
+                <Banner tone="info" title="Test event queued">
+                  <p>
+                    See the{" "}
+                    <Link to="/app/settings/webhook-deliveries">
+                      delivery log
+                    </Link>{" "}
+                    for the response.
+                  </p>
+                </Banner>
+              ) : null}
+
+              <TextField
+                label="URL"
+                value={draft.url}
+                onChange={(v) => set({ url: v })}
+                placeholder="https://erp.example.com/hooks/fulfillments"
+                helpText="An https URL on the public internet; local and private network addresses are refused unless listed in DEV_ALLOWED_HOSTS."
+                disabled={!canEdit}
+                autoComplete="off"
+              />
+              <TextField
+                label="Description"
+                value={draft.description}
+                onChange={(v) => set({ description: v })}
+                placeholder="ERP"
+                disabled={!canEdit}
+                autoComplete="off"
+              />
+
+              <BlockStack gap="100">
+                <Text as="p">Events</Text>
+                {EVENT_TYPES.map((type) => (
+                  <Checkbox
+                    key={type}
+                    label={`${WEBHOOK_EVENT_TYPES[type]} (${type})`}
+                    checked={draft.events.includes(type)}
+                    onChange={(v) => toggleEvent(type, v)}
+                    disabled={!canEdit}
+                  />
+                ))}
+                <Text as="p" tone="subdued">
+                  Leave all unchecked to receive every event.
+                </Text>
+              </BlockStack>
+
+              <Checkbox
+                label="Enabled"
+                helpText="Deliveries to a disabled endpoint wait until it is enabled again."
+                checked={draft.enabled}
+                onChange={(v) => set({ enabled: v })}
+                disabled={!canEdit}
+              />
+
+              <InlineStack gap="200">
+                <Button
+                  variant="primary"
+                  onClick={save}
+                  loading={busy}
+                  disabled={busy || !canEdit || !draft.url.trim()}
+                >
+                  Save endpoint
+                </Button>
+                {draft.id ? (
+                  <Button onClick={() => setDraft(EMPTY_DRAFT)} disabled={busy}>
+                    Cancel
+                  </Button>
+                ) : null}
+              </InlineStack>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="h2" variant="headingMd">
+                Endpoints
+              </Text>
+
+              {!endpoints.length ? (
+                <Text as="p" tone="subdued">
+                  No webhook endpoints yet.
+                </Text>
+              ) : null}
+
+              {endpoints.map((e) => (
+                <Box
+                  key={e.id}
+                  padding="300"
+                  borderWidth="025"
+                  borderColor="border"
+                  borderRadius="200"
+                >
+                  <InlineStack align="space-between" blockAlign="center">
+                    <BlockStack gap="100">
+                      <InlineStack gap="200" blockAlign="center">
+                        <Text as="span" fontWeight="semibold">
+                          {e.description || e.url}
+                        </Text>
+                        {e.enabled ? (
+                          <Badge tone="success">enabled</Badge>
+                        ) : (
+                          <Badge>disabled</Badge>
+                        )}
+                      </InlineStack>
+                      <Text as="span" tone="subdued">
+                        {`${e.url} · ${
+                          e.events.length
+                            ? e.events.map(webhookEventLabel).join(", ")
+                            : "all events"
+                        }`}
+                      </Text>
+                    </BlockStack>
+                    {canEdit ? (
+                      <InlineStack gap="200">
+                        <Button
+                          size="slim"
+                          onClick={() =>
+                            fetcher.submit(
+                              { intent: "send_test", id: e.id },
+                              { method: "post" },
+                            )
+                          }
+                          disabled={busy}
+                        >
+                          Send test event
+                        </Button>
+                        <Button
+                          size="slim"
+                          onClick={() => setDraft(toDraft(e))}
+                          disabled={busy}
+                        >
+                          Edit
+                        </Button>
+                        <Button
+                          size="slim"
+                          onClick={() =>
+                            fetcher.submit(
+                              { intent: "rotate_secret", id: e.id },
+                              { method: "post" },
+                            )
+                          }
+                          disabled={busy}
+                        >
+                          Rotate secret
+                        </Button>
+                        {deletingId === e.id ? (
+                          <>
+                            <Button
+                              size="slim"
+                              variant="primary"
+                              tone="critical"
+                              loading={busy}
+                              disabled={busy}
+                              onClick={() =>
+                                fetcher.submit(
+                                  { intent: "delete_endpoint", id: e.id },
+                                  { method: "post" },
+                                )
+                              }
+                            >
+                              Confirm delete
+                            </Button>
+                            <Button
+                              size="slim"
+                              disabled={busy}
+                              onClick={() => setDeletingId(null)}
+                            >
+                              Keep
+                            </Button>
+                          </>
+                        ) : (
+                          <Button
+                            size="slim"
+                            tone="critical"
+                            onClick={() => setDeletingId(e.id)}
+                            disabled={busy}
+                          >
+                            Delete
+                          </Button>
+                        )}
+                      </InlineStack>
+                    ) : null}
+                  </InlineStack>
+                </Box>
+              ))}
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+
+        <Layout.Section variant="oneThird">
+          <Card>
+            <BlockStack gap="200">
+              <Text as="h2" variant="headingMd">
+                Verifying and testing
+              </Text>
+              <Text as="p" tone="subdued">
+                Each request carries <code>{WEBHOOK_HEADERS.event}</code>,{" "}
+                <code>{WEBHOOK_HEADERS.id}</code> (the event id, the same on
+                every retry), <code>{WEBHOOK_HEADERS.timestamp}</code> and{" "}
+                <code>{WEBHOOK_HEADERS.signature}</code>: <code>sha256=</code>{" "}
+                followed by the hex HMAC-SHA256 of{" "}
+                <code>&lt;timestamp&gt;.&lt;raw body&gt;</code>, keyed with the
+                secret. Reply with any 2xx status.
+              </Text>
+              <Text as="p" tone="subdued">
+                To try it locally, start the app with{" "}
+                <code>DEV_ALLOWED_HOSTS=localhost:4000</code> (ignored in
+                production; it lets that host:port skip the https and public
+                address checks), run this receiver, add{" "}
+                <code>http://localhost:4000</code> as an endpoint and click Send
+                test event.
+              </Text>
+              <pre style={{ whiteSpace: "pre-wrap", margin: 0 }}>
+                {RECEIVER_EXAMPLE}
+              </pre>
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -0,0 +1,24 @@
+// app/routes/app.sync-history.$jobId.csv.tsx
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { buildCsvSyncResultFile } from "../lib/csv-sync.server";
+
+/**
+ * Resource route: annotated CSV for one sync run.
+ */
+export async function loader({ request, params }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const file = await buildCsvSyncResultFile(
+    session.shop,
+    String(params.jobId || ""),
+  );
+  if (!file) return new Response("Sync job not found.", { status: 404 });
+
+  return new Response(file.csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="${file.filename.replace(/"/g, "")}"`,
+    },
+  });
+}
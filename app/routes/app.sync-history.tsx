@@ -0,0 +1,183 @@
+// app/routes/app.sync-history.tsx
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData, useNavigate } from "react-router";
+import { useState } from "react";
+import {
+  Page,
+  Layout,
+  Card,
+  Text,
+  BlockStack,
+  Button,
+  IndexTable,
+  Badge,
+  Banner,
+  Pagination,
+} from "@shopify/polaris";
+import { authenticate } from "../shopify.server";
+import { listCsvSyncJobs, type CsvSyncJobStatus } from "../lib/csv-sync.server";
+
+const PAGE_SIZE = 25;
+
+/**
+ * =========================
+ * loader(): past CSV sync runs for this shop
+ * =========================
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const { session } = await authenticate.admin(request);
+
+  const url = new URL(request.url);
+  const page = Math.max(1, Number(url.searchParams.get("page") || "1") || 1);
+
+  const { jobs, hasNext } = await listCsvSyncJobs(session.shop, {
+    page,
+    pageSize: PAGE_SIZE,
+  });
+
+  return { jobs, page, hasNext };
+}
+
+function jobTone(
+  status: CsvSyncJobStatus,
+): "success" | "critical" | "attention" | "info" {
+  if (status === "completed") return "success";
+  if (status === "failed") return "critical";
+  if (status === "running" || status === "preview_ready") return "attention";
+  return "info";
+}
+
+function formatDate(iso: string | null) {
+  return iso ? iso.slice(0, 16).replace("T", " ") : "—";
+}
+
+/**
+ * =========================
+ * Page
+ * =========================
+ */
+export default function SyncHistoryPage() {
+  const { jobs, page, hasNext } = useLoaderData<typeof loader>();
+  const navigate = useNavigate();
+
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
+  const [downloadError, setDownloadError] = useState<string | null>(null);
+
+  // fetch() is authenticated by App Bridge, a plain <a href> would not be.
+  const download = async (jobId: string) => {
+    setDownloadingId(jobId);
+    setDownloadError(null);
+    try {
+      const res = await fetch(`/app/sync-history/${jobId}/csv`);
+      if (!res.ok) throw new Error(`Download failed (${res.status})`);
+
+      const disposition = res.headers.get("Content-Disposition") || "";
+      const filename =
+        /filename="([^"]+)"/.exec(disposition)?.[1] || "sync-results.csv";
+
+      const url = URL.createObjectURL(await res.blob());
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = filename;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setDownloadError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
+  return (
+    <Page title="Sync history" backAction={{ url: "/app/fulfillment" }}>
+      <Layout>
+        <Layout.Section>
+          <Card>
+            <BlockStack gap="300">
+              <Text as="p" tone="subdued">
+                Every CSV sync run for this shop. Download a run to get the
+                original file with <code>sync_status</code>,{" "}
+                <code>sync_error</code> and <code>fulfillment_ids</code> columns
+                appended.
+              </Text>
+
+              {downloadError ? (
+                <Banner
+                  tone="critical"
+                  title="Download error"
+                  onDismiss={() => setDownloadError(null)}
+                >
+                  <p>{downloadError}</p>
+                </Banner>
+              ) : null}
+
+              <IndexTable
+                resourceName={{ singular: "run", plural: "runs" }}
+                itemCount={jobs.length}
+                headings={[
+                  { title: "File" },
+                  { title: "Uploaded by" },
+                  { title: "Status" },
+                  { title: "Rows" },
+                  { title: "Fulfillments" },
+                  { title: "Started" },
+                  { title: "Finished" },
+                  { title: "" },
+                ]}
+                selectable={false}
+              >
+                {jobs.map((job, idx) => (
+                  <IndexTable.Row id={job.id} key={job.id} position={idx}>
+                    <IndexTable.Cell>
+                      <Text as="span" fontWeight="semibold">
+                        {job.filename}
+                      </Text>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {job.uploaderName || job.uploaderEmail || "—"}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Badge tone={jobTone(job.status)}>{job.status}</Badge>
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {`${job.succeededRows} ok · ${job.failedRows} failed · ${job.skippedRows} skipped / ${job.totalRows}`}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>{job.createdFulfillments}</IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {formatDate(job.startedAt || job.createdAt)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      {formatDate(job.finishedAt)}
+                    </IndexTable.Cell>
+                    <IndexTable.Cell>
+                      <Button
+                        size="slim"
+                        onClick={() => download(job.id)}
+                        loading={downloadingId === job.id}
+                      >
+                        Download results
+                      </Button>
+                    </IndexTable.Cell>
+                  </IndexTable.Row>
+                ))}
+              </IndexTable>
+
+              {!jobs.length ? (
+                <Banner tone="info" title="No sync runs yet">
+                  <p>Upload a CSV from the Fulfillment Center to start.</p>
+                </Banner>
+              ) : null}
+
+              <Pagination
+                hasPrevious={page > 1}
+                onPrevious={() => navigate(`?page=${page - 1}`)}
+                hasNext={hasNext}
+                onNext={() => navigate(`?page=${page + 1}`)}
+              />
+            </BlockStack>
+          </Card>
+        </Layout.Section>
+      </Layout>
+    </Page>
+  );
+}
@@ -23,6 +23,9 @@ export default function App() {
         <s-app-nav>
           <s-link href="/app">Home</s-link>
           <s-link href="/app/fulfillment">Fulfillment Center</s-link>
+          <s-link href="/app/sync-history">Sync history</s-link>
+          <s-link href="/app/audit">Audit log</s-link>
+          <s-link href="/app/settings">Settings</s-link>
           <s-link href="/app/additional">Additional page</s-link>
         </s-app-nav>
         <Outlet />
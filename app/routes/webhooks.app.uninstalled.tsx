@@ -13,5 +13,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     await db.session.deleteMany({ where: { shop } });
   }
 
+  // The shop's cached orders, audit log and integrations go with it; API
+  // keys and ingestion sources must not keep acting for an uninstalled shop.
+  // Fulfillment orders, ingested files and webhook deliveries cascade.
+  await db.$transaction([
+    db.cachedOrder.deleteMany({ where: { shop } }),
+    db.orderCacheState.deleteMany({ where: { shop } }),
+    db.orderBackfill.deleteMany({ where: { shop } }),
+    db.auditEvent.deleteMany({ where: { shop } }),
+    db.ingestionSource.deleteMany({ where: { shop } }),
+    db.apiKey.deleteMany({ where: { shop } }),
+    db.webhookEndpoint.deleteMany({ where: { shop } }),
+  ]);
+
   return new Response();
 };
@@ -0,0 +1,16 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { handleBulkOperationFinish } from "../lib/order-backfill.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, session, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // The import runs in the background; answer Shopify right away
+  if (session) {
+    await handleBulkOperationFinish(shop, payload);
+  }
+
+  return new Response();
+};
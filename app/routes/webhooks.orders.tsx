@@ -0,0 +1,17 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { handleOrderCacheWebhook } from "../lib/order-cache.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, admin, topic, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // No admin context once the app has been uninstalled. The cache refresh
+  // runs in the background; answer Shopify right away
+  if (admin) {
+    handleOrderCacheWebhook(admin, shop, topic, payload);
+  }
+
+  return new Response();
+};
@@ -16,6 +16,10 @@ const shopify = shopifyApp({
   authPathPrefix: "/auth",
   sessionStorage: new PrismaSessionStorage(prisma),
   distribution: AppDistribution.AppStore,
+  // Online sessions carry the staff member behind a request, including
+  // whether they own the store (permissions.server.ts); the offline session
+  // is still stored for background work.
+  useOnlineTokens: true,
   future: {
     expiringOfflineAccessTokens: true,
   },
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "CsvSyncJob" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "totalRows" INTEGER NOT NULL DEFAULT 0,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "succeededRows" INTEGER NOT NULL DEFAULT 0,
+    "failedRows" INTEGER NOT NULL DEFAULT 0,
+    "createdFulfillments" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "startedAt" DATETIME,
+    "finishedAt" DATETIME
+);
+
+-- CreateTable
+CREATE TABLE "CsvSyncJobItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "jobId" TEXT NOT NULL,
+    "rowNumber" INTEGER NOT NULL,
+    "data" TEXT NOT NULL,
+    "orderName" TEXT NOT NULL,
+    "trackingNumber" TEXT,
+    "carrier" TEXT,
+    "notifyCustomer" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "error" TEXT,
+    "fulfillmentIds" TEXT,
+    "processedAt" DATETIME,
+    CONSTRAINT "CsvSyncJobItem_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "CsvSyncJob" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "CsvSyncJob_shop_createdAt_idx" ON "CsvSyncJob"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CsvSyncJob_status_createdAt_idx" ON "CsvSyncJob"("status", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CsvSyncJobItem_jobId_status_idx" ON "CsvSyncJobItem"("jobId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CsvSyncJobItem_jobId_rowNumber_key" ON "CsvSyncJobItem"("jobId", "rowNumber");
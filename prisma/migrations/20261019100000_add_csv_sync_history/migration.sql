@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "CsvSyncJob" ADD COLUMN "headers" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "CsvSyncJob" ADD COLUMN "uploaderEmail" TEXT;
+ALTER TABLE "CsvSyncJob" ADD COLUMN "uploaderName" TEXT;
+ALTER TABLE "CsvSyncJob" ADD COLUMN "uploaderUserId" BIGINT;
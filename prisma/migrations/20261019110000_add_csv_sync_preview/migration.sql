@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "CsvSyncJob" ADD COLUMN "plannedFulfillments" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "CsvSyncJob" ADD COLUMN "previewFailedRows" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "CsvSyncJob" ADD COLUMN "previewedRows" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "preview" TEXT;
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "previewError" TEXT;
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "previewedAt" DATETIME;
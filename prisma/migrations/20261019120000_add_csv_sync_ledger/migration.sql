@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "CsvSyncJob" ADD COLUMN "previewSkippedRows" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "CsvSyncJob" ADD COLUMN "skippedRows" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "previewSkipped" BOOLEAN NOT NULL DEFAULT false;
+
+-- CreateTable
+CREATE TABLE "CsvSyncLedger" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "orderName" TEXT NOT NULL,
+    "trackingNumber" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fulfillmentIds" TEXT NOT NULL,
+    "jobId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CsvSyncLedger_shop_orderName_trackingNumber_key" ON "CsvSyncLedger"("shop", "orderName", "trackingNumber");
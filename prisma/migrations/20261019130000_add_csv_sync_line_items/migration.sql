@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "lineItemId" TEXT;
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "quantity" INTEGER;
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "sku" TEXT;
+
+-- CreateIndex
+CREATE INDEX "CsvSyncJobItem_jobId_orderName_idx" ON "CsvSyncJobItem"("jobId", "orderName");
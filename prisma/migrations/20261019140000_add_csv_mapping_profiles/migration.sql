@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE "CsvSyncJob" ADD COLUMN "mapping" TEXT NOT NULL DEFAULT '[]';
+ALTER TABLE "CsvSyncJob" ADD COLUMN "mappingProfileName" TEXT;
+
+-- CreateTable
+CREATE TABLE "CsvMappingProfile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "mapping" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CsvMappingProfile_shop_name_key" ON "CsvMappingProfile"("shop", "name");
@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "CsvSyncJobItem" ADD COLUMN "previewWarning" TEXT;
+
+-- CreateTable
+CREATE TABLE "CustomCarrier" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT NOT NULL DEFAULT '[]',
+    "urlTemplate" TEXT NOT NULL,
+    "trackingPattern" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomCarrier_shop_name_key" ON "CustomCarrier"("shop", "name");
@@ -0,0 +1,6 @@
+-- CreateTable
+CREATE TABLE "ShopSettings" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "invalidTracking" TEXT NOT NULL DEFAULT 'warn',
+    "updatedAt" DATETIME NOT NULL
+);
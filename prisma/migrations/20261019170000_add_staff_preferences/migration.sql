@@ -0,0 +1,9 @@
+-- CreateTable
+CREATE TABLE "StaffPreference" (
+    "shop" TEXT NOT NULL,
+    "userId" BIGINT NOT NULL,
+    "queueLocationId" TEXT,
+    "updatedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("shop", "userId")
+);
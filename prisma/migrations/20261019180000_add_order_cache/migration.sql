@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "CachedOrder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL,
+    "financialStatus" TEXT,
+    "fulfillmentStatus" TEXT,
+    "tags" TEXT NOT NULL DEFAULT '[]',
+    "salesChannel" TEXT,
+    "cancelledAt" DATETIME,
+    "shopifyUpdatedAt" DATETIME NOT NULL,
+    "syncedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "CachedFulfillmentOrder" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "locationId" TEXT,
+    "locationName" TEXT,
+    CONSTRAINT "CachedFulfillmentOrder_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "CachedOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "CachedFulfillmentOrderLineItem" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fulfillmentOrderId" TEXT NOT NULL,
+    "lineItemId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "sku" TEXT,
+    "variantTitle" TEXT,
+    "totalQuantity" INTEGER NOT NULL,
+    "remainingQuantity" INTEGER NOT NULL,
+    CONSTRAINT "CachedFulfillmentOrderLineItem_fulfillmentOrderId_fkey" FOREIGN KEY ("fulfillmentOrderId") REFERENCES "CachedFulfillmentOrder" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "OrderCacheState" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "lastReconciledAt" DATETIME,
+    "reconcileStartedAt" DATETIME,
+    "error" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE INDEX "CachedOrder_shop_createdAt_idx" ON "CachedOrder"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "CachedFulfillmentOrder_orderId_idx" ON "CachedFulfillmentOrder"("orderId");
+
+-- CreateIndex
+CREATE INDEX "CachedFulfillmentOrder_shop_locationId_status_idx" ON "CachedFulfillmentOrder"("shop", "locationId", "status");
+
+-- CreateIndex
+CREATE INDEX "CachedFulfillmentOrderLineItem_fulfillmentOrderId_idx" ON "CachedFulfillmentOrderLineItem"("fulfillmentOrderId");
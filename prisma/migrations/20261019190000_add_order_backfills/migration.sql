@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "OrderBackfill" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "bulkOperationId" TEXT,
+    "status" TEXT NOT NULL,
+    "objectCount" INTEGER NOT NULL DEFAULT 0,
+    "ordersSaved" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderBackfill_bulkOperationId_key" ON "OrderBackfill"("bulkOperationId");
+
+-- CreateIndex
+CREATE INDEX "OrderBackfill_shop_startedAt_idx" ON "OrderBackfill"("shop", "startedAt");
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "AuditEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "userId" BIGINT,
+    "userName" TEXT,
+    "userEmail" TEXT,
+    "intent" TEXT NOT NULL,
+    "orderIds" TEXT NOT NULL DEFAULT '[]',
+    "orderNames" TEXT NOT NULL DEFAULT '[]',
+    "payload" TEXT NOT NULL DEFAULT 'null',
+    "ok" BOOLEAN NOT NULL,
+    "result" TEXT NOT NULL DEFAULT 'null',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_shop_createdAt_idx" ON "AuditEvent"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "AuditEvent_shop_intent_createdAt_idx" ON "AuditEvent"("shop", "intent", "createdAt");
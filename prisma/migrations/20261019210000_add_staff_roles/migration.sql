@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE "StaffRole" (
+    "shop" TEXT NOT NULL,
+    "userId" BIGINT NOT NULL,
+    "role" TEXT NOT NULL,
+    "assignedBy" BIGINT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY ("shop", "userId", "role")
+);
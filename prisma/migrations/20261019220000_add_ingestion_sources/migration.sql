@@ -0,0 +1,47 @@
+-- CreateTable
+CREATE TABLE "IngestionSource" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "host" TEXT,
+    "port" INTEGER NOT NULL DEFAULT 22,
+    "username" TEXT,
+    "password" TEXT,
+    "privateKey" TEXT,
+    "path" TEXT NOT NULL,
+    "pattern" TEXT NOT NULL DEFAULT '*.csv',
+    "archivePath" TEXT NOT NULL DEFAULT 'processed',
+    "mappingProfileId" TEXT,
+    "intervalMinutes" INTEGER NOT NULL DEFAULT 60,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "lastPolledAt" DATETIME,
+    "lastError" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "IngestedFile" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "sourceId" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "filename" TEXT NOT NULL,
+    "fingerprint" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "status" TEXT NOT NULL,
+    "jobId" TEXT,
+    "archivedAs" TEXT,
+    "error" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "IngestedFile_sourceId_fkey" FOREIGN KEY ("sourceId") REFERENCES "IngestionSource" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IngestionSource_shop_name_key" ON "IngestionSource"("shop", "name");
+
+-- CreateIndex
+CREATE INDEX "IngestedFile_sourceId_createdAt_idx" ON "IngestedFile"("sourceId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "IngestedFile_sourceId_fingerprint_key" ON "IngestedFile"("sourceId", "fingerprint");
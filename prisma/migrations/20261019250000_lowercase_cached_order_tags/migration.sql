@@ -0,0 +1,4 @@
+-- Tags are matched case-insensitively from now on; new rows are lowercased
+-- when cached, existing ones here (SQLite's lower() covers ASCII only, the
+-- next reconcile rewrites the rest).
+UPDATE "CachedOrder" SET "tags" = lower("tags");
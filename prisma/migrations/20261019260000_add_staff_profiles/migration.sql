@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE "StaffProfile" (
+    "shop" TEXT NOT NULL,
+    "userId" BIGINT NOT NULL,
+    "name" TEXT,
+    "email" TEXT,
+    "accountOwner" BOOLEAN NOT NULL DEFAULT false,
+    "fetchedAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("shop", "userId")
+);